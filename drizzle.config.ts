@@ -71,6 +71,14 @@ export default defineConfig({
     url: process.env.DATABASE_URL!,
   },
 
+  /**
+   * Embedded Database
+   *
+   * With DATABASE_DRIVER=pglite, DATABASE_URL is a PGlite data directory
+   * (e.g. ./.pglite) and migrations are applied to it in-process.
+   */
+  ...(process.env.DATABASE_DRIVER === 'pglite' && { driver: 'pglite' }),
+
   // Verbose logging for debugging migration issues
   // verbose: true,
 
@@ -0,0 +1,15 @@
+CREATE TABLE "upload_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"name" text NOT NULL,
+	"parent_id" uuid,
+	"mime_type" text NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"offset" bigint DEFAULT 0 NOT NULL,
+	"storage_key" text NOT NULL,
+	"storage_upload_id" text NOT NULL,
+	"parts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
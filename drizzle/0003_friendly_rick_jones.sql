@@ -0,0 +1,3 @@
+ALTER TABLE "file_system_entries" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "trash_root_id" uuid;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "original_parent_id" uuid;
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "file_system_entries" ALTER COLUMN "size_bytes" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "storage_quota_bytes" bigint DEFAULT 16106127360 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "storage_used_bytes" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "storage_used_bytes" = (
+	SELECT coalesce(sum("size_bytes"), 0) FROM "file_system_entries"
+	WHERE "owner_id" = "users"."id"::text AND "is_folder" = false
+) + (
+	SELECT coalesce(sum("size_bytes"), 0) FROM "upload_sessions"
+	WHERE "owner_id" = "users"."id"::text
+);
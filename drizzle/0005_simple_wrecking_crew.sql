@@ -0,0 +1,17 @@
+CREATE TYPE "public"."share_link_role" AS ENUM('view', 'download', 'upload');--> statement-breakpoint
+CREATE TABLE "share_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token" text NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"owner_id" text NOT NULL,
+	"role" "share_link_role" NOT NULL,
+	"password_hash" text,
+	"expires_at" timestamp with time zone,
+	"max_downloads" integer,
+	"download_count" integer DEFAULT 0 NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "share_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_entry_id_file_system_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."file_system_entries"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."collaborator_role" AS ENUM('viewer', 'commenter', 'editor');--> statement-breakpoint
+CREATE TABLE "entry_permissions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "collaborator_role" NOT NULL,
+	"granted_by" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "entry_permissions_entry_user_unique" UNIQUE("entry_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD COLUMN "created_by" text;--> statement-breakpoint
+UPDATE "upload_sessions" SET "created_by" = "owner_id";--> statement-breakpoint
+ALTER TABLE "upload_sessions" ALTER COLUMN "created_by" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "entry_permissions" ADD CONSTRAINT "entry_permissions_entry_id_file_system_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."file_system_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "entry_permissions" ADD CONSTRAINT "entry_permissions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
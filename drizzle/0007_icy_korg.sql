@@ -0,0 +1,16 @@
+CREATE TABLE "file_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"version_number" integer NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"mime_type" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"author_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "content_author_id" text;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "content_updated_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_entry_id_file_system_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."file_system_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+UPDATE "file_system_entries" SET "content_updated_at" = "updated_at";
@@ -0,0 +1,7 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "content_text" text;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "content_text_version" integer;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple', "file_system_entries"."name"), 'A') || setweight(to_tsvector('english', coalesce("file_system_entries"."content_text", '')), 'B') || setweight(to_tsvector('simple', "file_system_entries"."path"), 'C')) STORED;--> statement-breakpoint
+CREATE INDEX "file_system_entries_search_idx" ON "file_system_entries" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "file_system_entries_name_trgm_idx" ON "file_system_entries" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "file_system_entries_path_trgm_idx" ON "file_system_entries" USING gin ("path" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,72 @@
+CREATE TYPE "public"."conflict_policy" AS ENUM('fail', 'rename', 'replace');--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD COLUMN "conflict_policy" "conflict_policy" DEFAULT 'replace' NOT NULL;--> statement-breakpoint
+-- Detach entries whose parent no longer exists so the FK can be added
+UPDATE "file_system_entries" SET "parent_id" = NULL
+WHERE "parent_id" IS NOT NULL
+  AND "parent_id" NOT IN (SELECT "id" FROM "file_system_entries");--> statement-breakpoint
+-- Rename existing duplicates to the first free "name (n).ext" (oldest
+-- keeps its name) so the unique index can be built. Checked against
+-- live siblings one at a time, as a "name (n).ext" may already exist
+DO $$
+DECLARE
+  "entry" record;
+  "base" text;
+  "extension" text;
+  "candidate" text;
+  "n" integer;
+BEGIN
+  FOR "entry" IN
+    SELECT "id", "owner_id", "parent_id", "name", "is_folder" FROM (
+      SELECT *, row_number() OVER (
+        PARTITION BY "owner_id", coalesce("parent_id", '00000000-0000-0000-0000-000000000000'), lower("name")
+        ORDER BY "created_at", "id"
+      ) AS "rank"
+      FROM "file_system_entries"
+      WHERE "is_deleted" = false
+    ) "ranked"
+    WHERE "rank" > 1
+    ORDER BY "created_at", "id"
+  LOOP
+    IF NOT "entry"."is_folder" AND "entry"."name" ~ '^.+\.[^.]*$' THEN
+      "base" := regexp_replace("entry"."name", '\.[^.]*$', '');
+      "extension" := substring("entry"."name" FROM '\.[^.]*$');
+    ELSE
+      "base" := "entry"."name";
+      "extension" := '';
+    END IF;
+
+    "n" := 1;
+    LOOP
+      "candidate" := "base" || ' (' || "n" || ')' || "extension";
+      EXIT WHEN NOT EXISTS (
+        SELECT 1 FROM "file_system_entries"
+        WHERE "owner_id" = "entry"."owner_id"
+          AND "parent_id" IS NOT DISTINCT FROM "entry"."parent_id"
+          AND "is_deleted" = false
+          AND lower("name") = lower("candidate")
+      );
+      "n" := "n" + 1;
+    END LOOP;
+
+    UPDATE "file_system_entries" SET "name" = "candidate" WHERE "id" = "entry"."id";
+  END LOOP;
+END $$;--> statement-breakpoint
+-- Rebuild paths from the parent chain to pick up the renames
+WITH RECURSIVE "tree" AS (
+  SELECT "id", "owner_id", '/' || "name" || CASE WHEN "is_folder" THEN '/' ELSE '' END AS "path", 0 AS "depth"
+  FROM "file_system_entries"
+  WHERE "parent_id" IS NULL
+  UNION ALL
+  SELECT "child"."id", "child"."owner_id", "tree"."path" || "child"."name" || CASE WHEN "child"."is_folder" THEN '/' ELSE '' END, "tree"."depth" + 1
+  FROM "file_system_entries" "child"
+  JOIN "tree" ON "child"."parent_id" = "tree"."id" AND "child"."owner_id" = "tree"."owner_id"
+  WHERE "tree"."depth" < 1000
+)
+UPDATE "file_system_entries" SET "path" = "tree"."path"
+FROM "tree"
+WHERE "file_system_entries"."id" = "tree"."id" AND "file_system_entries"."path" <> "tree"."path";--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD CONSTRAINT "file_system_entries_parent_id_file_system_entries_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."file_system_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "file_system_entries_sibling_name_unique" ON "file_system_entries" USING btree ("owner_id",coalesce("parent_id", '00000000-0000-0000-0000-000000000000'),lower("name")) WHERE "file_system_entries"."is_deleted" = false;--> statement-breakpoint
+CREATE INDEX "file_system_entries_listing_idx" ON "file_system_entries" USING btree ("owner_id","parent_id","is_folder","name") WHERE "file_system_entries"."is_deleted" = false;--> statement-breakpoint
+CREATE INDEX "file_system_entries_trash_idx" ON "file_system_entries" USING btree ("owner_id","deleted_at") WHERE "file_system_entries"."is_deleted" = true;--> statement-breakpoint
+CREATE INDEX "file_system_entries_parent_idx" ON "file_system_entries" USING btree ("parent_id");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "blobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sha256" text,
+	"size_bytes" bigint NOT NULL,
+	"storage_key" text NOT NULL,
+	"ref_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "blobs_sha256_unique" UNIQUE("sha256"),
+	CONSTRAINT "blobs_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD COLUMN "blob_id" uuid;--> statement-breakpoint
+ALTER TABLE "file_versions" ADD COLUMN "blob_id" uuid;--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD COLUMN "sha256" text;--> statement-breakpoint
+ALTER TABLE "file_system_entries" ADD CONSTRAINT "file_system_entries_blob_id_blobs_id_fk" FOREIGN KEY ("blob_id") REFERENCES "public"."blobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_blob_id_blobs_id_fk" FOREIGN KEY ("blob_id") REFERENCES "public"."blobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Give every existing stored object a blob; hashes are filled in (and
+-- duplicates merged) afterwards by the backfill cron job
+INSERT INTO "blobs" ("storage_key", "size_bytes", "ref_count")
+SELECT "key", max("size"), count(*)
+FROM (
+  SELECT "storage_url" AS "key", "size_bytes" AS "size"
+  FROM "file_system_entries"
+  WHERE NOT "is_folder" AND "storage_url" <> ''
+  UNION ALL
+  SELECT "storage_key", "size_bytes" FROM "file_versions"
+) AS "refs"
+GROUP BY "key";--> statement-breakpoint
+UPDATE "file_system_entries" SET "blob_id" = "blobs"."id"
+FROM "blobs"
+WHERE "blobs"."storage_key" = "file_system_entries"."storage_url"
+  AND NOT "file_system_entries"."is_folder";--> statement-breakpoint
+UPDATE "file_versions" SET "blob_id" = "blobs"."id"
+FROM "blobs"
+WHERE "blobs"."storage_key" = "file_versions"."storage_key";
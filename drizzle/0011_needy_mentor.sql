@@ -0,0 +1,5 @@
+ALTER TABLE "file_versions" ALTER COLUMN "blob_id" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "file_system_entries_blob_idx" ON "file_system_entries" USING btree ("blob_id");--> statement-breakpoint
+CREATE INDEX "file_versions_blob_idx" ON "file_versions" USING btree ("blob_id");--> statement-breakpoint
+ALTER TABLE "file_system_entries" DROP COLUMN "storage_url";--> statement-breakpoint
+ALTER TABLE "file_versions" DROP COLUMN "storage_key";
\ No newline at end of file
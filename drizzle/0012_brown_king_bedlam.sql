@@ -0,0 +1,3 @@
+CREATE TYPE "public"."thumbnail_status" AS ENUM('pending', 'ready', 'unsupported', 'failed');--> statement-breakpoint
+ALTER TABLE "blobs" ADD COLUMN "thumbnail_status" "thumbnail_status" DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+CREATE INDEX "blobs_thumbnail_pending_idx" ON "blobs" USING btree ("id") WHERE "blobs"."thumbnail_status" = 'pending';
\ No newline at end of file
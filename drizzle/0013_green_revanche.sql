@@ -0,0 +1,12 @@
+CREATE TYPE "public"."change_kind" AS ENUM('create', 'update', 'move', 'delete', 'restore', 'permission');--> statement-breakpoint
+CREATE TABLE "entry_changes" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"kind" "change_kind" NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "entry_changes" ADD CONSTRAINT "entry_changes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "entry_changes_user_idx" ON "entry_changes" USING btree ("user_id","id");--> statement-breakpoint
+CREATE INDEX "entry_changes_created_idx" ON "entry_changes" USING btree ("created_at");
\ No newline at end of file
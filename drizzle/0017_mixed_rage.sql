@@ -0,0 +1,14 @@
+-- Concurrent saves could archive the same version twice. Both rows are
+-- snapshots of the same content, holding one blob reference and one
+-- quota charge between them, so the extras are dropped as they are
+DELETE FROM "file_versions"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT "id", row_number() OVER (
+      PARTITION BY "entry_id", "version_number" ORDER BY "created_at", "id"
+    ) AS "rank"
+    FROM "file_versions"
+  ) "ranked"
+  WHERE "rank" > 1
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "file_versions_entry_version_unique" ON "file_versions" USING btree ("entry_id","version_number");
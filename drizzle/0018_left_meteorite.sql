@@ -0,0 +1 @@
+ALTER TABLE "upload_sessions" DROP COLUMN "sha256";
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "entry_changes_user_idx";--> statement-breakpoint
+ALTER TABLE "entry_changes" ADD COLUMN "transaction_id" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+CREATE INDEX "entry_changes_user_idx" ON "entry_changes" USING btree ("user_id","transaction_id","id");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "entry_texts" (
+	"entry_id" uuid PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"text" text,
+	"search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("entry_texts"."text", '')), 'B')) STORED
+);
+--> statement-breakpoint
+DROP INDEX "file_system_entries_search_idx";--> statement-breakpoint
+ALTER TABLE "entry_texts" ADD CONSTRAINT "entry_texts_entry_id_file_system_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."file_system_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "entry_texts_search_idx" ON "entry_texts" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "file_system_entries_search_idx" ON "file_system_entries" USING gin ((setweight(to_tsvector('simple', "name"), 'A') || setweight(to_tsvector('simple', "path"), 'C')));--> statement-breakpoint
+-- Carry over text already extracted, so it isn't all redone
+INSERT INTO "entry_texts" ("entry_id", "version", "text")
+SELECT "id", "content_text_version", "content_text" FROM "file_system_entries"
+WHERE "content_text_version" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_system_entries" DROP COLUMN "search_vector";--> statement-breakpoint
+ALTER TABLE "file_system_entries" DROP COLUMN "content_text";--> statement-breakpoint
+ALTER TABLE "file_system_entries" DROP COLUMN "content_text_version";
\ No newline at end of file
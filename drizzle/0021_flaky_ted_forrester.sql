@@ -0,0 +1 @@
+ALTER TABLE "file_system_entries" ADD CONSTRAINT "file_system_entries_not_own_parent" CHECK ("file_system_entries"."parent_id" <> "file_system_entries"."id");
\ No newline at end of file
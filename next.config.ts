@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PGlite loads its WebAssembly build from its package at runtime
+  serverExternalPackages: ["@electric-sql/pglite"],
 };
 
 export default nextConfig;
@@ -0,0 +1,70 @@
+import 'dotenv/config';
+
+import { db } from '@/db';
+import {
+  checkTree,
+  listTreeOwners,
+  repairTree,
+} from '@/server/services/tree-integrity';
+import { parseArgs } from 'node:util';
+
+/**
+ * Tree Integrity Check
+ *
+ * Scans every user's file tree for orphans, cycles, children under
+ * files and stale paths, and prints what it would repair.
+ *
+ *   npm run tree:check                    # dry run, all users
+ *   npm run tree:check -- --owner <id>    # dry run, one user
+ *   npm run tree:check -- --repair        # apply the repairs
+ *
+ * Exits with status 1 when a dry run finds issues, so it can gate CI or
+ * alerting.
+ */
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      owner: { type: 'string' },
+      repair: { type: 'boolean', default: false },
+    },
+  });
+
+  const owners = values.owner ? [values.owner] : await listTreeOwners(db);
+  let found = 0;
+
+  for (const ownerId of owners) {
+    const report = await checkTree(db, ownerId);
+    if (report.issues.length === 0) continue;
+
+    found += report.issues.length;
+
+    for (const issue of report.issues) {
+      console.log(
+        `[${issue.type}] owner=${ownerId} entry=${issue.entryId} ${issue.path} -> ${issue.repair}`
+      );
+    }
+
+    if (values.repair) {
+      const result = await repairTree(db, report);
+      console.log(
+        `Repaired owner=${ownerId}: ${result.reparented} re-attached, ${result.paths} paths rewritten`
+      );
+    }
+  }
+
+  console.log(
+    `Checked ${owners.length} user(s): ${found} issue(s)${
+      values.repair || found === 0 ? '' : ' (dry run, pass --repair to fix)'
+    }`
+  );
+
+  return found > 0 && !values.repair ? 1 : 0;
+};
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
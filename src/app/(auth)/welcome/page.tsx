@@ -5,28 +5,35 @@
 import { Heading } from '@/components/heading';
 import { Icons } from '@/components/icons';
 import { LoadingSpinner } from '@/components/loading-spinner';
+import { useServerEvents } from '@/lib/events';
 import { client } from '@/lib/trpc';
 import { useQuery } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 
 const Page = () => {
   const router = useRouter();
+  const [isSynced, setIsSynced] = useState(false);
 
+  // Creates the account if the Clerk webhook hasn't yet
   const { data } = useQuery({
     queryFn: async () => {
       const res = await client.authentication.getDatabaseSyncStatus.query();
       return res;
     },
     queryKey: ['get-database-sync-status'],
-    refetchInterval: (query) => {
-      return query.state.data?.isSynced ? false : 1000;
+  });
+
+  // Whichever creates it, the event stream reports it straight away
+  useServerEvents({
+    onAccount: (account) => {
+      if (account.isSynced) setIsSynced(true);
     },
   });
 
   useEffect(() => {
-    if (data?.isSynced) router.push('/dashboard');
-  }, [data, router]);
+    if (data?.isSynced || isSynced) router.push('/dashboard');
+  }, [data, isSynced, router]);
 
   return (
     <div className="flex w-full flex-1 items-center justify-center px-4">
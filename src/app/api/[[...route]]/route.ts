@@ -19,3 +19,14 @@ export const GET = handle(app);
 
 // Handle POST requests (mutations, form submissions, etc.)
 export const POST = handle(app);
+
+// Handle PUT/PATCH requests (upload chunks)
+export const PUT = handle(app);
+export const PATCH = handle(app);
+
+// Handle DELETE requests (aborting uploads)
+export const DELETE = handle(app);
+
+// Handle HEAD requests (upload progress) and CORS preflight
+export const HEAD = handle(app);
+export const OPTIONS = handle(app);
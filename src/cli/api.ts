@@ -0,0 +1,177 @@
+import { guessMimeType } from '@/cli/mime';
+import { createApiClient } from '@/lib/trpc';
+import type { ClientEntry } from '@/server/services/files';
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { rename, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+
+/**
+ * Error response from one of the server's Hono routes.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+// Entries as listed by the API; dates arrive as strings (no transformer)
+export type RemoteEntry = Pick<
+  ClientEntry,
+  | 'id'
+  | 'name'
+  | 'path'
+  | 'parent_id'
+  | 'owner_id'
+  | 'is_folder'
+  | 'version'
+  | 'size_bytes'
+>;
+
+// Children fetched per files.list call
+const LIST_PAGE_SIZE = 200;
+
+/**
+ * Client for the frisync API, authenticated with a bearer token.
+ */
+export const createApi = ({
+  server,
+  token,
+}: {
+  server: string;
+  token: string;
+}) => {
+  const headers = { Authorization: `Bearer ${token}` };
+  const trpc = createApiClient({
+    url: new URL('/api/trpc', server).href,
+    headers,
+  });
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(new URL(path, server), {
+      ...init,
+      headers: { ...headers, ...init.headers },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new ApiError(body?.error ?? response.statusText, response.status);
+    }
+
+    return response;
+  };
+
+  // Send a local file as a raw request body
+  const sendFile = async (
+    method: 'POST' | 'PUT',
+    path: string,
+    file: { path: string; size: number }
+  ): Promise<RemoteEntry> => {
+    const response = await request(path, {
+      method,
+      headers: {
+        'Content-Type': guessMimeType(file.path),
+        'Content-Length': String(file.size),
+      },
+      body: Readable.toWeb(createReadStream(file.path)) as ReadableStream,
+      // Required by Node's fetch for streamed bodies
+      duplex: 'half',
+    } as RequestInit);
+
+    return response.json();
+  };
+
+  return {
+    trpc,
+
+    /**
+     * Every child of a folder (or the root when `parentId` is null).
+     */
+    listFolder: async (parentId: string | null) => {
+      const items: RemoteEntry[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const page = await trpc.files.list.query({
+          parentId,
+          cursor,
+          limit: LIST_PAGE_SIZE,
+        });
+
+        items.push(...page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      return items;
+    },
+
+    /**
+     * Upload a new file into a folder. Fails if the name is taken.
+     */
+    uploadFile: (
+      parentId: string | null,
+      name: string,
+      file: { path: string; size: number }
+    ) => {
+      const query = new URLSearchParams({
+        name,
+        onConflict: 'fail',
+        ...(parentId && { parentId }),
+      });
+
+      return sendFile('POST', `/api/files/upload?${query}`, file);
+    },
+
+    /**
+     * Save a local file as the new content of an existing file, as long
+     * as it's still at `version`; otherwise fails with a 409 ApiError.
+     */
+    uploadContent: (
+      id: string,
+      version: number,
+      file: { path: string; size: number }
+    ) => sendFile('PUT', `/api/files/${id}/content?version=${version}`, file),
+
+    /**
+     * Download a file to `destination`, replacing it atomically.
+     * Returns the SHA-256 of the bytes written.
+     */
+    downloadFile: async (id: string, destination: string) => {
+      const { url } = await trpc.files.getDownloadUrl.query({ id });
+      const response = await request(url);
+
+      const temporary = join(
+        dirname(destination),
+        `.frisync-download-${crypto.randomUUID()}`
+      );
+      const hash = createHash('sha256');
+
+      try {
+        await pipeline(
+          Readable.fromWeb(response.body as NodeReadableStream),
+          new Transform({
+            transform(chunk, _encoding, callback) {
+              hash.update(chunk);
+              callback(null, chunk);
+            },
+          }),
+          createWriteStream(temporary)
+        );
+        await rename(temporary, destination);
+      } catch (error) {
+        await rm(temporary, { force: true });
+        throw error;
+      }
+
+      return hash.digest('hex');
+    },
+  };
+};
+
+export type Api = ReturnType<typeof createApi>;
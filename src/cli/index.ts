@@ -0,0 +1,153 @@
+import { createApi, type Api } from '@/cli/api';
+import { createState, loadState, saveState } from '@/cli/state';
+import { syncDirectory, type SyncMode } from '@/cli/sync';
+import { mkdir } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+
+/**
+ * frisync Command-Line Client
+ *
+ * Keeps a local directory in sync with a folder on the server.
+ *
+ *   npm run frisync -- pull ~/Drive                  # download changes
+ *   npm run frisync -- push ~/Drive                  # upload changes
+ *   npm run frisync -- sync ~/Drive --remote /Work   # both ways
+ *   npm run frisync -- sync ~/Drive --interval 60    # keep syncing
+ *
+ * The remote folder and server are remembered in the directory's
+ * `.frisync` state after the first run. The token, a personal access
+ * token with the `read` and `write` scopes (`accessTokens.create`), is
+ * never stored: pass it with `--token` or `FRISYNC_TOKEN` every time.
+ */
+
+const MODES: SyncMode[] = ['pull', 'push', 'sync'];
+
+const DEFAULT_SERVER = 'http://localhost:3000';
+
+const USAGE = `Usage: frisync <pull|push|sync> <directory> [options]
+
+Options:
+  --remote <path>      Remote folder to sync with (default: /)
+  --server <url>       Server URL (default: $FRISYNC_SERVER or ${DEFAULT_SERVER})
+  --token <token>      Personal access token (default: $FRISYNC_TOKEN)
+  --interval <secs>    Keep syncing, waiting this long between runs`;
+
+// Normalize a remote folder path to the server's form ("/a/b/")
+const normalizeRemotePath = (path: string) => {
+  const names = path.split('/').filter(Boolean);
+  return names.length === 0 ? '/' : `/${names.join('/')}/`;
+};
+
+/**
+ * Find a remote folder by path, one level at a time.
+ */
+const resolveRemoteFolder = async (api: Api, path: string) => {
+  let folder: { id: string | null; path: string; ownerId: string | null } = {
+    id: null,
+    path: '/',
+    ownerId: null,
+  };
+
+  for (const name of path.split('/').filter(Boolean)) {
+    const children = await api.listFolder(folder.id);
+    const match = children.find(
+      (child) => child.is_folder && child.name === name
+    );
+    if (!match) throw new Error(`Remote folder ${path} does not exist.`);
+
+    folder = { id: match.id, path: match.path, ownerId: match.owner_id };
+  }
+
+  return folder;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      remote: { type: 'string' },
+      server: { type: 'string' },
+      token: { type: 'string' },
+      interval: { type: 'string' },
+    },
+  });
+
+  const [mode, directory] = positionals as [SyncMode, string | undefined];
+  if (!MODES.includes(mode) || !directory || positionals.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const token = values.token ?? process.env.FRISYNC_TOKEN;
+  if (!token) {
+    console.error('An API token is required (--token or FRISYNC_TOKEN).');
+    return 2;
+  }
+
+  const interval = values.interval ? Number(values.interval) : null;
+  if (interval !== null && !(interval > 0)) {
+    console.error('--interval must be a positive number of seconds.');
+    return 2;
+  }
+
+  const root = resolve(directory);
+  await mkdir(root, { recursive: true });
+
+  let state = await loadState(root);
+  const server =
+    values.server ??
+    process.env.FRISYNC_SERVER ??
+    state?.server ??
+    DEFAULT_SERVER;
+  const api = createApi({ server, token });
+
+  const remotePath = values.remote && normalizeRemotePath(values.remote);
+  if (state && remotePath && remotePath !== state.remotePath) {
+    console.error(
+      `${root} is already synced with ${state.remotePath}; use another directory.`
+    );
+    return 2;
+  }
+
+  if (!state) {
+    const folder = await resolveRemoteFolder(api, remotePath ?? '/');
+    state = createState(server, folder);
+    await saveState(root, state);
+  }
+  state.server = server;
+
+  // Finish the current run on Ctrl-C; a second one exits immediately
+  const stop = new AbortController();
+  process.on('SIGINT', () => {
+    if (stop.signal.aborted) process.exit(130);
+    console.log('Stopping after this run...');
+    stop.abort();
+  });
+
+  for (;;) {
+    const failed = await syncDirectory(api, root, state, mode);
+
+    console.log(
+      failed === 0
+        ? `${root} is up to date with ${state.remotePath}`
+        : `${failed} item(s) failed to sync; they'll be retried next run`
+    );
+
+    if (interval === null || stop.signal.aborted) return failed > 0 ? 1 : 0;
+
+    await sleep(interval * 1000, undefined, { signal: stop.signal }).catch(
+      () => {}
+    );
+    if (stop.signal.aborted) return 0;
+  }
+};
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
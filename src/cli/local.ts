@@ -0,0 +1,86 @@
+import { STATE_DIR, type SyncedItem } from '@/cli/state';
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// A local item, keyed by its path relative to the synced directory
+export type LocalItem = {
+  isFolder: boolean;
+  size: number;
+  mtimeMs: number;
+  // Hash of the content (null for folders)
+  sha256: string | null;
+};
+
+// Partial downloads and OS metadata are never synced
+const IGNORED_NAMES = new Set([STATE_DIR, '.DS_Store', 'Thumbs.db']);
+const IGNORED_PREFIX = '.frisync-download-';
+
+export const isIgnored = (name: string) =>
+  IGNORED_NAMES.has(name) || name.startsWith(IGNORED_PREFIX);
+
+/**
+ * Hex SHA-256 of a local file.
+ */
+export const hashFile = async (path: string) => {
+  const hash = createHash('sha256');
+
+  for await (const chunk of createReadStream(path)) hash.update(chunk);
+
+  return hash.digest('hex');
+};
+
+/**
+ * List everything in a directory tree, using forward slashes in paths
+ * as the server does.
+ *
+ * Files are only hashed when their size or modification time differs
+ * from the synced copy; otherwise the synced hash is reused.
+ */
+export const scanLocal = async (
+  root: string,
+  synced: Record<string, SyncedItem>
+) => {
+  const items = new Map<string, LocalItem>();
+
+  const walk = async (relativeDir: string) => {
+    const entries = await readdir(join(root, relativeDir), {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      if (isIgnored(entry.name)) continue;
+
+      const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      // Symlinks and special files are skipped
+      if (entry.isDirectory()) {
+        items.set(path, { isFolder: true, size: 0, mtimeMs: 0, sha256: null });
+        await walk(path);
+        continue;
+      }
+
+      if (!entry.isFile()) continue;
+
+      const stats = await stat(join(root, path));
+      const base = synced[path];
+      const unchanged =
+        base &&
+        !base.isFolder &&
+        base.size === stats.size &&
+        base.mtimeMs === stats.mtimeMs;
+
+      items.set(path, {
+        isFolder: false,
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        sha256: unchanged ? base.sha256 : await hashFile(join(root, path)),
+      });
+    }
+  };
+
+  await walk('');
+
+  return items;
+};
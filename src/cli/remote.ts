@@ -0,0 +1,149 @@
+import type { Api, RemoteEntry } from '@/cli/api';
+import type { RemoteItem, SyncState } from '@/cli/state';
+
+type ChangesPage = Awaited<ReturnType<Api['trpc']['changes']['list']['query']>>;
+export type RemoteChange = ChangesPage['changes'][number];
+
+export const toRemoteItem = (entry: RemoteEntry): RemoteItem => ({
+  id: entry.id,
+  isFolder: entry.is_folder,
+  version: entry.version,
+  size: entry.size_bytes,
+});
+
+/**
+ * List the whole remote folder, keyed by path relative to it.
+ */
+export const scanRemote = async (api: Api, state: SyncState) => {
+  const remote: Record<string, RemoteItem> = {};
+
+  const walk = async (folderId: string | null, prefix: string) => {
+    for (const entry of await api.listFolder(folderId)) {
+      state.ownerId ??= entry.owner_id;
+
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      remote[path] = toRemoteItem(entry);
+
+      if (entry.is_folder) await walk(entry.id, path);
+    }
+  };
+
+  await walk(state.remoteId, '');
+
+  return remote;
+};
+
+/**
+ * Read every change since the state's cursor.
+ *
+ * Returns null when the feed asks for a reset; the cursor is still
+ * advanced, so rescanning the remote folder brings the state up to it.
+ */
+export const fetchChanges = async (api: Api, state: SyncState) => {
+  const changes: RemoteChange[] = [];
+  let reset = false;
+
+  for (;;) {
+    const page: ChangesPage = await api.trpc.changes.list.query({
+      cursor: state.cursor,
+    });
+
+    reset ||= page.reset;
+    state.cursor = page.cursor;
+    changes.push(...page.changes);
+
+    if (!page.hasMore) break;
+  }
+
+  return reset ? null : changes;
+};
+
+/**
+ * Apply changes from the feed to the remote tree in the state.
+ *
+ * Returns the updated tree, or null when a change can't be applied
+ * piecemeal (a folder moved or restored with unknown contents) and the
+ * folder must be rescanned instead.
+ */
+export const applyChanges = (state: SyncState, changes: RemoteChange[]) => {
+  const remote = { ...state.remote };
+  const pathOf = new Map(
+    Object.entries(remote).map(([path, item]) => [item.id, path])
+  );
+
+  const remove = (path: string) => {
+    for (const key of Object.keys(remote)) {
+      if (key === path || key.startsWith(`${path}/`)) {
+        pathOf.delete(remote[key].id);
+        delete remote[key];
+      }
+    }
+  };
+
+  // Where an entry belongs in the tree, or undefined if it's outside
+  // the synced folder (or inside a folder not applied yet)
+  const parentPathOf = (entry: RemoteEntry) => {
+    if (entry.parent_id === state.remoteId) {
+      // At the root, entries shared by other users also have no parent
+      if (state.remoteId === null && entry.owner_id !== state.ownerId) {
+        return undefined;
+      }
+      return '';
+    }
+
+    const path = entry.parent_id ? pathOf.get(entry.parent_id) : undefined;
+    return path !== undefined && remote[path].isFolder ? path : undefined;
+  };
+
+  let pending = changes;
+
+  // Changes arrive compacted, so a child can come before its new parent
+  for (;;) {
+    const deferred: RemoteChange[] = [];
+
+    for (const change of pending) {
+      const { entry } = change;
+      const known = pathOf.get(change.entryId);
+
+      if (!entry) {
+        if (known !== undefined) remove(known);
+        continue;
+      }
+
+      if (
+        entry.is_folder &&
+        (change.kind === 'move' ||
+          change.kind === 'restore' ||
+          change.kind === 'permission')
+      ) {
+        return null;
+      }
+
+      if (state.remoteId === null && state.ownerId === null) return null;
+
+      const parentPath = parentPathOf(entry);
+      if (parentPath === undefined) {
+        deferred.push(change);
+        continue;
+      }
+
+      const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+      if (known !== undefined && known !== path) remove(known);
+
+      remote[path] = toRemoteItem(entry);
+      pathOf.set(entry.id, path);
+    }
+
+    if (deferred.length === 0 || deferred.length === pending.length) {
+      // Whatever is left was moved out of the synced folder, or was
+      // never in it
+      for (const change of deferred) {
+        const known = pathOf.get(change.entryId);
+        if (known !== undefined) remove(known);
+      }
+      return remote;
+    }
+
+    pending = deferred;
+  }
+};
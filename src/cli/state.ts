@@ -0,0 +1,94 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * Local State Database
+ *
+ * Kept in `.frisync/state.json` inside the synced directory. Records
+ * which remote folder the directory mirrors, the change feed cursor,
+ * the remote tree as of that cursor, and every item as it was when it
+ * was last in sync on both sides - the common base that local and
+ * remote changes are detected against.
+ */
+
+// Directory inside the synced folder that holds the state; never synced
+export const STATE_DIR = '.frisync';
+
+const STATE_FILE = 'state.json';
+
+// Bump when the format changes; older state forces a fresh sync
+const STATE_VERSION = 1;
+
+// A remote item, keyed by its path relative to the synced folder
+export type RemoteItem = {
+  id: string;
+  isFolder: boolean;
+  // Content version, so remote edits can be told apart (0 for folders)
+  version: number;
+  size: number;
+};
+
+// An item as it was when both sides last agreed on it
+export type SyncedItem = RemoteItem & {
+  // Local modification time and hash when it was synced
+  mtimeMs: number;
+  sha256: string | null;
+};
+
+export type SyncState = {
+  version: number;
+  server: string;
+  // Remote folder mirrored (null for the root of the user's drive)
+  remoteId: string | null;
+  // Its `path`, which prefixes the paths of everything inside it
+  remotePath: string;
+  // Owner of the remote folder, once known
+  ownerId: string | null;
+  cursor: string | null;
+  remote: Record<string, RemoteItem>;
+  synced: Record<string, SyncedItem>;
+};
+
+const statePath = (root: string) => join(root, STATE_DIR, STATE_FILE);
+
+/**
+ * Read the state of a synced directory, or null if it has none.
+ */
+export const loadState = async (root: string): Promise<SyncState | null> => {
+  try {
+    const state = JSON.parse(await readFile(statePath(root), 'utf8'));
+    return state.version === STATE_VERSION ? state : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+/**
+ * Create the state for a directory that hasn't been synced yet.
+ */
+export const createState = (
+  server: string,
+  remote: { id: string | null; path: string; ownerId: string | null }
+): SyncState => ({
+  version: STATE_VERSION,
+  server,
+  remoteId: remote.id,
+  remotePath: remote.path,
+  ownerId: remote.ownerId,
+  cursor: null,
+  remote: {},
+  synced: {},
+});
+
+/**
+ * Write the state, replacing the old file atomically so a crash never
+ * leaves it half-written.
+ */
+export const saveState = async (root: string, state: SyncState) => {
+  await mkdir(join(root, STATE_DIR), { recursive: true });
+
+  const temporary = `${statePath(root)}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(state));
+  await rename(temporary, statePath(root));
+};
@@ -0,0 +1,445 @@
+import { ApiError, type Api, type RemoteEntry } from '@/cli/api';
+import { scanLocal, type LocalItem } from '@/cli/local';
+import {
+  applyChanges,
+  fetchChanges,
+  scanRemote,
+  toRemoteItem,
+} from '@/cli/remote';
+import {
+  saveState,
+  type RemoteItem,
+  type SyncedItem,
+  type SyncState,
+} from '@/cli/state';
+import { access, mkdir, rename, rm, rmdir, stat } from 'node:fs/promises';
+import { extname, join, posix } from 'node:path';
+
+/**
+ * Three-Way Sync
+ *
+ * Each path is compared on three sides: the local directory, the remote
+ * folder, and the synced base (both sides as they last agreed). Only a
+ * side that differs from the base has changed, so a change on one side
+ * is copied to the other, and a change on both is a conflict.
+ *
+ * - `pull` only applies remote changes locally.
+ * - `push` only applies local changes remotely.
+ * - `sync` does both.
+ *
+ * When both sides changed a file, the local one is kept as a
+ * "conflicted copy" next to it and the remote one is downloaded; the
+ * copy is then uploaded like any new file. Deleting a file on one side
+ * while it's edited on the other keeps the edit. `push` can't resolve
+ * conflicts, since that writes locally, so it reports them as failures.
+ */
+
+export type SyncMode = 'pull' | 'push' | 'sync';
+
+type Action =
+  | { type: 'download'; path: string; remote: RemoteItem }
+  | { type: 'mkdirLocal'; path: string; remote: RemoteItem }
+  | { type: 'deleteLocal'; path: string; isFolder: boolean }
+  | { type: 'upload'; path: string; local: LocalItem }
+  | {
+      type: 'uploadContent';
+      path: string;
+      local: LocalItem;
+      remote: RemoteItem;
+    }
+  | { type: 'mkdirRemote'; path: string; local: LocalItem }
+  | { type: 'trashRemote'; path: string; id: string }
+  | { type: 'conflict'; path: string; remote: RemoteItem }
+  | { type: 'adopt'; path: string; local: LocalItem; remote: RemoteItem }
+  | { type: 'forget'; path: string };
+
+// Actions that write to each side, for filtering by mode. Conflicts
+// write to both, so aren't filtered out; push reports them instead.
+const LOCAL_ACTIONS = new Set<Action['type']>([
+  'download',
+  'mkdirLocal',
+  'deleteLocal',
+]);
+const REMOTE_ACTIONS = new Set<Action['type']>([
+  'upload',
+  'uploadContent',
+  'mkdirRemote',
+  'trashRemote',
+]);
+
+// Deletions run children-first, before anything is created
+const DELETIONS = new Set<Action['type']>(['deleteLocal', 'trashRemote']);
+
+// How often the state is saved during a long pass
+const SAVE_INTERVAL_MS = 5000;
+
+const isInside = (path: string, folder: string) =>
+  path.startsWith(`${folder}/`);
+
+const localChanged = (base?: SyncedItem, local?: LocalItem) => {
+  if (!base || !local) return Boolean(base) !== Boolean(local);
+  if (base.isFolder !== local.isFolder) return true;
+  return !local.isFolder && base.sha256 !== local.sha256;
+};
+
+const remoteChanged = (base?: SyncedItem, remote?: RemoteItem) => {
+  if (!base || !remote) return Boolean(base) !== Boolean(remote);
+  return (
+    base.id !== remote.id ||
+    base.isFolder !== remote.isFolder ||
+    base.version !== remote.version
+  );
+};
+
+// Copy the remote item to the local side
+const pullAction = (path: string, remote: RemoteItem): Action =>
+  remote.isFolder
+    ? { type: 'mkdirLocal', path, remote }
+    : { type: 'download', path, remote };
+
+// Copy the local item to the remote side (as a new item)
+const pushAction = (path: string, local: LocalItem): Action =>
+  local.isFolder
+    ? { type: 'mkdirRemote', path, local }
+    : { type: 'upload', path, local };
+
+/**
+ * Decide what to do with a single path.
+ */
+const reconcilePath = (
+  path: string,
+  base: SyncedItem | undefined,
+  local: LocalItem | undefined,
+  remote: RemoteItem | undefined
+): Action[] => {
+  const inLocal = localChanged(base, local);
+  const inRemote = remoteChanged(base, remote);
+
+  if (!inLocal && !inRemote) return [];
+
+  if (inLocal && !inRemote) {
+    if (!local) return [{ type: 'trashRemote', path, id: remote!.id }];
+    if (!remote) return [pushAction(path, local)];
+    if (local.isFolder === remote.isFolder) {
+      return [{ type: 'uploadContent', path, local, remote }];
+    }
+    // Replaced by a folder, or a folder by a file
+    return [
+      { type: 'trashRemote', path, id: remote.id },
+      pushAction(path, local),
+    ];
+  }
+
+  if (!inLocal && inRemote) {
+    if (!remote) {
+      return [{ type: 'deleteLocal', path, isFolder: base!.isFolder }];
+    }
+    if (!local || local.isFolder === remote.isFolder) {
+      return [pullAction(path, remote)];
+    }
+    return [
+      { type: 'deleteLocal', path, isFolder: local.isFolder },
+      pullAction(path, remote),
+    ];
+  }
+
+  // Changed on both sides
+  if (!local && !remote) return [{ type: 'forget', path }];
+  if (!local) return [pullAction(path, remote!)];
+  if (!remote) return [pushAction(path, local)];
+  if (local.isFolder && remote.isFolder) {
+    return [{ type: 'adopt', path, local, remote }];
+  }
+  return [{ type: 'conflict', path, remote }];
+};
+
+/**
+ * Work out every action needed to bring both sides in line.
+ */
+const reconcile = (
+  state: SyncState,
+  local: Map<string, LocalItem>,
+  mode: SyncMode
+) => {
+  const paths = new Set([
+    ...Object.keys(state.synced),
+    ...Object.keys(state.remote),
+    ...local.keys(),
+  ]);
+
+  let actions = [...paths].flatMap((path) =>
+    reconcilePath(path, state.synced[path], local.get(path), state.remote[path])
+  );
+
+  actions = actions.filter(
+    ({ type }) =>
+      !(mode === 'pull' && REMOTE_ACTIONS.has(type)) &&
+      !(mode === 'push' && LOCAL_ACTIONS.has(type))
+  );
+
+  // A folder deleted on one side while something inside it changed on
+  // the other is kept, and recreated on the side that deleted it
+  const keeps = (folder: string, types: Action['type'][]) =>
+    actions.some(
+      (action) => isInside(action.path, folder) && types.includes(action.type)
+    );
+
+  actions = actions.flatMap((action): Action[] => {
+    if (action.type === 'trashRemote' && state.remote[action.path]?.isFolder) {
+      if (keeps(action.path, ['download', 'mkdirLocal', 'conflict'])) {
+        // Recreating it locally is left to a pull or sync
+        const remote = state.remote[action.path];
+        return local.has(action.path) || mode === 'push'
+          ? []
+          : [pullAction(action.path, remote)];
+      }
+    }
+    if (action.type === 'deleteLocal' && action.isFolder) {
+      if (keeps(action.path, ['upload', 'mkdirRemote'])) {
+        const item = local.get(action.path);
+        return item?.isFolder ? [pushAction(action.path, item)] : [];
+      }
+    }
+    return [action];
+  });
+
+  // Trashing a remote folder trashes everything inside it
+  const trashed = actions
+    .filter(({ type }) => type === 'trashRemote')
+    .map(({ path }) => path);
+  actions = actions.filter(
+    (action) =>
+      action.type !== 'trashRemote' ||
+      !trashed.some((folder) => isInside(action.path, folder))
+  );
+
+  const byPath = (a: Action, b: Action) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+
+  return [
+    ...actions
+      .filter(({ type }) => DELETIONS.has(type))
+      .sort(byPath)
+      .reverse(),
+    ...actions.filter(({ type }) => !DELETIONS.has(type)).sort(byPath),
+  ];
+};
+
+/**
+ * First free "name (conflicted copy).ext" next to a local file.
+ */
+const conflictedCopyPath = async (root: string, path: string) => {
+  const extension = extname(path);
+  const stem = path.slice(0, path.length - extension.length);
+
+  for (let attempt = 1; ; attempt++) {
+    const suffix = attempt === 1 ? '' : ` ${attempt}`;
+    const candidate = `${stem} (conflicted copy${suffix})${extension}`;
+
+    try {
+      await access(join(root, candidate));
+    } catch {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Bring the remote tree in the state up to date, from the change feed
+ * when possible and by listing the folder otherwise.
+ */
+export const refreshRemote = async (api: Api, state: SyncState) => {
+  const changes = await fetchChanges(api, state);
+  const remote = changes && applyChanges(state, changes);
+
+  state.remote = remote ?? (await scanRemote(api, state));
+};
+
+/**
+ * Run one sync of a directory against its remote folder, saving the
+ * state as it goes. Failed actions are logged and retried next time.
+ *
+ * Returns the number of actions that failed.
+ */
+export const syncDirectory = async (
+  api: Api,
+  root: string,
+  state: SyncState,
+  mode: SyncMode,
+  log: (message: string) => void = console.log
+) => {
+  await refreshRemote(api, state);
+
+  const localPath = (path: string) => join(root, ...path.split('/'));
+
+  const remoteParentId = (path: string) => {
+    const parentPath = posix.dirname(path);
+    if (parentPath === '.') return state.remoteId;
+
+    const parent = state.remote[parentPath];
+    if (!parent?.isFolder) {
+      throw new Error(`Folder "${parentPath}" is not on the server.`);
+    }
+    return parent.id;
+  };
+
+  // Record an item as in sync on both sides
+  const markSynced = async (
+    path: string,
+    remote: RemoteItem,
+    sha256: string | null
+  ) => {
+    const { mtimeMs } = remote.isFolder
+      ? { mtimeMs: 0 }
+      : await stat(localPath(path));
+
+    state.remote[path] = remote;
+    state.synced[path] = { ...remote, mtimeMs, sha256 };
+  };
+
+  const markUploaded = (path: string, entry: RemoteEntry, local: LocalItem) => {
+    state.ownerId ??= entry.owner_id;
+    state.remote[path] = toRemoteItem(entry);
+    state.synced[path] = {
+      ...toRemoteItem(entry),
+      mtimeMs: local.mtimeMs,
+      sha256: local.sha256,
+    };
+  };
+
+  // Drop a path and everything inside it from one side of the state
+  const forget = (items: Record<string, unknown>, path: string) => {
+    for (const key of Object.keys(items)) {
+      if (key === path || isInside(key, path)) delete items[key];
+    }
+  };
+
+  const run = async (action: Action) => {
+    const { path } = action;
+    const name = posix.basename(path);
+
+    switch (action.type) {
+      case 'download': {
+        log(`download  ${path}`);
+        const sha256 = await api.downloadFile(
+          action.remote.id,
+          localPath(path)
+        );
+        await markSynced(path, action.remote, sha256);
+        return;
+      }
+
+      case 'mkdirLocal':
+        log(`mkdir     ${path}`);
+        await mkdir(localPath(path), { recursive: true });
+        await markSynced(path, action.remote, null);
+        return;
+
+      case 'deleteLocal':
+        log(`delete    ${path}`);
+        // Folders are only removed once empty, so unsynced files survive
+        if (action.isFolder) await rmdir(localPath(path));
+        else await rm(localPath(path), { force: true });
+        forget(state.synced, path);
+        return;
+
+      case 'upload': {
+        log(`upload    ${path}`);
+        const entry = await api.uploadFile(remoteParentId(path), name, {
+          path: localPath(path),
+          size: action.local.size,
+        });
+        markUploaded(path, entry, action.local);
+        return;
+      }
+
+      case 'uploadContent': {
+        log(`update    ${path}`);
+        const entry = await api
+          .uploadContent(action.remote.id, action.remote.version, {
+            path: localPath(path),
+            size: action.local.size,
+          })
+          .catch((error) => {
+            // Edited remotely since the last refresh; the next run
+            // sees both changes and resolves the conflict
+            if (error instanceof ApiError && error.status === 409) {
+              throw new Error('Changed on the server too; sync again.');
+            }
+            throw error;
+          });
+        markUploaded(path, entry, action.local);
+        return;
+      }
+
+      case 'mkdirRemote': {
+        log(`create    ${path}`);
+        const entry = await api.trpc.files.createFolder.mutate({
+          name,
+          parentId: remoteParentId(path),
+        });
+        markUploaded(path, entry, action.local);
+        return;
+      }
+
+      case 'trashRemote':
+        log(`trash     ${path}`);
+        await api.trpc.files.trash.mutate({ id: action.id });
+        forget(state.remote, path);
+        forget(state.synced, path);
+        return;
+
+      case 'conflict': {
+        if (mode === 'push') {
+          throw new Error('Changed on both sides; pull or sync to resolve.');
+        }
+        const copy = await conflictedCopyPath(root, path);
+        log(`conflict  ${path} (local copy kept as ${copy})`);
+        await rename(localPath(path), localPath(copy));
+        delete state.synced[path];
+        await run(pullAction(path, action.remote));
+        return;
+      }
+
+      case 'adopt':
+        await markSynced(path, action.remote, action.local.sha256);
+        return;
+
+      case 'forget':
+        delete state.synced[path];
+        return;
+    }
+  };
+
+  let failed = 0;
+  let lastSave = Date.now();
+
+  // A second pass uploads conflicted copies made by the first
+  for (let pass = 0; pass < 2; pass++) {
+    const local = await scanLocal(root, state.synced);
+    const actions = reconcile(state, local, mode);
+
+    failed = 0;
+    for (const action of actions) {
+      try {
+        await run(action);
+      } catch (error) {
+        failed++;
+        log(`error     ${action.path}: ${(error as Error).message}`);
+      }
+
+      if (Date.now() - lastSave > SAVE_INTERVAL_MS) {
+        await saveState(root, state);
+        lastSave = Date.now();
+      }
+    }
+
+    if (mode !== 'sync' || !actions.some(({ type }) => type === 'conflict')) {
+      break;
+    }
+  }
+
+  await saveState(root, state);
+
+  return failed;
+};
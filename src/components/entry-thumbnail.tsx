@@ -0,0 +1,53 @@
+'use client';
+
+import { Icons } from '@/components/icons';
+import {
+  THUMBNAIL_SIZES,
+  type ThumbnailSize,
+  type ThumbnailUrls,
+} from '@/lib/thumbnails';
+import { cn } from '@/lib/utils';
+import type { EntryIcon } from '@/server/services/thumbnails';
+import { useState } from 'react';
+
+interface EntryThumbnailProps {
+  entry: { name: string; icon: EntryIcon; thumbnails: ThumbnailUrls };
+  size?: ThumbnailSize;
+  className?: string;
+}
+
+/**
+ * Thumbnail of a listed entry, falling back to its MIME icon when it
+ * has none or the image fails to load.
+ */
+export const EntryThumbnail = ({
+  entry,
+  size = 'medium',
+  className,
+}: EntryThumbnailProps) => {
+  const [failed, setFailed] = useState(false);
+
+  if (!entry.thumbnails || failed) {
+    const Icon = Icons[entry.icon];
+    return (
+      <Icon
+        aria-hidden
+        className={cn('text-gray-400 size-full', className)}
+      />
+    );
+  }
+
+  // Already sized by the server, so next/image optimisation isn't needed
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={entry.thumbnails[size]}
+      alt={entry.name}
+      width={THUMBNAIL_SIZES[size]}
+      height={THUMBNAIL_SIZES[size]}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={cn('size-full object-contain', className)}
+    />
+  );
+};
@@ -1,6 +1,24 @@
-import { LucideProps } from 'lucide-react';
+import {
+  File,
+  FileArchive,
+  FileAudio,
+  FileImage,
+  FileText,
+  FileVideo,
+  Folder,
+  LucideProps,
+} from 'lucide-react';
 
 export const Icons = {
+  // Entry icons by MIME category, shown when there's no thumbnail
+  folder: (props: LucideProps) => <Folder {...props} />,
+  image: (props: LucideProps) => <FileImage {...props} />,
+  video: (props: LucideProps) => <FileVideo {...props} />,
+  audio: (props: LucideProps) => <FileAudio {...props} />,
+  document: (props: LucideProps) => <FileText {...props} />,
+  archive: (props: LucideProps) => <FileArchive {...props} />,
+  other: (props: LucideProps) => <File {...props} />,
+
   backgroundPattern: (props: LucideProps) => (
     <svg
       width="768"
@@ -0,0 +1,104 @@
+import { createLocalDatabase, type Database } from '@/db/drivers';
+import { file_system_entries } from '@/db/schema';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import { appRouter } from '@/server/routers';
+import { FOLDER_MIME_TYPE } from '@/server/services/files';
+import { eq } from 'drizzle-orm';
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+
+/**
+ * Batches on PGlite
+ *
+ * The server relies on `db.batch` being one transaction, as it is on
+ * Neon. These run the router in-process against an in-memory PGlite,
+ * whose `batch` comes from `withBatch`, to check that it holds.
+ */
+describe('db.batch on PGlite', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+  let ownerId: string;
+
+  before(async () => {
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    // Creates the user row, as the app does after sign-in
+    await caller.authentication.getDatabaseSyncStatus();
+    ownerId = (await caller.files.createFolder({ name: 'Setup' })).owner_id;
+  });
+
+  // Row for a folder at the root of the owner's drive
+  const folder = (name: string) => ({
+    name,
+    path: `/${name}/`,
+    size_bytes: 0,
+    mime_type: FOLDER_MIME_TYPE,
+    owner_id: ownerId,
+    is_folder: true,
+  });
+
+  const names = async () =>
+    (await caller.files.list({})).items.map(({ name }) => name).sort();
+
+  test('commits every query of a batch', async () => {
+    const [first, second] = await db.batch([
+      db.insert(file_system_entries).values(folder('First')).returning(),
+      db.insert(file_system_entries).values(folder('Second')).returning(),
+    ]);
+
+    assert.equal(first.length, 1);
+    assert.equal(second.length, 1);
+    assert.deepEqual(await names(), ['First', 'Second', 'Setup']);
+  });
+
+  test('rolls back the whole batch when a query fails', async () => {
+    // The second insert breaks the sibling name index
+    await assert.rejects(
+      db.batch([
+        db.insert(file_system_entries).values(folder('Third')),
+        db.insert(file_system_entries).values(folder('setup')),
+      ])
+    );
+
+    assert.deepEqual(await names(), ['First', 'Second', 'Setup']);
+  });
+
+  test('runs later queries of a batch against earlier writes', async () => {
+    const [, found] = await db.batch([
+      db.insert(file_system_entries).values(folder('Fourth')),
+      db
+        .select({ name: file_system_entries.name })
+        .from(file_system_entries)
+        .where(eq(file_system_entries.name, 'Fourth')),
+    ]);
+
+    assert.deepEqual(found, [{ name: 'Fourth' }]);
+  });
+
+  test('replaces an entry in the same batch as the write', async () => {
+    const original = await caller.files.createFolder({ name: 'Reports' });
+    const replacement = await caller.files.createFolder({
+      name: 'Reports',
+      onConflict: 'replace',
+    });
+
+    const trashed = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, original.id),
+    });
+
+    assert.notEqual(replacement.id, original.id);
+    assert.equal(trashed?.is_deleted, true);
+    assert.deepEqual(await names(), [
+      'First',
+      'Fourth',
+      'Reports',
+      'Second',
+      'Setup',
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import * as schema from '@/db/schema';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { neon } from '@neondatabase/serverless';
+import { drizzle as drizzleNeonHttp } from 'drizzle-orm/neon-http';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import {
+  drizzle as drizzlePglite,
+  type PgliteDatabase,
+} from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Pool, type PoolClient } from 'pg';
+
+/**
+ * Database Drivers
+ *
+ * The server is written against the Neon HTTP driver, whose `db.batch`
+ * runs a list of queries as one transaction. The other drivers keep
+ * that contract: `batch` checks out a connection, opens a transaction
+ * on it and runs the queries in order, and an AsyncLocalStorage routes
+ * every query issued meanwhile (they were built against the shared
+ * client) to that connection.
+ */
+
+// Drizzle instance type shared by the tRPC context and Hono routes
+export type Database = NeonHttpDatabase<typeof schema>;
+
+export type DatabaseDriver = 'neon-http' | 'node-postgres' | 'pglite';
+
+// The part of a client that drizzle sends queries through
+type Queryable = { query: (...args: never[]) => unknown };
+
+/**
+ * Wrap `client` so its `query` goes to the connection of the batch in
+ * progress, if any.
+ */
+const routeQueries = <Client extends Queryable>(
+  client: Client,
+  connections: AsyncLocalStorage<Queryable>
+) =>
+  new Proxy(client, {
+    get(target, property) {
+      if (property === 'query') {
+        return (...args: never[]) =>
+          (connections.getStore() ?? target).query(...args);
+      }
+
+      const value = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+/**
+ * Give a drizzle instance the Neon HTTP driver's `batch`, given a way
+ * to run a function inside a transaction.
+ */
+const withBatch = (
+  db: object,
+  inTransaction: <T>(run: () => Promise<T>) => Promise<T>
+) =>
+  Object.assign(db, {
+    batch: (queries: PromiseLike<unknown>[]) =>
+      inTransaction(async () => {
+        const results: unknown[] = [];
+        for (const query of queries) results.push(await query);
+        return results;
+      }),
+  }) as unknown as Database;
+
+/**
+ * Neon's serverless driver over HTTP: one round trip per query (or
+ * batch), no connection to keep.
+ */
+const createNeonHttpDatabase = (url: string): Database =>
+  drizzleNeonHttp({ client: neon(url), schema });
+
+/**
+ * node-postgres pool, for any Postgres server.
+ */
+const createNodePostgresDatabase = (url: string) => {
+  const pool = new Pool({ connectionString: url });
+  const connections = new AsyncLocalStorage<PoolClient>();
+
+  const db = drizzleNodePostgres({
+    client: routeQueries(pool, connections),
+    schema,
+  });
+
+  return withBatch(db, async (run) => {
+    const connection = await pool.connect();
+
+    try {
+      await connection.query('begin');
+      const result = await connections.run(connection, run);
+      await connection.query('commit');
+      return result;
+    } catch (error) {
+      await connection.query('rollback').catch(() => {});
+      throw error;
+    } finally {
+      connection.release();
+    }
+  });
+};
+
+/**
+ * PGlite: Postgres compiled to WebAssembly, running in-process on a
+ * data directory or in memory (`memory://`). Queries from outside a
+ * batch wait for it to finish.
+ */
+const createPgliteDatabase = (dataDir: string) => {
+  // Extensions the migrations create have to be bundled in
+  const client = new PGlite(dataDir, { extensions: { pg_trgm } });
+  const connections = new AsyncLocalStorage<Transaction>();
+
+  const db = drizzlePglite({
+    client: routeQueries(client, connections),
+    schema,
+  });
+
+  return withBatch(db, (run) =>
+    client.transaction((transaction) => connections.run(transaction, run))
+  );
+};
+
+/**
+ * Create a database client for a driver. `url` is a connection string,
+ * or for PGlite a data directory.
+ */
+export const createDatabase = (driver: DatabaseDriver, url: string) => {
+  switch (driver) {
+    case 'neon-http':
+      return createNeonHttpDatabase(url);
+
+    case 'node-postgres':
+      return createNodePostgresDatabase(url);
+
+    case 'pglite':
+      return createPgliteDatabase(url);
+
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}"`);
+  }
+};
+
+/**
+ * Create an embedded database with every migration applied, such as a
+ * throwaway in-memory one for integration tests.
+ */
+export const createLocalDatabase = async (dataDir = 'memory://') => {
+  const db = createPgliteDatabase(dataDir);
+
+  // Still the PGlite instance underneath the shared type
+  await migrate(db as unknown as PgliteDatabase<typeof schema>, {
+    migrationsFolder: 'drizzle',
+  });
+
+  return db;
+};
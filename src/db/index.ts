@@ -1,6 +1,23 @@
-import * as schema from '@/db/schema';
-import { neon } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-http';
+import { createDatabase, type DatabaseDriver } from '@/db/drivers';
 
-const sql = neon(process.env.DATABASE_URL!);
-export const db = drizzle({ client: sql, schema });
+export {
+  createDatabase,
+  createLocalDatabase,
+  type Database,
+  type DatabaseDriver,
+} from '@/db/drivers';
+
+const driver = (process.env.DATABASE_DRIVER ?? 'neon-http') as DatabaseDriver;
+
+/**
+ * Shared database client, created from environment config and reused
+ * across requests.
+ *
+ * - DATABASE_DRIVER: "neon-http" (default), "node-postgres" or "pglite"
+ * - DATABASE_URL: connection string, or for PGlite a data directory
+ *   (in memory if unset)
+ */
+export const db = createDatabase(
+  driver,
+  process.env.DATABASE_URL ?? (driver === 'pglite' ? 'memory://' : '')
+);
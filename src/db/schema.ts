@@ -1,13 +1,137 @@
-import { relations } from 'drizzle-orm';
+import { relations, sql, type SQL } from 'drizzle-orm';
 import {
+  bigint,
+  bigserial,
   boolean,
+  check,
+  customType,
+  doublePrecision,
+  index,
   integer,
+  jsonb,
+  pgEnum,
   pgTable,
   text,
   timestamp,
+  unique,
+  uniqueIndex,
   uuid,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 
+// Postgres full-text search document, only ever read inside SQL
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+});
+
+// Storage quota given to new accounts (15 GiB)
+export const DEFAULT_STORAGE_QUOTA_BYTES = 15 * 1024 * 1024 * 1024;
+
+/**
+ * Users Table
+ *
+ * Mirrors the accounts managed by Clerk so the rest of the schema has
+ * a local row to reference. Rows are created either by the Clerk
+ * webhook or lazily by the /welcome sync check, whichever runs first.
+ */
+export const users = pgTable('users', {
+  // Primary identifier - UUID, independent of the auth provider
+  id: uuid('id').defaultRandom().primaryKey(),
+
+  // Clerk user ID (e.g., "user_2abc...")
+  // Unique so webhook deliveries and the sync check can upsert safely
+  externalId: text('external_id').notNull().unique(),
+
+  // Primary email address as reported by Clerk
+  email: text('email').notNull(),
+
+  // Maximum bytes the user may store, including trash
+  storageQuotaBytes: bigint('storage_quota_bytes', { mode: 'number' })
+    .default(DEFAULT_STORAGE_QUOTA_BYTES)
+    .notNull(),
+
+  // Bytes currently stored, including trash and in-progress uploads
+  // Reserved before bytes are accepted and released on purge/abort
+  storageUsedBytes: bigint('storage_used_bytes', { mode: 'number' })
+    .default(0)
+    .notNull(),
+
+  // Audit trail timestamps
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .defaultNow()
+    .notNull()
+    .$onUpdateFn(() => new Date()),
+});
+
+/**
+ * Thumbnail Statuses
+ *
+ * - pending: not processed yet
+ * - ready: every thumbnail size is stored
+ * - unsupported: no renderer for the content (clients show a MIME icon)
+ * - failed: rendering was attempted and errored (e.g. corrupt file)
+ */
+export const thumbnailStatus = pgEnum('thumbnail_status', [
+  'pending',
+  'ready',
+  'unsupported',
+  'failed',
+]);
+
+export type ThumbnailStatus = (typeof thumbnailStatus.enumValues)[number];
+
+/**
+ * Blobs Table
+ *
+ * Content-addressed file contents. Files and versions with identical
+ * bytes (by SHA-256) share one blob and one stored object; `ref_count`
+ * tracks how many rows point at it, and unreferenced blobs are deleted
+ * from storage by the garbage collector.
+ */
+export const blobs = pgTable(
+  'blobs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // Hex SHA-256 of the content
+    // NULL until the backfill job hashes it, for blobs stored before
+    // hashing and those assembled from resumable uploads
+    sha256: text('sha256').unique(),
+
+    // Byte length of the content
+    size_bytes: bigint('size_bytes', { mode: 'number' }).notNull(),
+
+    // Opaque storage key resolved by the configured storage driver
+    // (see src/server/storage), never sent to clients
+    storage_key: text('storage_key').notNull().unique(),
+
+    // Number of file_system_entries and file_versions rows using the blob
+    ref_count: integer('ref_count').default(0).notNull(),
+
+    // Progress of the thumbnail job; thumbnails are stored under keys
+    // derived from the blob ID (see src/server/services/thumbnails.ts)
+    thumbnail_status: thumbnailStatus('thumbnail_status')
+      .default('pending')
+      .notNull(),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Work queue for the thumbnail job
+    index('blobs_thumbnail_pending_idx')
+      .on(table.id)
+      .where(sql`${table.thumbnail_status} = 'pending'`),
+  ]
+);
+
+export type FileBlob = typeof blobs.$inferSelect;
+
 /**
  * File System Entries Table
  *
@@ -15,62 +139,148 @@ import {
  * Supports soft deletion, starring/favoriting, and maintains
  * complete audit trail with timestamps.
  */
-export const file_system_entries = pgTable('file_system_entries', {
-  // Primary identifier - UUID for distributed systems compatibility
-  id: uuid('id').defaultRandom().primaryKey(),
+export const file_system_entries = pgTable(
+  'file_system_entries',
+  {
+    // Primary identifier - UUID for distributed systems compatibility
+    id: uuid('id').defaultRandom().primaryKey(),
 
-  // Display name of the file/folder (e.g., "My Document.pdf", "Photos")
-  name: text('name').notNull(),
+    // Display name of the file/folder (e.g., "My Document.pdf", "Photos")
+    name: text('name').notNull(),
 
-  // Full path from root (e.g., "/user123/documents/reports/")
-  // Used for quick lookups and breadcrumb navigation
-  path: text('path').notNull(),
+    // Full path from root (e.g., "/user123/documents/reports/")
+    // Used for quick lookups and breadcrumb navigation
+    path: text('path').notNull(),
 
-  // File size in bytes - 0 for folders
-  // Useful for storage quotas and display
-  size_bytes: integer('size_bytes').notNull(),
+    // File size in bytes - 0 for folders
+    // Useful for storage quotas and display
+    // bigint so files of 2 GiB and larger don't overflow
+    size_bytes: bigint('size_bytes', { mode: 'number' }).notNull(),
 
-  // MIME type (e.g., "image/png", "application/pdf", "folder")
-  // Used for file type detection, icons, and processing
-  mime_type: text('mime_type').notNull(),
+    // MIME type (e.g., "image/png", "application/pdf", "folder")
+    // Used for file type detection, icons, and processing
+    mime_type: text('mime_type').notNull(),
 
-  // URL to the actual file storage location
-  // Could be S3 URL, CDN link, or local file path
-  storage_url: text('storage_url').notNull(),
+    // Content of the file - NULL for folders
+    blob_id: uuid('blob_id').references(() => blobs.id),
 
-  // ID of the user who owns this file/folder
-  // Links to your user authentication system
-  owner_id: text('owner_id').notNull(),
+    // ID of the user who owns this file/folder
+    // Links to your user authentication system
+    owner_id: text('owner_id').notNull(),
 
-  // Parent folder ID for hierarchical structure
-  // NULL for root-level items
-  parent_id: uuid('parent_id'),
+    // Parent folder ID for hierarchical structure
+    // NULL for root-level items; cleared if the parent is purged while
+    // this entry sits in the trash on its own
+    parent_id: uuid('parent_id').references(
+      (): AnyPgColumn => file_system_entries.id,
+      { onDelete: 'set null' }
+    ),
 
-  // Boolean flags for file/folder properties
-  // Determines if this entry is a folder (true) or file (false)
-  is_folder: boolean('is_folder').default(false).notNull(),
+    // Version number of the current content - 1 for new files
+    // Older contents are kept in file_versions
+    version: integer('version').default(1).notNull(),
 
-  // User-favorited items for quick access
-  // Enables "starred" or "favorites" functionality
-  is_starred: boolean('is_starred').default(false).notNull(),
+    // User who uploaded the current content - NULL means the owner
+    content_author_id: text('content_author_id'),
 
-  // Soft delete flag - allows recovery of "deleted" items
-  // Items marked as deleted can be restored or permanently purged later
-  is_deleted: boolean('is_deleted').default(false).notNull(),
+    // When the current content was uploaded
+    // Unlike updated_at, not touched by renames, moves or starring
+    content_updated_at: timestamp('content_updated_at', {
+      withTimezone: true,
+    })
+      .defaultNow()
+      .notNull(),
 
-  // Audit trail timestamps
-  // When the file/folder was first created
-  created_at: timestamp('created_at', { withTimezone: true })
-    .defaultNow()
-    .notNull(),
+    // Boolean flags for file/folder properties
+    // Determines if this entry is a folder (true) or file (false)
+    is_folder: boolean('is_folder').default(false).notNull(),
 
-  // When the file/folder was last modified
-  // Automatically updates on any change to the record
-  updated_at: timestamp('updated_at', { withTimezone: true })
-    .defaultNow()
-    .notNull()
-    .$onUpdateFn(() => new Date()),
-});
+    // User-favorited items for quick access
+    // Enables "starred" or "favorites" functionality
+    is_starred: boolean('is_starred').default(false).notNull(),
+
+    // Soft delete flag - allows recovery of "deleted" items
+    // Items marked as deleted can be restored or permanently purged later
+    is_deleted: boolean('is_deleted').default(false).notNull(),
+
+    // When the entry was moved to trash - NULL unless is_deleted
+    // Drives the retention window after which trash is purged
+    deleted_at: timestamp('deleted_at', { withTimezone: true }),
+
+    // The entry the user explicitly trashed that took this one with it
+    // Equal to id for the trashed item itself, shared by its whole subtree
+    // so restoring a folder brings back exactly what was trashed with it
+    trash_root_id: uuid('trash_root_id'),
+
+    // parent_id at the time the entry was trashed
+    // Kept separately so restore still knows it if the parent is purged
+    original_parent_id: uuid('original_parent_id'),
+
+    // Audit trail timestamps
+    // When the file/folder was first created
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+
+    // When the file/folder was last modified
+    // Automatically updates on any change to the record
+    updated_at: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    // One live entry per name (case-insensitively) in each folder
+    // Root-level entries have no parent_id, so coalesce it to compare them
+    uniqueIndex('file_system_entries_sibling_name_unique')
+      .on(
+        table.owner_id,
+        sql`coalesce(${table.parent_id}, '00000000-0000-0000-0000-000000000000')`,
+        sql`lower(${table.name})`
+      )
+      .where(sql`${table.is_deleted} = false`),
+
+    // No entry is its own parent; moves into their own subtree are
+    // turned into a violation of this, so the whole move rolls back
+    check(
+      'file_system_entries_not_own_parent',
+      sql`${table.parent_id} <> ${table.id}`
+    ),
+
+    // Folder listings: children of a folder, folders first, by name
+    index('file_system_entries_listing_idx')
+      .on(table.owner_id, table.parent_id, table.is_folder, table.name)
+      .where(sql`${table.is_deleted} = false`),
+
+    // Trash listing and retention purge
+    index('file_system_entries_trash_idx')
+      .on(table.owner_id, table.deleted_at)
+      .where(sql`${table.is_deleted} = true`),
+
+    // Child lookups from recursive tree walks and the parent_id FK
+    index('file_system_entries_parent_idx').on(table.parent_id),
+
+    // Dedup lookups and merges by content
+    index('file_system_entries_blob_idx').on(table.blob_id),
+
+    // Search: full-text matches on names (A) and paths (C), plus trigram
+    // indexes for fuzzy and substring matches on them (requires pg_trgm)
+    // Names and paths use the 'simple' config so file names aren't stemmed
+    // Extracted text is indexed separately, in entry_texts
+    index('file_system_entries_search_idx').using(
+      'gin',
+      sql`(setweight(to_tsvector('simple', ${table.name}), 'A') || setweight(to_tsvector('simple', ${table.path}), 'C'))`
+    ),
+    index('file_system_entries_name_trgm_idx').using(
+      'gin',
+      table.name.op('gin_trgm_ops')
+    ),
+    index('file_system_entries_path_trgm_idx').using(
+      'gin',
+      table.path.op('gin_trgm_ops')
+    ),
+  ]
+);
 
 /**
  * File System Entries Relations
@@ -124,6 +334,21 @@ export const fileSystemEntriesRelations = relations(
   })
 );
 
+/**
+ * User Type (Select)
+ *
+ * Represents a user row as returned from database queries. This is the
+ * shape exposed as `ctx.user` inside private procedures.
+ */
+export type User = typeof users.$inferSelect;
+
+/**
+ * NewUser Type (Insert)
+ *
+ * Represents the data required to create a user row.
+ */
+export type NewUser = typeof users.$inferInsert;
+
 /**
  * TypeScript Type Definitions for File System Entries
  *
@@ -180,3 +405,612 @@ export type FileSystemEntry = typeof file_system_entries.$inferSelect;
  * ```
  */
 export type NewFileSystemEntry = typeof file_system_entries.$inferInsert;
+
+/**
+ * Upload Part
+ *
+ * One chunk of a resumable upload, as acknowledged by the storage driver.
+ */
+export type UploadPart = {
+  partNumber: number;
+  etag: string;
+  size: number;
+};
+
+/**
+ * Conflict Policies
+ *
+ * What to do when an entry is created, renamed or moved into a folder
+ * that already has a live entry with the same name:
+ * - fail: reject with CONFLICT
+ * - rename: use the first free "name (1).ext"
+ * - replace: trash the existing entry (uploads over a file add a new
+ *   version of it instead)
+ */
+export const conflictPolicy = pgEnum('conflict_policy', [
+  'fail',
+  'rename',
+  'replace',
+]);
+
+export type ConflictPolicy = (typeof conflictPolicy.enumValues)[number];
+
+/**
+ * Upload Sessions Table
+ *
+ * Tracks resumable (chunked) uploads between creation and finalize.
+ * Each accepted chunk becomes a multipart part in storage and advances
+ * `offset`; finalize turns the session into a `file_system_entries` row.
+ * Sessions past `expires_at` are aborted by the cleanup job.
+ */
+export const upload_sessions = pgTable('upload_sessions', {
+  // Primary identifier - also the public upload ID in /api/uploads/:id
+  id: uuid('id').defaultRandom().primaryKey(),
+
+  // ID of the user the finished file will belong to (and whose quota
+  // the upload is reserved against) - the destination folder's owner
+  owner_id: text('owner_id').notNull(),
+
+  // ID of the user who started the upload - the only one who can
+  // send chunks, differs from owner_id when uploading to a shared folder
+  created_by: text('created_by').notNull(),
+
+  // Name, destination folder and MIME type of the file being uploaded
+  name: text('name').notNull(),
+  parent_id: uuid('parent_id'),
+  mime_type: text('mime_type').notNull(),
+
+  // How to handle a same-named entry in the folder at finalize time
+  conflict_policy: conflictPolicy('conflict_policy')
+    .default('replace')
+    .notNull(),
+
+  // Declared total size and bytes received so far
+  size_bytes: bigint('size_bytes', { mode: 'number' }).notNull(),
+  offset: bigint('offset', { mode: 'number' }).default(0).notNull(),
+
+  // Storage key the finished file will live under, and the driver's
+  // multipart upload ID used to attach chunks to it
+  storage_key: text('storage_key').notNull(),
+  storage_upload_id: text('storage_upload_id').notNull(),
+
+  // Parts received so far, in order
+  parts: jsonb('parts').$type<UploadPart[]>().default([]).notNull(),
+
+  // Unfinished sessions are cleaned up after this time
+  // Pushed forward every time a chunk is accepted
+  expires_at: timestamp('expires_at', { withTimezone: true }).notNull(),
+
+  created_at: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+
+  updated_at: timestamp('updated_at', { withTimezone: true })
+    .defaultNow()
+    .notNull()
+    .$onUpdateFn(() => new Date()),
+});
+
+export type UploadSession = typeof upload_sessions.$inferSelect;
+export type NewUploadSession = typeof upload_sessions.$inferInsert;
+
+/**
+ * Share Link Roles
+ *
+ * - view: browse and preview inline, no downloads
+ * - download: browse, preview and download
+ * - upload: upload-only "file request" into a folder, contents hidden
+ */
+export const shareLinkRole = pgEnum('share_link_role', [
+  'view',
+  'download',
+  'upload',
+]);
+
+/**
+ * Share Links Table
+ *
+ * Public links that give anyone holding the token access to a file or
+ * folder without signing in. Folder links cover the whole subtree.
+ */
+export const share_links = pgTable('share_links', {
+  id: uuid('id').defaultRandom().primaryKey(),
+
+  // Random URL-safe token - the only credential in the public URL
+  token: text('token').notNull().unique(),
+
+  // Shared file or folder, and the user who created the link
+  entry_id: uuid('entry_id')
+    .notNull()
+    .references(() => file_system_entries.id, { onDelete: 'cascade' }),
+  owner_id: text('owner_id').notNull(),
+
+  role: shareLinkRole('role').notNull(),
+
+  // Optional scrypt hash ("salt:hash") - NULL for links without a password
+  password_hash: text('password_hash'),
+
+  // Optional expiry - NULL for links that never expire
+  expires_at: timestamp('expires_at', { withTimezone: true }),
+
+  // Optional cap on downloads - NULL for unlimited
+  max_downloads: integer('max_downloads'),
+  download_count: integer('download_count').default(0).notNull(),
+
+  // Set when the owner revokes the link; revoked links never resolve again
+  revoked_at: timestamp('revoked_at', { withTimezone: true }),
+
+  created_at: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+export const shareLinksRelations = relations(share_links, ({ one }) => ({
+  entry: one(file_system_entries, {
+    fields: [share_links.entry_id],
+    references: [file_system_entries.id],
+  }),
+}));
+
+export type ShareLink = typeof share_links.$inferSelect;
+export type NewShareLink = typeof share_links.$inferInsert;
+export type ShareLinkRole = (typeof shareLinkRole.enumValues)[number];
+
+/**
+ * Collaborator Roles
+ *
+ * - viewer: browse, preview and download
+ * - commenter: everything a viewer can, plus comment
+ * - editor: everything a commenter can, plus add, rename and move items
+ *
+ * Owners can always do everything, including trashing and sharing.
+ */
+export const collaboratorRole = pgEnum('collaborator_role', [
+  'viewer',
+  'commenter',
+  'editor',
+]);
+
+/**
+ * Entry Permissions Table
+ *
+ * Grants another user a role on a file or folder. Grants on a folder
+ * are inherited by everything beneath it; the highest role along the
+ * path wins.
+ */
+export const entry_permissions = pgTable(
+  'entry_permissions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // Shared file or folder - grants go away with the entry
+    entry_id: uuid('entry_id')
+      .notNull()
+      .references(() => file_system_entries.id, { onDelete: 'cascade' }),
+
+    // Collaborator the entry is shared with
+    user_id: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    role: collaboratorRole('role').notNull(),
+
+    // User who granted access (the owner)
+    granted_by: uuid('granted_by').notNull(),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+
+    updated_at: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    // One grant per user per entry; changing a role updates it in place
+    unique('entry_permissions_entry_user_unique').on(
+      table.entry_id,
+      table.user_id
+    ),
+  ]
+);
+
+export const entryPermissionsRelations = relations(
+  entry_permissions,
+  ({ one }) => ({
+    entry: one(file_system_entries, {
+      fields: [entry_permissions.entry_id],
+      references: [file_system_entries.id],
+    }),
+    user: one(users, {
+      fields: [entry_permissions.user_id],
+      references: [users.id],
+    }),
+  })
+);
+
+export type EntryPermission = typeof entry_permissions.$inferSelect;
+export type NewEntryPermission = typeof entry_permissions.$inferInsert;
+export type CollaboratorRole = (typeof collaboratorRole.enumValues)[number];
+
+/**
+ * File Versions Table
+ *
+ * Previous contents of a file. When a file is overwritten, its current
+ * content (as stored on the file_system_entries row) is archived here
+ * and the row is pointed at the new bytes. Pruned according to the
+ * version retention settings.
+ */
+export const file_versions = pgTable(
+  'file_versions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // File this is a version of - history goes away with the file
+    entry_id: uuid('entry_id')
+      .notNull()
+      .references(() => file_system_entries.id, { onDelete: 'cascade' }),
+
+    // file_system_entries.version this content had while it was current
+    version_number: integer('version_number').notNull(),
+
+    // Snapshot of the content's properties
+    size_bytes: bigint('size_bytes', { mode: 'number' }).notNull(),
+    mime_type: text('mime_type').notNull(),
+    blob_id: uuid('blob_id')
+      .notNull()
+      .references(() => blobs.id),
+
+    // User who uploaded this content
+    author_id: text('author_id').notNull(),
+
+    // When this content was uploaded (not when it was archived)
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index('file_versions_blob_idx').on(table.blob_id),
+    // One archive per version, so concurrent saves of the same version
+    // can't both archive it; the later one fails and rolls back
+    uniqueIndex('file_versions_entry_version_unique').on(
+      table.entry_id,
+      table.version_number
+    ),
+  ]
+);
+
+export const fileVersionsRelations = relations(file_versions, ({ one }) => ({
+  entry: one(file_system_entries, {
+    fields: [file_versions.entry_id],
+    references: [file_system_entries.id],
+  }),
+}));
+
+export type FileVersion = typeof file_versions.$inferSelect;
+export type NewFileVersion = typeof file_versions.$inferInsert;
+
+/**
+ * Entry Texts Table
+ *
+ * Plain text extracted from text, Markdown and PDF files for search.
+ * Kept apart from file_system_entries, which is read everywhere, as
+ * the text and its search document can be large. A row is written
+ * once an entry's current content has been processed, and deleted when
+ * the content changes.
+ */
+export const entry_texts = pgTable(
+  'entry_texts',
+  {
+    entry_id: uuid('entry_id')
+      .primaryKey()
+      .references(() => file_system_entries.id, { onDelete: 'cascade' }),
+
+    // file_system_entries.version the text was extracted from
+    version: integer('version').notNull(),
+
+    // NULL when the type isn't extractable or the content unreadable
+    text: text('text'),
+
+    // Full-text document, weighted below names (A) and above paths (C)
+    search_vector: tsvector('search_vector').generatedAlwaysAs(
+      (): SQL =>
+        sql`setweight(to_tsvector('english', coalesce(${entry_texts.text}, '')), 'B')`
+    ),
+  },
+  (table) => [index('entry_texts_search_idx').using('gin', table.search_vector)]
+);
+
+export type EntryText = typeof entry_texts.$inferSelect;
+
+/**
+ * Change Kinds
+ *
+ * - create: new file or folder
+ * - update: new content, restored version or starred/unstarred
+ * - move: renamed and/or moved (paths beneath a folder change with it)
+ * - delete: trashed, along with everything beneath it
+ * - restore: restored from the trash, along with its contents
+ * - permission: shared with or unshared from a user
+ */
+export const changeKind = pgEnum('change_kind', [
+  'create',
+  'update',
+  'move',
+  'delete',
+  'restore',
+  'permission',
+]);
+
+export type ChangeKind = (typeof changeKind.enumValues)[number];
+
+/**
+ * Entry Changes Table
+ *
+ * Append-only journal sync clients read to catch up on what changed
+ * since their cursor. One row is written per user who can see the
+ * change (the owner and collaborators with access), so reading a
+ * user's feed is a simple range scan. Rows older than the retention
+ * window are pruned by the cron route.
+ */
+export const entry_changes = pgTable(
+  'entry_changes',
+  {
+    // Order of insertion, among rows of the same transaction
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+
+    // Transaction that wrote the row. Feeds are read in this order,
+    // since IDs are taken before commit and can land out of order
+    transaction_id: bigint('transaction_id', { mode: 'number' })
+      .default(sql`pg_current_xact_id()::text::bigint`)
+      .notNull(),
+
+    // User whose feed this belongs to
+    user_id: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // Changed entry - not a foreign key, the journal outlives entries
+    entry_id: uuid('entry_id').notNull(),
+
+    kind: changeKind('kind').notNull(),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // A user's feed, read in cursor order
+    index('entry_changes_user_idx').on(
+      table.user_id,
+      table.transaction_id,
+      table.id
+    ),
+
+    // Pruning by age
+    index('entry_changes_created_idx').on(table.created_at),
+  ]
+);
+
+export type EntryChange = typeof entry_changes.$inferSelect;
+
+/**
+ * Access Token Scopes
+ *
+ * - read: list, search, download and follow changes
+ * - write: create, upload, rename, move, trash and restore
+ * - share: manage share links and collaborators
+ * - admin: everything, including managing access tokens
+ */
+export const accessTokenScope = pgEnum('access_token_scope', [
+  'read',
+  'write',
+  'share',
+  'admin',
+]);
+
+export type AccessTokenScope = (typeof accessTokenScope.enumValues)[number];
+
+/**
+ * Access Tokens Table
+ *
+ * Personal access tokens for scripts, CI jobs and sync clients, sent
+ * as `Authorization: Bearer` instead of a Clerk session. Only a hash of
+ * each token is stored; the token itself is shown once, on creation.
+ */
+export const access_tokens = pgTable(
+  'access_tokens',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    user_id: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // Label chosen by the user (e.g., "CI deploys")
+    name: text('name').notNull(),
+
+    // SHA-256 of the token, hex - tokens are random, so no salt is needed
+    token_hash: text('token_hash').notNull().unique(),
+
+    // Start of the token, so users can tell their tokens apart
+    token_prefix: text('token_prefix').notNull(),
+
+    scopes: accessTokenScope('scopes').array().notNull(),
+
+    // Optional expiry - NULL for tokens that never expire
+    expires_at: timestamp('expires_at', { withTimezone: true }),
+
+    // Updated at most once a minute while the token is in use
+    last_used_at: timestamp('last_used_at', { withTimezone: true }),
+
+    // Set when the user revokes the token; revoked tokens never resolve again
+    revoked_at: timestamp('revoked_at', { withTimezone: true }),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('access_tokens_user_idx').on(table.user_id)]
+);
+
+export type AccessToken = typeof access_tokens.$inferSelect;
+
+/**
+ * Rate Limit Buckets Table
+ *
+ * Token buckets for the Postgres rate-limit store, shared by every
+ * server instance (see src/server/rate-limit/postgres.ts). Each key is
+ * a rule and who it applies to, e.g. "search:user:<id>".
+ */
+export const rate_limit_buckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: text('key').primaryKey(),
+
+    // Tokens left as of `updated_at`; refilled lazily when next taken
+    tokens: doublePrecision('tokens').notNull(),
+
+    // Last time a request was let through
+    updated_at: timestamp('updated_at', { withTimezone: true }).notNull(),
+  },
+  (table) => [index('rate_limit_buckets_updated_idx').on(table.updated_at)]
+);
+
+/**
+ * Webhook Events
+ *
+ * What outbound webhooks can subscribe to, one per change kind except
+ * restores, which are delivered as `created`:
+ *
+ * - created: new file or folder, or one restored from the trash
+ * - updated: new content, restored version or starred/unstarred
+ * - moved: renamed and/or moved
+ * - deleted: trashed, along with everything beneath it
+ * - shared: shared with or unshared from a user
+ */
+export const webhookEvent = pgEnum('webhook_event', [
+  'created',
+  'updated',
+  'moved',
+  'deleted',
+  'shared',
+]);
+
+export type WebhookEvent = (typeof webhookEvent.enumValues)[number];
+
+/**
+ * Webhooks Table
+ *
+ * Endpoints users register to hear about changes to files they can
+ * see, optionally only those within one folder's subtree. Deliveries
+ * are signed with the webhook's secret.
+ */
+export const webhooks = pgTable(
+  'webhooks',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    user_id: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // HTTPS endpoint deliveries are POSTed to
+    url: text('url').notNull(),
+
+    // Signing key (`whsec_` + base64) - kept in the clear to sign with
+    secret: text('secret').notNull(),
+
+    events: webhookEvent('events').array().notNull(),
+
+    // Folder whose subtree is watched - NULL for everything the user
+    // can see. Deleted along with the folder.
+    folder_id: uuid('folder_id').references(() => file_system_entries.id, {
+      onDelete: 'cascade',
+    }),
+
+    // Paused webhooks queue nothing
+    active: boolean('active').default(true).notNull(),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+
+    updated_at: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('webhooks_user_idx').on(table.user_id)]
+);
+
+export type Webhook = typeof webhooks.$inferSelect;
+
+/**
+ * Webhook Delivery Statuses
+ *
+ * - pending: queued, or waiting to be retried
+ * - succeeded: the endpoint answered with a 2xx status
+ * - failed: every attempt failed
+ */
+export const webhookDeliveryStatus = pgEnum('webhook_delivery_status', [
+  'pending',
+  'succeeded',
+  'failed',
+]);
+
+/**
+ * Webhook Deliveries Table
+ *
+ * The delivery queue and log in one: a row is queued in the same batch
+ * as the change it reports, attempted until it succeeds or runs out of
+ * retries, and kept afterwards so users can inspect and redeliver it.
+ */
+export const webhook_deliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    webhook_id: uuid('webhook_id')
+      .notNull()
+      .references(() => webhooks.id, { onDelete: 'cascade' }),
+
+    event: webhookEvent('event').notNull(),
+
+    // Request body, fixed when the delivery is queued
+    payload: jsonb('payload').notNull(),
+
+    status: webhookDeliveryStatus('status').default('pending').notNull(),
+
+    attempts: integer('attempts').default(0).notNull(),
+
+    // When a pending delivery is next due
+    next_attempt_at: timestamp('next_attempt_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+
+    last_attempt_at: timestamp('last_attempt_at', { withTimezone: true }),
+
+    // Outcome of the last attempt: the endpoint's response, or why
+    // there was none
+    response_status: integer('response_status'),
+    response_body: text('response_body'),
+    error: text('error'),
+
+    created_at: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // The queue, in due order
+    index('webhook_deliveries_due_idx').on(table.status, table.next_attempt_at),
+
+    // A webhook's delivery log, newest first
+    index('webhook_deliveries_webhook_idx').on(
+      table.webhook_id,
+      table.created_at
+    ),
+  ]
+);
+
+export type WebhookDelivery = typeof webhook_deliveries.$inferSelect;
@@ -0,0 +1,52 @@
+'use client';
+
+import type { AppRouter } from '@/server';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useEffect, useRef } from 'react';
+
+// Same shape as a change from `changes.list`
+export type ChangeEvent =
+  inferRouterOutputs<AppRouter>['changes']['list']['changes'][number];
+
+export type ServerEventHandlers = {
+  onAccount?: (account: { isSynced: boolean }) => void;
+  onChange?: (change: ChangeEvent) => void;
+  // Changes were missed; reload whatever is on screen
+  onReset?: () => void;
+};
+
+/**
+ * Subscribe to the signed-in user's event stream (`/api/events`).
+ *
+ * `folders` limits changes to the folders on screen (IDs, or `root`).
+ * The browser reconnects on its own and resumes where it left off;
+ * changing `folders` starts a new stream.
+ */
+export const useServerEvents = (
+  handlers: ServerEventHandlers,
+  folders: string[] = []
+) => {
+  // Latest handlers, so new callbacks don't reopen the stream
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const query = folders.length > 0 ? `?folders=${folders.join(',')}` : '';
+
+  useEffect(() => {
+    const source = new EventSource(`/api/events${query}`);
+
+    source.addEventListener('account', (event) => {
+      handlersRef.current.onAccount?.(JSON.parse(event.data));
+    });
+    source.addEventListener('change', (event) => {
+      handlersRef.current.onChange?.(JSON.parse(event.data));
+    });
+    source.addEventListener('reset', () => {
+      handlersRef.current.onReset?.();
+    });
+
+    return () => source.close();
+  }, [query]);
+};
@@ -0,0 +1,20 @@
+/**
+ * Thumbnail Sizes
+ *
+ * Longest edge in pixels of each thumbnail rendered for a file. Shared
+ * by the thumbnail job and the components that display them.
+ */
+export const THUMBNAIL_SIZES = {
+  small: 64,
+  medium: 256,
+  large: 1024,
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+export const thumbnailSizeNames = Object.keys(
+  THUMBNAIL_SIZES
+) as ThumbnailSize[];
+
+// URL of each size, or null when clients should show a MIME icon
+export type ThumbnailUrls = Record<ThumbnailSize, string> | null;
@@ -2,6 +2,23 @@
 import type { AppRouter } from '@/server';
 import { createTRPCClient, httpBatchLink } from '@trpc/client';
 
+/**
+ * Create a tRPC client for a given endpoint.
+ *
+ * Used directly by clients outside the browser (e.g. the `frisync`
+ * CLI), which need an absolute URL and send their own credentials.
+ */
+export const createApiClient = ({
+  url,
+  headers,
+}: {
+  url: string;
+  headers?: Record<string, string>;
+}) =>
+  createTRPCClient<AppRouter>({
+    links: [httpBatchLink({ url, headers })],
+  });
+
 /**
  * tRPC Client
  *
@@ -14,10 +31,6 @@ import { createTRPCClient, httpBatchLink } from '@trpc/client';
  * Usage example:
  * const result = await client.test.query();
  */
-export const client = createTRPCClient<AppRouter>({
-  links: [
-    httpBatchLink({
-      url: '/api/trpc', // Points to our tRPC server endpoint
-    }),
-  ],
+export const client = createApiClient({
+  url: '/api/trpc', // Points to our tRPC server endpoint
 });
@@ -7,14 +7,35 @@ import { NextResponse } from 'next/server';
  * - "/sign-in(.*)" : Sign-in page and any sub-routes
  * - "/sign-up(.*)" : Sign-up page and any sub-routes
  * - "/api/webhooks(.*)" : Webhook endpoints (if you have any)
+ * - "/api/cron(.*)" : Scheduled jobs (authenticated with CRON_SECRET)
+ * - "/api/download(.*)" : Signed, expiring download links
+ * - "/api/share(.*)" : Public share links (token-authenticated)
  */
 const isPublicRoute = createRouteMatcher([
   '/',
   '/sign-in(.*)',
   '/sign-up(.*)',
   '/api/webhooks(.*)', // Add this if you have webhook endpoints
+  '/api/cron(.*)',
+  '/api/download(.*)',
+  '/api/share(.*)',
 ]);
 
+/**
+ * Public API routes
+ * Signed-in users must reach these as-is (e.g. a download link in an
+ * <img> tag), so they're excluded from the auth-page redirect below.
+ */
+const isPublicApiRoute = createRouteMatcher(['/api(.*)']);
+
+/**
+ * Personal access tokens
+ * Clerk doesn't know them, so API requests carrying one are left for
+ * the API to authenticate (see src/server/services/access-tokens.ts).
+ */
+const hasAccessToken = (request: Request) =>
+  /^Bearer\s+frs_/i.test(request.headers.get('Authorization') ?? '');
+
 /**
  * Clerk Middleware - Handles authentication and routing logic
  *
@@ -31,7 +52,7 @@ const isPublicRoute = createRouteMatcher([
  * - Protects private routes by requiring authentication
  * - Allows unauthenticated access to public routes
  */
-export default clerkMiddleware(async (auth, request) => {
+const clerk = clerkMiddleware(async (auth, request) => {
   // STEP 1: Get user authentication status
   // IMPORTANT: Must await auth() call as it's asynchronous
   // This returns an object with userId (null if not authenticated)
@@ -55,6 +76,7 @@ export default clerkMiddleware(async (auth, request) => {
    * - IF user is logged in (userId exists)
    * - AND they're trying to access a public route (sign-in, sign-up, etc.)
    * - AND it's not the home page (pathname !== "/")
+   * - AND it's not an API route (webhooks, downloads, share links)
    * - THEN redirect them to dashboard
    *
    * Purpose: Prevent logged-in users from accessing authentication pages
@@ -64,7 +86,12 @@ export default clerkMiddleware(async (auth, request) => {
    * ❌ Logged-in user visits "/sign-in" → Redirect to "/dashboard"
    * ❌ Logged-in user visits "/sign-up" → Redirect to "/dashboard"
    */
-  if (userId && isPublicRoute(request) && pathname !== '/') {
+  if (
+    userId &&
+    isPublicRoute(request) &&
+    !isPublicApiRoute(request) &&
+    pathname !== '/'
+  ) {
     // Create redirect URL using origin to ensure correct domain
     // new URL("/dashboard", origin) creates: "https://yourdomain.com/dashboard"
     return NextResponse.redirect(new URL('/dashboard', origin));
@@ -88,7 +115,10 @@ export default clerkMiddleware(async (auth, request) => {
    * ❌ User visits "/dashboard" without session → Redirected to sign-in
    * ✅ User visits "/sign-in" → No protection needed (public route)
    */
-  if (!isPublicRoute(request)) {
+  if (
+    !isPublicRoute(request) &&
+    !(isPublicApiRoute(request) && hasAccessToken(request))
+  ) {
     await auth.protect();
   }
 
@@ -100,6 +130,20 @@ export default clerkMiddleware(async (auth, request) => {
   return NextResponse.next();
 });
 
+/**
+ * With AUTH_PROVIDER=local there's no Clerk to ask: the API identifies
+ * users itself (see src/server/auth/local.ts) and pages aren't guarded.
+ * Refused in production, as getAuth does, rather than leaving every
+ * page open.
+ */
+const isLocalAuth = process.env.AUTH_PROVIDER === 'local';
+
+if (isLocalAuth && process.env.NODE_ENV === 'production') {
+  throw new Error('AUTH_PROVIDER "local" is not allowed in production');
+}
+
+export default isLocalAuth ? () => NextResponse.next() : clerk;
+
 /**
  * Middleware Configuration - Controls when this middleware runs
  *
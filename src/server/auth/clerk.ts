@@ -0,0 +1,21 @@
+import type { AuthProvider } from '@/server/auth';
+import { currentUser } from '@clerk/nextjs/server';
+
+/**
+ * Clerk Provider
+ *
+ * Reads the Clerk session (cookie or session token) of the request
+ * Next.js is handling, so the headers passed in aren't needed.
+ */
+export const createClerkAuthProvider = (): AuthProvider => ({
+  async getIdentity() {
+    const user = await currentUser();
+
+    if (!user) return null;
+
+    return {
+      externalId: user.id,
+      email: user.emailAddresses[0].emailAddress,
+    };
+  },
+});
@@ -0,0 +1,60 @@
+import { createClerkAuthProvider } from '@/server/auth/clerk';
+import { createLocalAuthProvider } from '@/server/auth/local';
+
+// Who a request is signed in as, according to the auth provider
+export type Identity = {
+  // Stored as `users.externalId`
+  externalId: string;
+  email: string;
+};
+
+/**
+ * Auth Provider Interface
+ *
+ * Identifies the signed-in user of a request. The rest of the server
+ * only sees the provider's user ID, so accounts behave the same
+ * whichever provider issued them. Personal access tokens are checked
+ * before the provider (see src/server/services/access-tokens.ts).
+ */
+export interface AuthProvider {
+  // The signed-in user, or `null` for anonymous requests
+  getIdentity(headers: Headers): Promise<Identity | null>;
+}
+
+let provider: AuthProvider | undefined;
+
+/**
+ * Resolve the auth provider from environment config.
+ *
+ * - AUTH_PROVIDER: "clerk" (default) or "local"
+ * - local: LOCAL_AUTH_USER, the user of requests that don't name one
+ *   (development and tests only)
+ *
+ * The provider is created once and reused across requests.
+ */
+export const getAuth = (): AuthProvider => {
+  if (provider) return provider;
+
+  const kind = process.env.AUTH_PROVIDER ?? 'clerk';
+
+  switch (kind) {
+    case 'clerk':
+      provider = createClerkAuthProvider();
+      break;
+
+    case 'local':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_PROVIDER "local" is not allowed in production');
+      }
+
+      provider = createLocalAuthProvider({
+        defaultUser: process.env.LOCAL_AUTH_USER,
+      });
+      break;
+
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${kind}"`);
+  }
+
+  return provider;
+};
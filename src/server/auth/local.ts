@@ -0,0 +1,26 @@
+import type { AuthProvider } from '@/server/auth';
+
+// Header naming the user a request acts as
+export const LOCAL_USER_HEADER = 'X-Local-User';
+
+/**
+ * Local Provider
+ *
+ * Trusts the `X-Local-User` header, or else `defaultUser`, as the
+ * signed-in user's ID, with a made-up email address. Lets the API run
+ * offline and tests act as several users. Anyone can claim to be
+ * anyone, so it's for development and tests only.
+ */
+export const createLocalAuthProvider = ({
+  defaultUser,
+}: {
+  defaultUser?: string;
+} = {}): AuthProvider => ({
+  async getIdentity(headers) {
+    const externalId = headers.get(LOCAL_USER_HEADER) ?? defaultUser;
+
+    if (!externalId) return null;
+
+    return { externalId, email: `${externalId}@localhost` };
+  },
+});
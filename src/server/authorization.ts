@@ -0,0 +1,278 @@
+import type { Database } from '@/db';
+import {
+  file_system_entries,
+  type CollaboratorRole,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+/**
+ * Authorization Layer
+ *
+ * The single place that answers "can this user do X on entry Y".
+ * Procedures and Hono routes call `authorizeEntry` / `authorizeFolder`
+ * instead of comparing `owner_id` themselves, so ownership and
+ * collaborator grants (inherited down the folder tree) are checked the
+ * same way everywhere.
+ */
+
+export type EntryRole = 'owner' | CollaboratorRole;
+
+/**
+ * Actions that can be performed on an entry.
+ *
+ * - view: list, open, download
+ * - comment: comment on files
+ * - edit: add items to a folder, rename, move within the tree, save new
+ *   file content and restore versions
+ * - manage: trash, star, share, change collaborators and delete
+ *   versions (owner only)
+ */
+export type EntryAction = 'view' | 'comment' | 'edit' | 'manage';
+
+const ROLE_ACTIONS: Record<EntryRole, readonly EntryAction[]> = {
+  viewer: ['view'],
+  commenter: ['view', 'comment'],
+  editor: ['view', 'comment', 'edit'],
+  owner: ['view', 'comment', 'edit', 'manage'],
+};
+
+// Higher wins when grants on several ancestors apply
+const ROLE_RANK: Record<CollaboratorRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+};
+
+// Guards the upward walk against corrupted (cyclic) trees
+const MAX_DEPTH = 1000;
+
+export const roleAllows = (role: EntryRole, action: EntryAction) =>
+  ROLE_ACTIONS[role].includes(action);
+
+export type EntryAccess = {
+  role: EntryRole;
+  // Topmost entry the user can see - the owner's root (null) for owners,
+  // otherwise the highest ancestor shared with them
+  visibleRootId: string | null;
+};
+
+// A grant found on an entry or one of its ancestors, `depth` levels up
+type AncestorGrant = {
+  id: string;
+  depth: number;
+  role: CollaboratorRole | null;
+};
+
+/**
+ * Combine the grants on an entry's ancestors: the highest role wins,
+ * and the highest shared ancestor is what the user sees as its root.
+ */
+const accessFromGrants = (grants: AncestorGrant[]): EntryAccess | null => {
+  if (grants.length === 0) return null;
+
+  let role: CollaboratorRole = grants[0].role!;
+  let visibleRoot = grants[0];
+
+  for (const grant of grants) {
+    if (ROLE_RANK[grant.role!] > ROLE_RANK[role]) role = grant.role!;
+    if (grant.depth > visibleRoot.depth) visibleRoot = grant;
+  }
+
+  return { role, visibleRootId: visibleRoot.id };
+};
+
+/**
+ * Work out a user's role on an entry.
+ *
+ * Owners get 'owner'. Anyone else gets the highest role granted on the
+ * entry or any of its ancestors, or `null` if nothing is shared with them.
+ */
+export const getEntryAccess = async (
+  db: Database,
+  userId: string,
+  entry: FileSystemEntry
+): Promise<EntryAccess | null> => {
+  if (entry.owner_id === userId) return { role: 'owner', visibleRootId: null };
+
+  const result = await db.execute<AncestorGrant>(sql`
+    with recursive ancestors as (
+      select id, parent_id, 0 as depth from file_system_entries
+      where id = ${entry.id}
+      union all
+      select parent.id, parent.parent_id, ancestors.depth + 1
+      from file_system_entries parent
+      join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_DEPTH}
+    )
+    select ancestors.id, ancestors.depth, entry_permissions.role
+    from ancestors
+    join entry_permissions
+      on entry_permissions.entry_id = ancestors.id
+      and entry_permissions.user_id = ${userId}
+  `);
+
+  return accessFromGrants(result.rows);
+};
+
+/**
+ * Load a non-deleted entry and check the user may perform `action` on it.
+ *
+ * Throws NOT_FOUND when the user can't even view the entry (so IDs
+ * don't leak) and FORBIDDEN when they can view it but not do `action`.
+ */
+export const authorizeEntry = async (
+  db: Database,
+  userId: string,
+  id: string,
+  action: EntryAction
+) => {
+  const entry = await db.query.file_system_entries.findFirst({
+    where: and(
+      eq(file_system_entries.id, id),
+      eq(file_system_entries.is_deleted, false)
+    ),
+  });
+
+  const access = entry ? await getEntryAccess(db, userId, entry) : null;
+
+  if (!entry || !access) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Entry not found.' });
+  }
+
+  if (!roleAllows(access.role, action)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `You don't have permission to ${action} this entry.`,
+    });
+  }
+
+  return { entry, access };
+};
+
+/**
+ * Batch form of `authorizeEntry` for operations on many entries: one
+ * query loads the entries and one finds grants on their ancestors,
+ * however many there are.
+ *
+ * Maps each ID to its entry and access, or to the error
+ * `authorizeEntry` would have thrown for it.
+ */
+export const authorizeEntries = async (
+  db: Database,
+  userId: string,
+  ids: string[],
+  action: EntryAction
+) => {
+  const entries =
+    ids.length === 0
+      ? []
+      : await db
+          .select()
+          .from(file_system_entries)
+          .where(
+            and(
+              inArray(file_system_entries.id, ids),
+              eq(file_system_entries.is_deleted, false)
+            )
+          );
+
+  const sharedIds = entries
+    .filter((entry) => entry.owner_id !== userId)
+    .map(({ id }) => id);
+
+  const grants =
+    sharedIds.length === 0
+      ? []
+      : (
+          await db.execute<AncestorGrant & { entry_id: string }>(sql`
+            with recursive ancestors as (
+              select id as entry_id, id, parent_id, 0 as depth
+              from file_system_entries
+              where id in (${sql.join(
+                sharedIds.map((id) => sql`${id}::uuid`),
+                sql`, `
+              )})
+              union all
+              select ancestors.entry_id, parent.id, parent.parent_id,
+                ancestors.depth + 1
+              from file_system_entries parent
+              join ancestors on parent.id = ancestors.parent_id
+              where ancestors.depth < ${MAX_DEPTH}
+            )
+            select ancestors.entry_id, ancestors.id, ancestors.depth,
+              entry_permissions.role
+            from ancestors
+            join entry_permissions
+              on entry_permissions.entry_id = ancestors.id
+              and entry_permissions.user_id = ${userId}
+          `)
+        ).rows;
+
+  const grantsOf = new Map<string, AncestorGrant[]>();
+  for (const grant of grants) {
+    grantsOf.set(grant.entry_id, [
+      ...(grantsOf.get(grant.entry_id) ?? []),
+      grant,
+    ]);
+  }
+
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const results = new Map<
+    string,
+    { entry: FileSystemEntry; access: EntryAccess } | TRPCError
+  >();
+
+  for (const id of ids) {
+    const entry = byId.get(id);
+    const access = !entry
+      ? null
+      : entry.owner_id === userId
+        ? ({ role: 'owner', visibleRootId: null } as const)
+        : accessFromGrants(grantsOf.get(id) ?? []);
+
+    if (!entry || !access) {
+      results.set(
+        id,
+        new TRPCError({ code: 'NOT_FOUND', message: 'Entry not found.' })
+      );
+    } else if (!roleAllows(access.role, action)) {
+      results.set(
+        id,
+        new TRPCError({
+          code: 'FORBIDDEN',
+          message: `You don't have permission to ${action} this entry.`,
+        })
+      );
+    } else {
+      results.set(id, { entry, access });
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Authorize an action on a folder, or on the user's own root when
+ * `id` is null (always allowed). Returns `null` for the root.
+ */
+export const authorizeFolder = async (
+  db: Database,
+  userId: string,
+  id: string | null,
+  action: EntryAction
+) => {
+  if (!id) return null;
+
+  const { entry } = await authorizeEntry(db, userId, id, action);
+
+  if (!entry.is_folder) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Target is not a folder.',
+    });
+  }
+
+  return entry;
+};
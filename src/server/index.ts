@@ -1,26 +1,33 @@
-// Import our tRPC setup and procedures
-import { publicProcedure, t } from '@/server/trpc';
+// tRPC router and context
+import { appRouter } from '@/server/routers';
+import type { TRPCContext } from '@/server/trpc';
+// Providers the request context is built from
+import { db } from '@/db';
+import { getAuth } from '@/server/auth';
 // Hono web framework for handling HTTP requests
 import { Hono } from 'hono';
 // tRPC server adapter for Hono
 import { trpcServer } from '@hono/trpc-server';
 // CORS middleware for cross-origin requests
 import { cors } from 'hono/cors';
-import { authenticationRouter } from '@/server/routers/authentication-router';
+// tRPC errors thrown by shared services are mapped to HTTP statuses
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { HTTPException } from 'hono/http-exception';
+import { cronRoute } from '@/server/routes/cron';
+import { rateLimit } from '@/server/routes/middleware';
+import { downloadsRoute } from '@/server/routes/downloads';
+import { eventsRoute } from '@/server/routes/events';
+import { filesRoute } from '@/server/routes/files';
+import { sharesRoute } from '@/server/routes/shares';
+import { uploadsRoute } from '@/server/routes/uploads';
+import { v1Route } from '@/server/routes/v1';
+import { webhooksRoute } from '@/server/routes/webhooks';
 
-/**
- * Main tRPC Router
- *
- * This defines all available API endpoints. Currently includes:
- * - test: A simple endpoint to verify the API is working
- */
-export const appRouter = t.router({
-  test: publicProcedure.query(() => ({ message: 'it works!' })),
-  authentication: authenticationRouter,
-});
-
-// Export router type for client-side type safety
-export type AppRouter = typeof appRouter;
+// The router and its type, for the client and in-process callers
+export { appRouter };
+export type { AppRouter } from '@/server/routers';
 
 /**
  * Hono App Setup
@@ -46,6 +53,14 @@ app.use(
   })
 );
 
+/**
+ * Rate Limiting
+ *
+ * A generous per-IP limit on every request; routes and tRPC procedures
+ * add tighter per-user limits of their own (see '@/server/rate-limit').
+ */
+app.use('*', rateLimit('ip'));
+
 /**
  * tRPC Server Integration
  *
@@ -60,11 +75,11 @@ app.use(
     endpoint: '/api/trpc', // Base endpoint for tRPC calls
     router: appRouter, // Our defined API routes
     // Context factory: runs for every request to create the base context
-    createContext: (_, c) => ({
-      env: {
-        DATABASE_URL: process.env.DATABASE_URL || '', // Database connection string
-      },
-      c, // Hono request context
+    createContext: ({ resHeaders }, c): TRPCContext => ({
+      db, // Shared database client from DATABASE_DRIVER/DATABASE_URL
+      auth: getAuth(), // Auth provider from AUTH_PROVIDER
+      headers: c.req.raw.headers,
+      resHeaders, // Rate limit headers are set here
     }),
     // Error handler: logs errors with helpful details
     onError: ({ error, path }) => {
@@ -76,5 +91,82 @@ app.use(
   })
 );
 
+/**
+ * Hono Error Handler
+ *
+ * Services shared with tRPC throw `TRPCError`; when they run inside a
+ * plain Hono route, turn them into a JSON error with the matching status.
+ */
+app.onError((error, c) => {
+  if (error instanceof HTTPException) return error.getResponse();
+
+  if (error instanceof TRPCError) {
+    const status = getHTTPStatusCodeFromError(error) as ContentfulStatusCode;
+    return c.json({ error: error.message }, status);
+  }
+
+  console.error(`Hono Error on ${c.req.path}:`, error);
+  return c.json({ error: 'Internal server error' }, 500);
+});
+
+/**
+ * Webhook Routes
+ *
+ * Inbound webhooks from third-party services (e.g. Clerk user sync).
+ * These are public in `src/middleware.ts` and verify their own signatures.
+ */
+app.route('/webhooks', webhooksRoute);
+
+/**
+ * File Routes
+ *
+ * Byte transfers (uploads) that go through the storage driver rather
+ * than tRPC's JSON transport.
+ */
+app.route('/files', filesRoute);
+
+/**
+ * Download Routes
+ *
+ * Streams file bytes for short-lived signed URLs (no session required).
+ */
+app.route('/download', downloadsRoute);
+
+/**
+ * Share Link Routes
+ *
+ * Public access to shared files and folders by link token.
+ */
+app.route('/share', sharesRoute);
+
+/**
+ * Resumable Upload Routes
+ *
+ * tus-style chunked uploads for large files.
+ */
+app.route('/uploads', uploadsRoute);
+
+/**
+ * Event Stream Routes
+ *
+ * Server-Sent Events pushing file changes and account status.
+ */
+app.route('/events', eventsRoute);
+
+/**
+ * REST API Routes
+ *
+ * Versioned REST access to files, folders, uploads, downloads, shares
+ * and search, with an OpenAPI document, for clients without tRPC.
+ */
+app.route('/v1', v1Route);
+
+/**
+ * Cron Routes
+ *
+ * Scheduled maintenance jobs, authenticated with CRON_SECRET.
+ */
+app.route('/cron', cronRoute);
+
 // Export the configured Hono app
 export default app;
@@ -0,0 +1,169 @@
+import { db } from '@/db';
+import { createMemoryRateLimitStore } from '@/server/rate-limit/memory';
+import { createPostgresRateLimitStore } from '@/server/rate-limit/postgres';
+
+/**
+ * A token bucket: holds up to `limit` tokens and refills at `limit`
+ * tokens per `windowSeconds`. Each request takes one, so clients can
+ * burst up to `limit` requests and then sustain the refill rate.
+ */
+export type RateLimitRule = {
+  limit: number;
+  windowSeconds: number;
+};
+
+/**
+ * Rate Limit Rules
+ *
+ * Applied per route with the `rateLimit` Hono middleware and per tRPC
+ * procedure with `.meta({ rateLimit })`. Each client gets its own
+ * bucket for every rule: signed-in users by ID, anyone else by IP.
+ */
+export const rateLimits = {
+  // Every API request from an address, before authentication
+  ip: { limit: 1200, windowSeconds: 60 },
+  // tRPC procedures without a rule of their own
+  query: { limit: 300, windowSeconds: 60 },
+  mutation: { limit: 120, windowSeconds: 60 },
+  // Full-text search queries
+  search: { limit: 30, windowSeconds: 60 },
+  // Starting an upload (not each chunk of a resumable one)
+  upload: { limit: 60, windowSeconds: 60 },
+  // Building a ZIP archive of a folder or selection
+  archive: { limit: 10, windowSeconds: 60 },
+  // Share-link password attempts from one client
+  shareUnlock: { limit: 10, windowSeconds: 10 * 60 },
+  // Password attempts on one share link, from all clients together
+  shareUnlockLink: { limit: 50, windowSeconds: 10 * 60 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof rateLimits;
+
+/**
+ * Rate Limit Store Interface
+ *
+ * Keeps the buckets. Taking a token must be atomic, so concurrent
+ * requests can't spend the same one.
+ */
+export interface RateLimitStore {
+  // Take a token from the bucket under `key`, which starts out full;
+  // returns whether one was available and how many are left
+  take(
+    key: string,
+    rule: RateLimitRule
+  ): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+let store: RateLimitStore | undefined;
+
+/**
+ * Resolve the rate-limit store from environment config.
+ *
+ * - RATE_LIMIT_STORE: "memory" (default) or "postgres"
+ * - memory: per server process, so each instance of a serverless
+ *   deployment counts on its own
+ * - postgres: shared by every instance, in `rate_limit_buckets`
+ *
+ * The store is created once and reused across requests.
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (store) return store;
+
+  const kind = process.env.RATE_LIMIT_STORE ?? 'memory';
+
+  switch (kind) {
+    case 'memory':
+      store = createMemoryRateLimitStore();
+      break;
+
+    case 'postgres':
+      store = createPostgresRateLimitStore(db);
+      break;
+
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"`);
+  }
+
+  return store;
+};
+
+export type RateLimitResult = Awaited<ReturnType<typeof checkRateLimit>>;
+
+/**
+ * Take a token from `subject`'s bucket for a rule.
+ *
+ * `subject` names who is limited, e.g. `user:<id>` or `ip:<address>`.
+ * Times are in whole seconds, rounded up.
+ */
+export const checkRateLimit = async (name: RateLimitName, subject: string) => {
+  const rule = rateLimits[name];
+  const { allowed, tokens } = await getRateLimitStore().take(
+    `${name}:${subject}`,
+    rule
+  );
+
+  const perSecond = rule.limit / rule.windowSeconds;
+
+  return {
+    rule,
+    allowed,
+    remaining: Math.floor(tokens),
+    // Until the bucket is full again
+    resetSeconds: Math.ceil((rule.limit - tokens) / perSecond),
+    // Until the next token, for requests turned away
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+  };
+};
+
+/**
+ * `RateLimit-*` response headers (IETF draft), plus `Retry-After` for
+ * requests turned away.
+ */
+export const getRateLimitHeaders = (result: RateLimitResult) => {
+  const { rule } = result;
+
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': `${rule.limit};w=${rule.windowSeconds}`,
+    'RateLimit-Limit': String(rule.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+
+  return headers;
+};
+
+// Header the proxy in front of the app sets to the client address
+// alone (e.g. "CF-Connecting-IP"), trusted instead of X-Forwarded-For
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER;
+
+// Proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+
+/**
+ * Client address of a request, from the headers set by the proxy in
+ * front of the app.
+ *
+ * Clients can send X-Forwarded-For themselves, and proxies append to
+ * it, so only the addresses the trusted proxies added count: the one
+ * TRUSTED_PROXY_HOPS from the right was seen by the outermost of them.
+ */
+export const getClientIp = (headers: Headers) => {
+  if (CLIENT_IP_HEADER) return headers.get(CLIENT_IP_HEADER) || 'unknown';
+
+  const hops =
+    headers
+      .get('X-Forwarded-For')
+      ?.split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean) ?? [];
+
+  return (
+    hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)] ||
+    headers.get('X-Real-IP') ||
+    'unknown'
+  );
+};
@@ -0,0 +1,43 @@
+import type { RateLimitStore } from '@/server/rate-limit';
+
+// Buckets kept before the least recently used are dropped (and so
+// start over full)
+const MAX_BUCKETS = 100_000;
+
+/**
+ * In-Memory Store
+ *
+ * Keeps buckets in a Map in the server process. Counts are lost on
+ * restart and not shared between instances, which suits development
+ * and single-node setups.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  // In order of last use, oldest first
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async take(key, { limit, windowSeconds }) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+
+      const tokens = bucket
+        ? Math.min(
+            limit,
+            bucket.tokens +
+              ((now - bucket.updatedAt) / 1000) * (limit / windowSeconds)
+          )
+        : limit;
+
+      if (tokens < 1) return { allowed: false, tokens };
+
+      buckets.delete(key);
+      buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+
+      if (buckets.size > MAX_BUCKETS) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+
+      return { allowed: true, tokens: tokens - 1 };
+    },
+  };
+};
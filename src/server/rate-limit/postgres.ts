@@ -0,0 +1,55 @@
+import type { Database } from '@/db';
+import { rate_limit_buckets } from '@/db/schema';
+import { rateLimits, type RateLimitStore } from '@/server/rate-limit';
+import { lt, sql } from 'drizzle-orm';
+
+/**
+ * Postgres Store
+ *
+ * Keeps buckets in `rate_limit_buckets`, shared by every instance.
+ * A token is taken with a single upsert, which locks the row, so
+ * concurrent requests queue up rather than race.
+ */
+export const createPostgresRateLimitStore = (db: Database): RateLimitStore => ({
+  async take(key, { limit, windowSeconds }) {
+    // The stored bucket refilled up to now
+    const refilled = sql`least(${limit}, ${rate_limit_buckets.tokens} + extract(epoch from now() - ${rate_limit_buckets.updated_at}) * ${limit / windowSeconds})`;
+
+    const [bucket] = await db
+      .insert(rate_limit_buckets)
+      .values({ key, tokens: limit - 1, updated_at: sql`now()` })
+      .onConflictDoUpdate({
+        target: rate_limit_buckets.key,
+        // A request turned away leaves the bucket as it was
+        set: {
+          tokens: sql`case when ${refilled} >= 1 then ${refilled} - 1 else ${rate_limit_buckets.tokens} end`,
+          updated_at: sql`case when ${refilled} >= 1 then now() else ${rate_limit_buckets.updated_at} end`,
+        },
+      })
+      .returning({
+        // Only a request let through moves `updated_at` to now
+        allowed: sql<boolean>`${rate_limit_buckets.updated_at} = now()`,
+        tokens: sql<number>`(${refilled})::float8`,
+      });
+
+    return bucket;
+  },
+});
+
+/**
+ * Delete buckets untouched for longer than any rule's window; they'd
+ * be full by now, same as a missing one.
+ */
+export const pruneRateLimitBuckets = async (db: Database) => {
+  const windowSeconds = Math.max(
+    ...Object.values(rateLimits).map((rule) => rule.windowSeconds)
+  );
+  const cutoff = new Date(Date.now() - windowSeconds * 1000);
+
+  const pruned = await db
+    .delete(rate_limit_buckets)
+    .where(lt(rate_limit_buckets.updated_at, cutoff))
+    .returning({ key: rate_limit_buckets.key });
+
+  return { pruned: pruned.length };
+};
@@ -0,0 +1,60 @@
+import { accessTokenScope } from '@/db/schema';
+import {
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  toClientAccessToken,
+} from '@/server/services/access-tokens';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+/**
+ * Personal access tokens. Managing them from another token needs the
+ * `admin` scope.
+ */
+export const accessTokensRouter = t.router({
+  /**
+   * Create a token. The response is the only time `token` is shown.
+   */
+  create: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(accessTokenScope.enumValues)).min(1),
+        expiresAt: z.coerce.date().nullish(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { token, record } = await createAccessToken(db, user.id, input);
+
+      return { ...toClientAccessToken(record), token };
+    }),
+
+  /**
+   * List the user's tokens, including revoked and expired ones.
+   */
+  list: privateProcedure.meta({ scope: 'admin' }).query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const tokens = await listAccessTokens(db, user.id);
+
+    return tokens.map(toClientAccessToken);
+  }),
+
+  /**
+   * Revoke a token. Requests using it fail from then on.
+   */
+  revoke: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const token = await revokeAccessToken(db, user.id, input.id);
+
+      return toClientAccessToken(token);
+    }),
+});
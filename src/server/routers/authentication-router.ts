@@ -1,24 +1,31 @@
-import { users } from '@/db/schema';
 import { publicProcedure, t } from '@/server/trpc';
-import { currentUser } from '@clerk/nextjs/server';
+import {
+  authenticateAccessToken,
+  getBearerAccessToken,
+} from '@/server/services/access-tokens';
+import { upsertUser } from '@/server/services/users';
 
 export const authenticationRouter = t.router({
   getDatabaseSyncStatus: publicProcedure.query(async ({ ctx }) => {
-    const { db } = ctx;
+    const { db, auth, headers } = ctx;
 
-    const auth = await currentUser();
+    // Access tokens only exist for users that are already synced
+    const token = getBearerAccessToken(headers.get('Authorization'));
+    if (token) {
+      return { isSynced: (await authenticateAccessToken(db, token)) !== null };
+    }
+
+    const identity = await auth.getIdentity(headers);
 
-    if (!auth) return { isSynced: false };
+    if (!identity) return { isSynced: false };
 
     const user = await db.query.users.findFirst({
-      where: ({ externalId }, { eq }) => eq(externalId, auth.id),
+      where: ({ externalId }, { eq }) => eq(externalId, identity.externalId),
     });
 
     if (!user) {
-      await db.insert(users).values({
-        externalId: auth.id,
-        email: auth.emailAddresses[0].emailAddress,
-      });
+      // The Clerk webhook may land at the same moment, so upsert
+      await upsertUser(db, identity);
 
       return { isSynced: true };
     }
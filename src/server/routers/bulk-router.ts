@@ -0,0 +1,119 @@
+import { toClientEntry } from '@/server/services/files';
+import {
+  bulkCopy,
+  bulkDelete,
+  bulkIdsSchema,
+  bulkMove,
+  bulkRestore,
+  bulkSetStarred,
+  bulkTrash,
+  type BulkResult,
+} from '@/server/services/bulk';
+import { conflictPolicySchema } from '@/server/services/conflicts';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+// Per-item results, in the order the IDs were given
+const toClientResults = (results: BulkResult[]) => ({
+  results: results.map((result) =>
+    result.ok && result.entry
+      ? { ...result, entry: toClientEntry(result.entry) }
+      : { ...result, entry: undefined }
+  ),
+});
+
+/**
+ * Multi-select actions (see src/server/services/bulk.ts).
+ *
+ * Each takes up to 5000 IDs and returns `{ results }`, one per distinct
+ * ID: `{ id, ok: true, entry? }` or `{ id, ok: false, error }` with a
+ * tRPC error code and message. The writes for every item that passes
+ * its checks share one transaction.
+ */
+export const bulkRouter = t.router({
+  /**
+   * Move entries into a folder (or the root, with `parentId: null`).
+   */
+  move: privateProcedure
+    .input(
+      z.object({
+        ids: bulkIdsSchema,
+        parentId: z.uuid().nullable(),
+        onConflict: conflictPolicySchema.default('fail'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(
+        await bulkMove(db, user.id, input.ids, input.parentId, input.onConflict)
+      );
+    }),
+
+  /**
+   * Copy entries, including folder contents, into a folder (or the
+   * root). Copies are renamed "name (1).ext" by default when the name
+   * is taken.
+   */
+  copy: privateProcedure
+    .input(
+      z.object({
+        ids: bulkIdsSchema,
+        parentId: z.uuid().nullable(),
+        onConflict: conflictPolicySchema.default('rename'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(
+        await bulkCopy(db, user.id, input.ids, input.parentId, input.onConflict)
+      );
+    }),
+
+  /**
+   * Move entries to the trash.
+   */
+  trash: privateProcedure
+    .input(z.object({ ids: bulkIdsSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(await bulkTrash(db, user.id, input.ids));
+    }),
+
+  /**
+   * Restore trashed items to their original locations.
+   */
+  restore: privateProcedure
+    .input(z.object({ ids: bulkIdsSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(await bulkRestore(db, user.id, input.ids));
+    }),
+
+  /**
+   * Star or unstar entries.
+   */
+  setStarred: privateProcedure
+    .input(z.object({ ids: bulkIdsSchema, isStarred: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(
+        await bulkSetStarred(db, user.id, input.ids, input.isStarred)
+      );
+    }),
+
+  /**
+   * Permanently delete trashed items.
+   */
+  delete: privateProcedure
+    .input(z.object({ ids: bulkIdsSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      return toClientResults(await bulkDelete(db, user.id, input.ids));
+    }),
+});
@@ -0,0 +1,47 @@
+import {
+  decodeChangeCursor,
+  encodeChangeCursor,
+  listChanges,
+} from '@/server/services/changes';
+import { toClientEntry } from '@/server/services/files';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+export const changesRouter = t.router({
+  /**
+   * What changed in the caller's drive (and items shared with them)
+   * since `cursor`, for sync clients.
+   *
+   * Returns at most one change per entry, with the entry's current
+   * state or null if it should be removed locally. A change to a folder
+   * applies to everything inside it. Call again with the new cursor
+   * while `hasMore` is set.
+   *
+   * Without a cursor, or when it's too old to catch up from, `reset` is
+   * true: discard the local copy, list the tree from scratch, then sync
+   * from the returned cursor.
+   */
+  list: privateProcedure
+    .input(
+      z.object({
+        cursor: z.string().nullish(),
+        limit: z.number().int().min(1).max(1000).default(500),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const position = input.cursor ? decodeChangeCursor(input.cursor) : null;
+      const result = await listChanges(db, user.id, position, input.limit);
+
+      return {
+        reset: result.reset,
+        changes: result.changes.map(({ entry, ...change }) => ({
+          ...change,
+          entry: entry && toClientEntry(entry),
+        })),
+        cursor: encodeChangeCursor(result.position),
+        hasMore: result.hasMore,
+      };
+    }),
+});
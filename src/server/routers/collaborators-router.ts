@@ -0,0 +1,77 @@
+import { collaboratorRole } from '@/db/schema';
+import { authorizeEntry } from '@/server/authorization';
+import {
+  addCollaborator,
+  listCollaborators,
+  removeCollaborator,
+} from '@/server/services/collaborators';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+export const collaboratorsRouter = t.router({
+  /**
+   * Share an entry with another user, or change their role.
+   * The grant applies to everything inside a shared folder.
+   */
+  add: privateProcedure
+    .meta({ scope: 'share' })
+    .input(
+      z.object({
+        entryId: z.uuid(),
+        email: z.email(),
+        role: z.enum(collaboratorRole.enumValues),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'manage'
+      );
+
+      return addCollaborator(db, entry, user.id, input);
+    }),
+
+  /**
+   * List who an entry is shared with. Anyone with access can see this.
+   */
+  list: privateProcedure
+    .input(z.object({ entryId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'view'
+      );
+
+      return listCollaborators(db, entry.id);
+    }),
+
+  /**
+   * Stop sharing an entry with a user. Collaborators may also remove
+   * themselves.
+   */
+  remove: privateProcedure
+    .meta({ scope: 'share' })
+    .input(z.object({ entryId: z.uuid(), userId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        input.userId === user.id ? 'view' : 'manage'
+      );
+
+      await removeCollaborator(db, entry.id, input.userId);
+
+      return { removed: true };
+    }),
+});
@@ -0,0 +1,133 @@
+import { createLocalDatabase, type Database } from '@/db/drivers';
+import { entry_changes, file_system_entries } from '@/db/schema';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import { appRouter } from '@/server/routers';
+import { lockDriveQuery, relocateEntryQueries } from '@/server/services/files';
+import { trashEntryQueries } from '@/server/services/trash';
+import { TRPCError } from '@trpc/server';
+import { and, eq } from 'drizzle-orm';
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+
+/**
+ * Moves
+ *
+ * A folder can't be moved into its own subtree, including when another
+ * move makes the destination part of it after the check before the
+ * batch; then nothing in the batch may be saved.
+ */
+describe('files.move', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+  let ownerId: string;
+
+  before(async () => {
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    // Creates the user row, as the app does after sign-in
+    await caller.authentication.getDatabaseSyncStatus();
+    ownerId = (await caller.files.createFolder({ name: 'Setup' })).owner_id;
+  });
+
+  const load = async (id: string) => {
+    const entry = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, id),
+    });
+    assert.ok(entry);
+    return entry;
+  };
+
+  test("locks the owner's row", async () => {
+    const [locked] = await db.batch([lockDriveQuery(db, ownerId)]);
+
+    assert.deepEqual(locked, [{ id: ownerId }]);
+  });
+
+  test('refuses to move a folder into its own subtree', async () => {
+    const outer = await caller.files.createFolder({ name: 'Outer' });
+    const inner = await caller.files.createFolder({
+      name: 'Inner',
+      parentId: outer.id,
+    });
+
+    await assert.rejects(
+      caller.files.move({ id: outer.id, parentId: inner.id }),
+      (error) => error instanceof TRPCError && error.code === 'BAD_REQUEST'
+    );
+    assert.equal((await load(outer.id)).parent_id, null);
+  });
+
+  test('rolls back a move that became one into itself', async () => {
+    const a = await caller.files.createFolder({ name: 'A' });
+    const b = await caller.files.createFolder({ name: 'B' });
+    const taken = await caller.files.createFolder({
+      name: 'A',
+      parentId: b.id,
+    });
+
+    // Both crossing moves planned before either runs
+    const [entryA, entryB] = [await load(a.id), await load(b.id)];
+    const moveA = relocateEntryQueries(db, entryA, {
+      parentId: b.id,
+      parentPath: entryB.path,
+      name: 'A',
+    });
+    const moveB = relocateEntryQueries(db, entryB, {
+      parentId: a.id,
+      parentPath: entryA.path,
+      name: 'B',
+    });
+
+    await db.batch([
+      lockDriveQuery(db, ownerId),
+      ...trashEntryQueries(db, await load(taken.id)),
+      ...moveA,
+    ]);
+    await assert.rejects(db.batch([lockDriveQuery(db, ownerId), ...moveB]));
+
+    const moves = await db
+      .select()
+      .from(entry_changes)
+      .where(
+        and(eq(entry_changes.entry_id, b.id), eq(entry_changes.kind, 'move'))
+      );
+
+    assert.equal((await load(a.id)).parent_id, b.id);
+    assert.equal((await load(b.id)).parent_id, null);
+    assert.equal((await load(b.id)).path, '/B/');
+    assert.equal(moves.length, 0);
+  });
+
+  test('keeps the overwritten sibling when a move is refused', async () => {
+    const outer = await caller.files.createFolder({ name: 'Box' });
+    const inner = await caller.files.createFolder({
+      name: 'Crate',
+      parentId: outer.id,
+    });
+    const sibling = await caller.files.createFolder({
+      name: 'Box',
+      parentId: inner.id,
+    });
+
+    // Planned as if the check before the batch had passed
+    const [entry, destination] = [await load(outer.id), await load(inner.id)];
+    await assert.rejects(
+      db.batch([
+        lockDriveQuery(db, ownerId),
+        ...trashEntryQueries(db, await load(sibling.id)),
+        ...relocateEntryQueries(db, entry, {
+          parentId: destination.id,
+          parentPath: destination.path,
+          name: 'Box',
+        }),
+      ])
+    );
+
+    assert.equal((await load(sibling.id)).is_deleted, false);
+  });
+});
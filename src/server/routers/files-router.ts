@@ -0,0 +1,463 @@
+import { file_system_entries } from '@/db/schema';
+import { authorizeEntry, authorizeFolder } from '@/server/authorization';
+import {
+  buildPath,
+  entryNameSchema,
+  FOLDER_MIME_TYPE,
+  getBreadcrumbs,
+  getParentPath,
+  isMoveIntoItself,
+  isWithinSubtree,
+  lockDriveQuery,
+  relocateEntryQueries,
+  toClientEntry,
+} from '@/server/services/files';
+import { recordChangeQuery } from '@/server/services/changes';
+import { listSharedWithUser } from '@/server/services/collaborators';
+import {
+  batchReplacing,
+  conflictPolicySchema,
+  resolveNameConflict,
+  rethrowNameConflict,
+} from '@/server/services/conflicts';
+import { createSignedDownloadUrl } from '@/server/services/signed-urls';
+import { toListedEntries } from '@/server/services/thumbnails';
+import { trashEntry } from '@/server/services/trash';
+import { privateProcedure, t } from '@/server/trpc';
+import { TRPCError } from '@trpc/server';
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  isNull,
+  lt,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import { z } from 'zod';
+
+// Columns the explorer can be sorted by
+const sortColumns = {
+  name: file_system_entries.name,
+  size: file_system_entries.size_bytes,
+  createdAt: file_system_entries.created_at,
+  updatedAt: file_system_entries.updated_at,
+} as const;
+
+type SortKey = keyof typeof sortColumns;
+
+// Casts a cursor's sort key back to its column's type. Keys travel as
+// Postgres prints them, since a Date would drop the microseconds.
+const sortValueCasts: Record<SortKey, (value: string) => SQL> = {
+  name: (value) => sql`${value}::text`,
+  size: (value) => sql`${value}::bigint`,
+  createdAt: (value) => sql`${value}::timestamptz`,
+  updatedAt: (value) => sql`${value}::timestamptz`,
+};
+
+/**
+ * Cursor Encoding
+ *
+ * The cursor is the sort key of the last row on the previous page,
+ * serialized as base64url JSON. Listing is keyset-paginated on
+ * (is_folder, sort column, id) so pages stay stable while rows change.
+ */
+const cursorSchema = z.object({
+  isFolder: z.boolean(),
+  value: z.string(),
+  id: z.uuid(),
+});
+
+type Cursor = z.infer<typeof cursorSchema>;
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): Cursor => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    parsed = null;
+  }
+
+  const result = cursorSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor.' });
+  }
+
+  return result.data;
+};
+
+const moveIntoItselfError = () =>
+  new TRPCError({
+    code: 'BAD_REQUEST',
+    message: 'Cannot move a folder into itself.',
+  });
+
+/**
+ * Procedure Inputs
+ *
+ * Shared with the REST API, which validates requests and documents
+ * them in its OpenAPI spec with the same schemas.
+ */
+export const filesInputSchemas = {
+  list: z.object({
+    parentId: z.uuid().nullable().default(null),
+    cursor: z.string().nullish(),
+    limit: z.number().int().min(1).max(200).default(50),
+    sortBy: z.enum(['name', 'size', 'createdAt', 'updatedAt']).default('name'),
+    sortDirection: z.enum(['asc', 'desc']).default('asc'),
+  }),
+  get: z.object({ id: z.uuid() }),
+  createFolder: z.object({
+    name: entryNameSchema,
+    parentId: z.uuid().nullable().default(null),
+    onConflict: conflictPolicySchema.default('fail'),
+  }),
+  rename: z.object({
+    id: z.uuid(),
+    name: entryNameSchema,
+    onConflict: conflictPolicySchema.default('fail'),
+  }),
+  move: z.object({
+    id: z.uuid(),
+    parentId: z.uuid().nullable(),
+    onConflict: conflictPolicySchema.default('fail'),
+  }),
+  setStarred: z.object({ id: z.uuid(), isStarred: z.boolean() }),
+  trash: z.object({ id: z.uuid() }),
+  getDownloadUrl: z.object({
+    id: z.uuid(),
+    disposition: z.enum(['inline', 'attachment']).default('attachment'),
+  }),
+};
+
+export const filesRouter = t.router({
+  /**
+   * List the children of a folder (or the root when `parentId` is null).
+   *
+   * Works for the user's own folders and folders shared with them.
+   * Folders are always listed before files; within each group rows are
+   * ordered by the requested column with `id` as a tiebreaker.
+   *
+   * Items carry thumbnail URLs once rendered, and the MIME icon to show
+   * until then (or for types that have none).
+   */
+  list: privateProcedure
+    .input(filesInputSchemas.list)
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+      const { parentId, limit, sortBy, sortDirection } = input;
+
+      const folder = await authorizeFolder(db, user.id, parentId, 'view');
+      // Children live in the folder owner's tree, which may not be ours
+      const ownerId = folder?.owner_id ?? user.id;
+
+      const column = sortColumns[sortBy];
+      const after = sortDirection === 'asc' ? gt : lt;
+      const order = sortDirection === 'asc' ? asc : desc;
+
+      const filters: (SQL | undefined)[] = [
+        eq(file_system_entries.owner_id, ownerId),
+        eq(file_system_entries.is_deleted, false),
+        parentId
+          ? eq(file_system_entries.parent_id, parentId)
+          : isNull(file_system_entries.parent_id),
+      ];
+
+      if (input.cursor) {
+        const cursor = decodeCursor(input.cursor);
+        const value = sortValueCasts[sortBy](cursor.value);
+
+        // Rows after the cursor: later group, or same group and later key
+        filters.push(
+          or(
+            lt(file_system_entries.is_folder, cursor.isFolder),
+            and(
+              eq(file_system_entries.is_folder, cursor.isFolder),
+              or(
+                after(column, value),
+                and(eq(column, value), gt(file_system_entries.id, cursor.id))
+              )
+            )
+          )
+        );
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await db
+        .select({
+          entry: file_system_entries,
+          sortValue: sql<string>`${column}::text`,
+        })
+        .from(file_system_entries)
+        .where(and(...filters))
+        .orderBy(
+          desc(file_system_entries.is_folder),
+          order(column),
+          asc(file_system_entries.id)
+        )
+        .limit(limit + 1);
+
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const items = page.map(({ entry }) => entry);
+
+      const nextCursor =
+        rows.length > limit && last
+          ? encodeCursor({
+              isFolder: last.entry.is_folder,
+              value: last.sortValue,
+              id: last.entry.id,
+            })
+          : null;
+
+      const breadcrumbs = folder
+        ? await getBreadcrumbs(db, user.id, folder)
+        : [];
+
+      return {
+        items: await toListedEntries(db, items),
+        nextCursor,
+        breadcrumbs,
+      };
+    }),
+
+  /**
+   * Fetch a single entry, the caller's role on it and the breadcrumbs
+   * leading to it.
+   */
+  get: privateProcedure
+    .input(filesInputSchemas.get)
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry, access } = await authorizeEntry(
+        db,
+        user.id,
+        input.id,
+        'view'
+      );
+      // Trail to the entry's folder, not including the entry itself
+      const breadcrumbs = (await getBreadcrumbs(db, user.id, entry)).slice(
+        0,
+        -1
+      );
+
+      const [listed] = await toListedEntries(db, [entry]);
+
+      return { entry: listed, role: access.role, breadcrumbs };
+    }),
+
+  /**
+   * Create an empty folder under `parentId` (or at the root).
+   *
+   * Folders created inside a shared folder belong to that folder's owner.
+   * `onConflict` decides what happens if the name is taken.
+   */
+  createFolder: privateProcedure
+    .input(filesInputSchemas.createFolder)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const parent = await authorizeFolder(db, user.id, input.parentId, 'edit');
+      const ownerId = parent?.owner_id ?? user.id;
+
+      const { name, replaced } = await resolveNameConflict(db, user.id, {
+        ownerId,
+        parentId: parent?.id ?? null,
+        name: input.name,
+        isFolder: true,
+        policy: input.onConflict,
+      });
+
+      // Generated here so the journal row can reference it
+      const id = crypto.randomUUID();
+
+      const [[folder]] = await batchReplacing(db, replaced, [
+        db
+          .insert(file_system_entries)
+          .values({
+            id,
+            name,
+            path: buildPath(parent?.path ?? null, name, true),
+            size_bytes: 0,
+            mime_type: FOLDER_MIME_TYPE,
+            owner_id: ownerId,
+            parent_id: parent?.id ?? null,
+            is_folder: true,
+          })
+          .returning(),
+        recordChangeQuery(db, { entryId: id, kind: 'create' }),
+      ]).catch((error) => rethrowNameConflict(error, name));
+
+      return toClientEntry(folder);
+    }),
+
+  /**
+   * Rename a file or folder in place. Paths of everything inside a
+   * renamed folder are updated with it. `onConflict` decides what
+   * happens if a sibling already has the name.
+   */
+  rename: privateProcedure
+    .input(filesInputSchemas.rename)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(db, user.id, input.id, 'edit');
+
+      const { name, replaced } = await resolveNameConflict(db, user.id, {
+        ownerId: entry.owner_id,
+        parentId: entry.parent_id,
+        name: input.name,
+        isFolder: entry.is_folder,
+        excludeId: entry.id,
+        policy: input.onConflict,
+      });
+
+      const [[renamed]] = await batchReplacing(
+        db,
+        replaced,
+        relocateEntryQueries(db, entry, {
+          parentId: entry.parent_id,
+          parentPath: await getParentPath(db, entry),
+          name,
+        })
+      ).catch((error) => rethrowNameConflict(error, name));
+
+      return toClientEntry(renamed);
+    }),
+
+  /**
+   * Move a file or folder under a different parent (or to the root).
+   *
+   * Requires edit access on both the entry and the destination. Entries
+   * can't be moved between different owners' trees, and folders can't be
+   * moved into their own subtree. `onConflict` decides what happens if
+   * the destination already has an entry with the same name.
+   */
+  move: privateProcedure
+    .input(filesInputSchemas.move)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(db, user.id, input.id, 'edit');
+      const parent = await authorizeFolder(db, user.id, input.parentId, 'edit');
+
+      if ((parent?.owner_id ?? user.id) !== entry.owner_id) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: "Items can't be moved into another user's drive.",
+        });
+      }
+
+      // Would detach the subtree from the root into a cycle. Refused
+      // here before anything is written, and by the update itself if a
+      // concurrent move makes it one in the meantime
+      if (parent && (await isWithinSubtree(db, entry.id, parent.id))) {
+        throw moveIntoItselfError();
+      }
+
+      const { name, replaced } = await resolveNameConflict(db, user.id, {
+        ownerId: entry.owner_id,
+        parentId: parent?.id ?? null,
+        name: entry.name,
+        isFolder: entry.is_folder,
+        excludeId: entry.id,
+        policy: input.onConflict,
+      });
+
+      const [[moved]] = await batchReplacing(
+        db,
+        [lockDriveQuery(db, entry.owner_id), ...replaced],
+        relocateEntryQueries(db, entry, {
+          parentId: parent?.id ?? null,
+          parentPath: parent?.path ?? null,
+          name,
+        })
+      ).catch((error) => {
+        if (isMoveIntoItself(error)) throw moveIntoItselfError();
+        return rethrowNameConflict(error, name);
+      });
+
+      return toClientEntry(moved);
+    }),
+
+  /**
+   * Star or unstar an entry.
+   */
+  setStarred: privateProcedure
+    .input(filesInputSchemas.setStarred)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(db, user.id, input.id, 'manage');
+
+      const [[updated]] = await db.batch([
+        db
+          .update(file_system_entries)
+          .set({ is_starred: input.isStarred })
+          .where(eq(file_system_entries.id, entry.id))
+          .returning(),
+        recordChangeQuery(db, { entryId: entry.id, kind: 'update' }),
+      ]);
+
+      return toClientEntry(updated);
+    }),
+
+  /**
+   * Move an entry (and its whole subtree) to the trash.
+   */
+  trash: privateProcedure
+    .input(filesInputSchemas.trash)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(db, user.id, input.id, 'manage');
+
+      return trashEntry(db, entry);
+    }),
+
+  /**
+   * Create a short-lived signed URL for reading a file's bytes.
+   *
+   * Use `inline` for previews (`<img>`, `<video>`) and `attachment`
+   * to have the browser save the file.
+   */
+  getDownloadUrl: privateProcedure
+    .input(filesInputSchemas.getDownloadUrl)
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(db, user.id, input.id, 'view');
+
+      if (entry.is_folder) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Folders cannot be downloaded.',
+        });
+      }
+
+      return createSignedDownloadUrl(entry.id, {
+        disposition: input.disposition,
+      });
+    }),
+
+  /**
+   * Entries other users have shared with the caller ("Shared with me").
+   */
+  sharedWithMe: privateProcedure.query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const shared = await listSharedWithUser(db, user.id);
+
+    return shared.map(({ entry, ...rest }) => ({
+      ...rest,
+      entry: toClientEntry(entry),
+    }));
+  }),
+});
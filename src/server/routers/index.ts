@@ -0,0 +1,50 @@
+import { publicProcedure, t } from '@/server/trpc';
+import { accessTokensRouter } from '@/server/routers/access-tokens-router';
+import { authenticationRouter } from '@/server/routers/authentication-router';
+import { bulkRouter } from '@/server/routers/bulk-router';
+import { changesRouter } from '@/server/routers/changes-router';
+import { collaboratorsRouter } from '@/server/routers/collaborators-router';
+import { filesRouter } from '@/server/routers/files-router';
+import { searchRouter } from '@/server/routers/search-router';
+import { sharesRouter } from '@/server/routers/shares-router';
+import { storageRouter } from '@/server/routers/storage-router';
+import { trashRouter } from '@/server/routers/trash-router';
+import { versionsRouter } from '@/server/routers/versions-router';
+import { webhooksRouter } from '@/server/routers/webhooks-router';
+
+/**
+ * Main tRPC Router
+ *
+ * This defines all available API endpoints. Currently includes:
+ * - test: A simple endpoint to verify the API is working
+ * - authentication: Clerk-to-database account sync
+ * - files: File explorer (listing, folders, rename, move, star)
+ * - trash: Trashed items (restore, permanent delete, empty)
+ * - storage: Quota and usage for the storage meter
+ * - shares: Public share links (create, list, revoke)
+ * - collaborators: Sharing with other users by email
+ * - versions: File version history (list, download, restore, delete)
+ * - search: Full-text search across the user's drive
+ * - changes: Change feed for sync clients
+ * - bulk: Multi-select move, copy, trash, restore, star and delete
+ * - accessTokens: Personal access tokens for scripts and sync clients
+ * - webhooks: Outbound webhooks for file events, with a delivery log
+ */
+export const appRouter = t.router({
+  test: publicProcedure.query(() => ({ message: 'it works!' })),
+  authentication: authenticationRouter,
+  files: filesRouter,
+  trash: trashRouter,
+  storage: storageRouter,
+  shares: sharesRouter,
+  collaborators: collaboratorsRouter,
+  versions: versionsRouter,
+  search: searchRouter,
+  changes: changesRouter,
+  bulk: bulkRouter,
+  accessTokens: accessTokensRouter,
+  webhooks: webhooksRouter,
+});
+
+// Export router type for client-side type safety
+export type AppRouter = typeof appRouter;
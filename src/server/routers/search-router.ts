@@ -0,0 +1,87 @@
+import { authorizeFolder } from '@/server/authorization';
+import { mimeCategoryNames } from '@/server/services/mime';
+import { searchEntries } from '@/server/services/search';
+import { privateProcedure, t } from '@/server/trpc';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+
+/**
+ * Cursor Encoding
+ *
+ * Results are ordered by relevance, which has no stable key to resume
+ * from, so the cursor is the offset of the next page serialized as
+ * base64url JSON.
+ */
+type Cursor = { offset: number };
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): Cursor => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isSafeInteger(offset) && offset >= 0) return { offset };
+  } catch {}
+
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor.' });
+};
+
+/**
+ * Procedure Inputs
+ *
+ * Shared with the REST API, which validates requests and documents
+ * them in its OpenAPI spec with the same schemas.
+ */
+export const searchInputSchemas = {
+  query: z.object({
+    query: z.string().trim().min(1).max(200),
+    folderId: z.uuid().nullable().default(null),
+    category: z.enum(mimeCategoryNames).optional(),
+    createdAfter: z.coerce.date().optional(),
+    createdBefore: z.coerce.date().optional(),
+    modifiedAfter: z.coerce.date().optional(),
+    modifiedBefore: z.coerce.date().optional(),
+    minSize: z.number().int().min(0).optional(),
+    maxSize: z.number().int().min(0).optional(),
+    starred: z.boolean().optional(),
+    trashed: z.boolean().default(false),
+    cursor: z.string().nullish(),
+    limit: z.number().int().min(1).max(100).default(25),
+  }),
+};
+
+export const searchRouter = t.router({
+  /**
+   * Search the caller's drive by name, path and file content.
+   *
+   * With `folderId`, only that folder's contents are searched; this also
+   * works for folders shared with the caller. Returns relevance-ranked
+   * results with highlighted name and content snippets.
+   */
+  query: privateProcedure
+    .meta({ rateLimit: 'search' })
+    .input(searchInputSchemas.query)
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+      const { query, folderId, cursor, limit, ...filters } = input;
+
+      const folder = await authorizeFolder(db, user.id, folderId, 'view');
+      // A shared folder's contents live in its owner's tree
+      const ownerId = folder?.owner_id ?? user.id;
+
+      const offset = cursor ? decodeCursor(cursor).offset : 0;
+
+      const { items, hasMore } = await searchEntries(
+        db,
+        ownerId,
+        query,
+        { ...filters, folder },
+        { offset, limit }
+      );
+
+      return {
+        items,
+        nextCursor: hasMore ? encodeCursor({ offset: offset + limit }) : null,
+      };
+    }),
+});
@@ -0,0 +1,78 @@
+import { shareLinkRole } from '@/db/schema';
+import { authorizeEntry } from '@/server/authorization';
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  toClientShareLink,
+} from '@/server/services/shares';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+/**
+ * Procedure Inputs
+ *
+ * Shared with the REST API, which validates requests and documents
+ * them in its OpenAPI spec with the same schemas.
+ */
+export const sharesInputSchemas = {
+  create: z.object({
+    entryId: z.uuid(),
+    role: z.enum(shareLinkRole.enumValues),
+    password: z.string().min(1).max(200).nullish(),
+    expiresAt: z.coerce.date().nullish(),
+    maxDownloads: z.number().int().min(1).nullish(),
+  }),
+  list: z.object({ entryId: z.uuid().optional() }).default({}),
+  revoke: z.object({ id: z.uuid() }),
+};
+
+export const sharesRouter = t.router({
+  /**
+   * Create a public link to a file or folder.
+   */
+  create: privateProcedure
+    .meta({ scope: 'share' })
+    .input(sharesInputSchemas.create)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'manage'
+      );
+      const link = await createShareLink(db, entry, input);
+
+      return toClientShareLink(link);
+    }),
+
+  /**
+   * List the user's share links, optionally for a single entry.
+   */
+  list: privateProcedure
+    .meta({ scope: 'share' })
+    .input(sharesInputSchemas.list)
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const links = await listShareLinks(db, user.id, input.entryId);
+
+      return links.map(toClientShareLink);
+    }),
+
+  /**
+   * Revoke a share link. Anyone holding its token loses access at once.
+   */
+  revoke: privateProcedure
+    .meta({ scope: 'share' })
+    .input(sharesInputSchemas.revoke)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const link = await revokeShareLink(db, user.id, input.id);
+
+      return toClientShareLink(link);
+    }),
+});
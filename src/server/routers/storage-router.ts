@@ -0,0 +1,68 @@
+import { file_system_entries, upload_sessions } from '@/db/schema';
+import { mimeCategoryExpression } from '@/server/services/mime';
+import { privateProcedure, t } from '@/server/trpc';
+import { and, eq, sql } from 'drizzle-orm';
+
+export const storageRouter = t.router({
+  /**
+   * Storage meter data for the current user.
+   *
+   * `used` and `quota` come from the user row, which is what uploads are
+   * checked against. The breakdown sums live files by MIME category;
+   * trash and unfinished uploads are reported separately since they
+   * count towards the quota too.
+   */
+  usage: privateProcedure.query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const category = mimeCategoryExpression(file_system_entries.mime_type);
+
+    const rows = await db
+      .select({
+        category,
+        bytes: sql<number>`coalesce(sum(${file_system_entries.size_bytes}), 0)::float8`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(file_system_entries)
+      .where(
+        and(
+          eq(file_system_entries.owner_id, user.id),
+          eq(file_system_entries.is_folder, false),
+          eq(file_system_entries.is_deleted, false)
+        )
+      )
+      // By position: the CASE expression's bound parameters wouldn't
+      // match a repeated copy of it in GROUP BY
+      .groupBy(sql`1`);
+
+    const [trash] = await db
+      .select({
+        bytes: sql<number>`coalesce(sum(${file_system_entries.size_bytes}), 0)::float8`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(file_system_entries)
+      .where(
+        and(
+          eq(file_system_entries.owner_id, user.id),
+          eq(file_system_entries.is_folder, false),
+          eq(file_system_entries.is_deleted, true)
+        )
+      );
+
+    const [uploads] = await db
+      .select({
+        bytes: sql<number>`coalesce(sum(${upload_sessions.size_bytes}), 0)::float8`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(upload_sessions)
+      .where(eq(upload_sessions.owner_id, user.id));
+
+    return {
+      used: user.storageUsedBytes,
+      quota: user.storageQuotaBytes,
+      breakdown: rows.sort((a, b) => b.bytes - a.bytes),
+      trash,
+      uploads,
+    };
+  }),
+});
@@ -0,0 +1,170 @@
+import { createLocalDatabase, type Database } from '@/db/drivers';
+import { blobs, file_system_entries } from '@/db/schema';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import { appRouter } from '@/server/routers';
+import { deleteEntriesPermanently } from '@/server/services/files';
+import { uploadFile } from '@/server/services/uploads';
+import { eq } from 'drizzle-orm';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+/**
+ * Trash and Restore
+ *
+ * Restoring re-roots the paths of everything trashed with an item
+ * under wherever, and whatever name, it's restored to.
+ */
+describe('trash.restore', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+
+  before(async () => {
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    // Creates the user row, as the app does after sign-in
+    await caller.authentication.getDatabaseSyncStatus();
+  });
+
+  const pathOf = async (id: string) => {
+    const entry = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, id),
+    });
+    assert.ok(entry);
+    return entry.path;
+  };
+
+  // A folder holding a folder holding a folder, trashed from the top
+  const trashTree = async (names: [string, string, string]) => {
+    const [top, middle, bottom] = names;
+    const root = await caller.files.createFolder({ name: top });
+    const child = await caller.files.createFolder({
+      name: middle,
+      parentId: root.id,
+    });
+    const grandchild = await caller.files.createFolder({
+      name: bottom,
+      parentId: child.id,
+    });
+
+    await caller.files.trash({ id: root.id });
+
+    return { root, child, grandchild };
+  };
+
+  test('restores a folder and its contents where they were', async () => {
+    const { root, child, grandchild } = await trashTree(['A', 'B', 'C']);
+
+    const restored = await caller.trash.restore({ id: root.id });
+
+    assert.equal(restored.renamed, false);
+    assert.equal(await pathOf(child.id), '/A/B/');
+    assert.equal(await pathOf(grandchild.id), '/A/B/C/');
+  });
+
+  test('renames a folder whose name was taken meanwhile', async () => {
+    const { root, grandchild } = await trashTree(['Photos', 'Trip', 'Day 1']);
+    await caller.files.createFolder({ name: 'photos' });
+
+    const restored = await caller.trash.restore({ id: root.id });
+
+    assert.equal(restored.renamed, true);
+    assert.equal(restored.entry.name, 'Photos (1)');
+    assert.equal(await pathOf(grandchild.id), '/Photos (1)/Trip/Day 1/');
+  });
+
+  test('re-roots paths under names outside the BMP', async () => {
+    const { root, child, grandchild } = await trashTree(['📁A', 'B', 'C']);
+    await caller.files.createFolder({ name: '📁A' });
+
+    const restored = await caller.trash.restore({ id: root.id });
+
+    assert.equal(restored.entry.name, '📁A (1)');
+    assert.equal(await pathOf(child.id), '/📁A (1)/B/');
+    assert.equal(await pathOf(grandchild.id), '/📁A (1)/B/C/');
+  });
+
+  test('re-roots paths of non-ASCII folders inside one', async () => {
+    const { root, grandchild } = await trashTree(['Ünïcode', '日本語', '😀']);
+
+    await caller.trash.restore({ id: root.id });
+
+    assert.equal(await pathOf(grandchild.id), '/Ünïcode/日本語/😀/');
+  });
+});
+
+/**
+ * Permanent Deletion
+ *
+ * Emptying and purging the trash read what to delete first, so only
+ * what's still in the trash by then may go, and exactly its space and
+ * blobs are released.
+ */
+describe('trash.empty', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+  let storageRoot: string;
+
+  before(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'frisync-test-'));
+    process.env.STORAGE_LOCAL_ROOT = storageRoot;
+
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    await caller.authentication.getDatabaseSyncStatus();
+  });
+
+  after(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  test('releases the space and blobs of what it deletes', async () => {
+    const { owner_id } = await caller.files.createFolder({ name: 'Setup' });
+    const file = await uploadFile(db, {
+      ownerId: owner_id,
+      authorId: owner_id,
+      parent: null,
+      name: 'notes.txt',
+      onConflict: 'fail',
+      mimeType: 'text/plain',
+      size: 5,
+      body: new Blob(['hello']).stream(),
+    });
+    await caller.files.trash({ id: file.id });
+
+    assert.equal((await caller.storage.usage()).used, 5);
+
+    assert.deepEqual(await caller.trash.empty(), { deleted: 1 });
+    assert.equal((await caller.storage.usage()).used, 0);
+    assert.deepEqual(await db.select().from(blobs), []);
+  });
+
+  test('keeps items restored after they were read', async () => {
+    const folder = await caller.files.createFolder({ name: 'Keep' });
+    await caller.files.trash({ id: folder.id });
+
+    const read = await db
+      .select()
+      .from(file_system_entries)
+      .where(eq(file_system_entries.trash_root_id, folder.id));
+    await caller.trash.restore({ id: folder.id });
+
+    assert.equal(await deleteEntriesPermanently(db, read), 0);
+    assert.equal(
+      (await caller.files.get({ id: folder.id })).entry.is_deleted,
+      false
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { file_system_entries } from '@/db/schema';
+import { toClientEntry } from '@/server/services/files';
+import {
+  deleteTrashItem,
+  emptyTrash,
+  getOwnedTrashItem,
+  restoreEntry,
+  TRASH_RETENTION_DAYS,
+} from '@/server/services/trash';
+import { privateProcedure, t } from '@/server/trpc';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const trashRouter = t.router({
+  /**
+   * List the items the user explicitly trashed, most recent first.
+   *
+   * Contents of trashed folders aren't listed separately; they come
+   * back (or are purged) together with their folder.
+   */
+  list: privateProcedure.query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const items = await db
+      .select()
+      .from(file_system_entries)
+      .where(
+        and(
+          eq(file_system_entries.owner_id, user.id),
+          eq(file_system_entries.is_deleted, true),
+          eq(file_system_entries.trash_root_id, file_system_entries.id)
+        )
+      )
+      .orderBy(desc(file_system_entries.deleted_at));
+
+    return {
+      items: items.map((item) => ({
+        ...toClientEntry(item),
+        purgeAt: item.deleted_at
+          ? new Date(
+              item.deleted_at.getTime() +
+                TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+            )
+          : null,
+      })),
+      retentionDays: TRASH_RETENTION_DAYS,
+    };
+  }),
+
+  /**
+   * Restore a trashed item to its original location.
+   */
+  restore: privateProcedure
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const item = await getOwnedTrashItem(db, user.id, input.id);
+      const result = await restoreEntry(db, item);
+
+      return { ...result, entry: toClientEntry(result.entry) };
+    }),
+
+  /**
+   * Permanently delete a single trashed item.
+   */
+  delete: privateProcedure
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const item = await getOwnedTrashItem(db, user.id, input.id);
+
+      return deleteTrashItem(db, item);
+    }),
+
+  /**
+   * Permanently delete everything in the trash.
+   */
+  empty: privateProcedure.mutation(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    return emptyTrash(db, user.id);
+  }),
+
+  /**
+   * Number of explicitly trashed items, for the sidebar badge.
+   */
+  count: privateProcedure.query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(file_system_entries)
+      .where(
+        and(
+          eq(file_system_entries.owner_id, user.id),
+          eq(file_system_entries.is_deleted, true),
+          eq(file_system_entries.trash_root_id, file_system_entries.id)
+        )
+      );
+
+    return { count };
+  }),
+});
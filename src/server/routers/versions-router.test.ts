@@ -0,0 +1,127 @@
+import { createLocalDatabase, type Database } from '@/db/drivers';
+import { blobs, file_system_entries, users } from '@/db/schema';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import { appRouter } from '@/server/routers';
+import { uploadFile, uploadFileVersion } from '@/server/services/uploads';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+/**
+ * Replacing File Content
+ *
+ * Uploading over a file keeps the old content as a version, and the
+ * new bytes count against the quota on top of it. A replace that loses
+ * a race or doesn't fit changes nothing and gives back what it took.
+ */
+describe('file versions', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+  let storageRoot: string;
+  let ownerId: string;
+
+  before(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'frisync-test-'));
+    process.env.STORAGE_LOCAL_ROOT = storageRoot;
+
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    // Creates the user row, as the app does after sign-in
+    await caller.authentication.getDatabaseSyncStatus();
+    ownerId = (await caller.files.createFolder({ name: 'Setup' })).owner_id;
+  });
+
+  after(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  const upload = (name: string, text: string) =>
+    uploadFile(db, {
+      ownerId,
+      authorId: ownerId,
+      parent: null,
+      name,
+      onConflict: 'replace',
+      mimeType: 'text/plain',
+      size: text.length,
+      body: new Blob([text]).stream(),
+    });
+
+  const load = async (id: string) => {
+    const entry = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, id),
+    });
+    assert.ok(entry);
+    return entry;
+  };
+
+  const usage = async () => (await caller.storage.usage()).used;
+
+  test('keeps the replaced content as a version', async () => {
+    const start = await usage();
+    const first = await upload('notes.txt', 'a');
+    const second = await upload('notes.txt', 'bb');
+
+    const versions = await caller.versions.list({ entryId: first.id });
+
+    assert.equal(second.id, first.id);
+    assert.equal(second.version, 2);
+    assert.deepEqual(
+      versions.map(({ version_number, size_bytes }) => ({
+        version_number,
+        size_bytes,
+      })),
+      [{ version_number: 1, size_bytes: 1 }]
+    );
+    assert.equal((await usage()) - start, 3);
+  });
+
+  test('refuses a replace of a version already replaced', async () => {
+    const file = await upload('draft.txt', 'one');
+    const stale = await load(file.id);
+    await upload('draft.txt', 'two');
+
+    const start = { used: await usage(), blobs: await db.$count(blobs) };
+    await assert.rejects(
+      uploadFileVersion(db, stale, {
+        authorId: ownerId,
+        mimeType: 'text/plain',
+        size: 5,
+        body: new Blob(['three']).stream(),
+      }),
+      (error) => error instanceof TRPCError && error.code === 'CONFLICT'
+    );
+
+    assert.equal((await load(file.id)).version, 2);
+    assert.equal(await usage(), start.used);
+    assert.equal(await db.$count(blobs), start.blobs);
+  });
+
+  test('refuses a replace over the quota', async () => {
+    const file = await upload('report.txt', 'v1');
+    const used = await usage();
+    await db
+      .update(users)
+      .set({ storageQuotaBytes: used + 1 })
+      .where(eq(users.id, ownerId));
+
+    await assert.rejects(
+      upload('report.txt', 'v2'),
+      (error) =>
+        error instanceof TRPCError && error.code === 'PAYLOAD_TOO_LARGE'
+    );
+
+    assert.equal((await load(file.id)).version, 1);
+    assert.equal(await usage(), used);
+    assert.deepEqual(await caller.versions.list({ entryId: file.id }), []);
+  });
+});
@@ -0,0 +1,101 @@
+import { authorizeEntry } from '@/server/authorization';
+import { toClientEntry } from '@/server/services/files';
+import { createSignedDownloadUrl } from '@/server/services/signed-urls';
+import {
+  deleteVersions,
+  getVersion,
+  listVersions,
+  restoreVersion,
+} from '@/server/services/versions';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+export const versionsRouter = t.router({
+  /**
+   * Previous versions of a file, newest first. The current content is
+   * the entry itself (`version` on the entry).
+   */
+  list: privateProcedure
+    .input(z.object({ entryId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'view'
+      );
+
+      return listVersions(db, entry.id);
+    }),
+
+  /**
+   * Create a short-lived signed URL for a previous version's content.
+   */
+  getDownloadUrl: privateProcedure
+    .input(
+      z.object({
+        entryId: z.uuid(),
+        versionId: z.uuid(),
+        disposition: z.enum(['inline', 'attachment']).default('attachment'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'view'
+      );
+      const version = await getVersion(db, entry.id, input.versionId);
+
+      return createSignedDownloadUrl(entry.id, {
+        disposition: input.disposition,
+        versionId: version.id,
+      });
+    }),
+
+  /**
+   * Make a previous version the current content. The content it
+   * replaces is kept as a new version.
+   */
+  restore: privateProcedure
+    .input(z.object({ entryId: z.uuid(), versionId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'edit'
+      );
+      const version = await getVersion(db, entry.id, input.versionId);
+
+      return toClientEntry(await restoreVersion(db, entry, version, user.id));
+    }),
+
+  /**
+   * Permanently delete a previous version, freeing its storage.
+   */
+  delete: privateProcedure
+    .input(z.object({ entryId: z.uuid(), versionId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { entry } = await authorizeEntry(
+        db,
+        user.id,
+        input.entryId,
+        'manage'
+      );
+      const version = await getVersion(db, entry.id, input.versionId);
+
+      await deleteVersions(db, entry, [version]);
+
+      return { deleted: true };
+    }),
+});
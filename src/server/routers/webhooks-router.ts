@@ -0,0 +1,132 @@
+import { webhookEvent } from '@/db/schema';
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhook,
+  toClientWebhook,
+  toClientWebhookDelivery,
+  updateWebhook,
+  webhookUrlSchema,
+} from '@/server/services/webhooks';
+import { privateProcedure, t } from '@/server/trpc';
+import { z } from 'zod';
+
+const eventsSchema = z.array(z.enum(webhookEvent.enumValues)).min(1);
+
+/**
+ * Outbound webhooks for file events. Managing them from an access
+ * token needs the `admin` scope.
+ */
+export const webhooksRouter = t.router({
+  /**
+   * Register an endpoint for some events, optionally only within one
+   * folder's subtree. The response is the only time `secret` is shown.
+   */
+  create: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(
+      z.object({
+        url: webhookUrlSchema,
+        events: eventsSchema,
+        folderId: z.uuid().nullable().default(null),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const { secret, webhook } = await createWebhook(db, user.id, input);
+
+      return { ...toClientWebhook(webhook), secret };
+    }),
+
+  /**
+   * List the user's webhooks.
+   */
+  list: privateProcedure.meta({ scope: 'admin' }).query(async ({ ctx }) => {
+    const { db, user } = ctx;
+
+    const found = await listWebhooks(db, user.id);
+
+    return found.map(toClientWebhook);
+  }),
+
+  /**
+   * Change a webhook's endpoint, events or folder, or pause it with
+   * `active: false`.
+   */
+  update: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(
+      z.object({
+        id: z.uuid(),
+        url: webhookUrlSchema.optional(),
+        events: eventsSchema.optional(),
+        folderId: z.uuid().nullable().optional(),
+        active: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+      const { id, ...changes } = input;
+
+      const webhook = await updateWebhook(db, user.id, id, changes);
+
+      return toClientWebhook(webhook);
+    }),
+
+  /**
+   * Delete a webhook and its delivery log.
+   */
+  delete: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      await deleteWebhook(db, user.id, input.id);
+
+      return { id: input.id };
+    }),
+
+  /**
+   * A webhook's recent deliveries, newest first, with the outcome of
+   * each one's last attempt.
+   */
+  deliveries: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(
+      z.object({
+        webhookId: z.uuid(),
+        limit: z.number().int().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const deliveries = await listWebhookDeliveries(
+        db,
+        user.id,
+        input.webhookId,
+        input.limit
+      );
+
+      return deliveries.map(toClientWebhookDelivery);
+    }),
+
+  /**
+   * Send a past delivery again. It's queued as a new delivery, sent
+   * within a minute.
+   */
+  redeliver: privateProcedure
+    .meta({ scope: 'admin' })
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const delivery = await redeliverWebhook(db, user.id, input.id);
+
+      return toClientWebhookDelivery(delivery);
+    }),
+});
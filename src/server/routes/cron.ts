@@ -0,0 +1,108 @@
+import { db } from '@/db';
+import { pruneRateLimitBuckets } from '@/server/rate-limit/postgres';
+import { collectGarbageBlobs, hashPendingBlobs } from '@/server/services/blobs';
+import { pruneChanges } from '@/server/services/changes';
+import { extractPendingContentText } from '@/server/services/content-text';
+import { generatePendingThumbnails } from '@/server/services/thumbnails';
+import { purgeExpiredTrash } from '@/server/services/trash';
+import { purgeExpiredUploadSessions } from '@/server/services/uploads';
+import { pruneExpiredVersions } from '@/server/services/versions';
+import {
+  deliverPendingWebhooks,
+  pruneWebhookDeliveries,
+} from '@/server/services/webhooks';
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+
+/**
+ * Cron Secret Middleware
+ *
+ * Scheduled jobs are public in `src/middleware.ts` (no Clerk session),
+ * so they authenticate with `Authorization: Bearer $CRON_SECRET`, the
+ * header Vercel Cron sends automatically.
+ */
+const requireCronSecret = createMiddleware(async (c, next) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || c.req.header('Authorization') !== `Bearer ${secret}`) {
+    return c.json({ error: 'Unauthorised.' }, 401);
+  }
+
+  await next();
+});
+
+/**
+ * Cron Routes
+ *
+ * Maintenance jobs triggered on a schedule (see vercel.json).
+ * Each job is safe to run more often than scheduled.
+ */
+export const cronRoute = new Hono();
+
+cronRoute.use('*', requireCronSecret);
+
+// Abort resumable uploads that were never finalized
+cronRoute.get('/cleanup-uploads', async (c) => {
+  const result = await purgeExpiredUploadSessions(db);
+  return c.json(result);
+});
+
+// Permanently delete trash older than TRASH_RETENTION_DAYS
+cronRoute.get('/purge-trash', async (c) => {
+  const result = await purgeExpiredTrash(db);
+  return c.json(result);
+});
+
+// Delete file versions outside VERSIONS_KEEP_LAST / VERSIONS_KEEP_DAYS
+cronRoute.get('/prune-versions', async (c) => {
+  const result = await pruneExpiredVersions(db);
+  return c.json(result);
+});
+
+// Delete change journal rows older than CHANGES_RETENTION_DAYS
+cronRoute.get('/prune-changes', async (c) => {
+  const result = await pruneChanges(db);
+  return c.json(result);
+});
+
+// Extract search text from files whose extraction is pending or failed
+cronRoute.get('/extract-text', async (c) => {
+  const result = await extractPendingContentText(db);
+  return c.json(result);
+});
+
+// Render thumbnails for new images, PDFs and videos
+cronRoute.get('/generate-thumbnails', async (c) => {
+  const result = await generatePendingThumbnails(db);
+  return c.json(result);
+});
+
+// Hash blobs stored before dedup or by resumable uploads, merging duplicates
+cronRoute.get('/hash-blobs', async (c) => {
+  const result = await hashPendingBlobs(db);
+  return c.json(result);
+});
+
+// Delete blobs whose last reference went away without cleanup
+cronRoute.get('/collect-blobs', async (c) => {
+  const result = await collectGarbageBlobs(db);
+  return c.json(result);
+});
+
+// Delete rate-limit buckets that have refilled (RATE_LIMIT_STORE=postgres)
+cronRoute.get('/prune-rate-limits', async (c) => {
+  const result = await pruneRateLimitBuckets(db);
+  return c.json(result);
+});
+
+// Send outbound webhook deliveries that are due, new or retried
+cronRoute.get('/deliver-webhooks', async (c) => {
+  const result = await deliverPendingWebhooks(db);
+  return c.json(result);
+});
+
+// Delete webhook deliveries older than WEBHOOK_DELIVERIES_RETENTION_DAYS
+cronRoute.get('/prune-webhook-deliveries', async (c) => {
+  const result = await pruneWebhookDeliveries(db);
+  return c.json(result);
+});
@@ -0,0 +1,66 @@
+import { db } from '@/db';
+import { file_system_entries, file_versions } from '@/db/schema';
+import { serveEntryContent } from '@/server/routes/serve-entry';
+import { verifyDownloadSignature } from '@/server/services/signed-urls';
+import { and, eq } from 'drizzle-orm';
+import { Hono } from 'hono';
+
+/**
+ * Download Routes
+ *
+ * Serves file bytes for signed URLs created by `files.getDownloadUrl`
+ * and, with a `version` parameter, `versions.getDownloadUrl`.
+ * Public in `src/middleware.ts`: the signature in the query string is
+ * the only credential, so links work in `<img>`/`<video>` tags.
+ */
+export const downloadsRoute = new Hono();
+
+downloadsRoute.get('/:id', async (c) => {
+  const id = c.req.param('id');
+  const { expires, signature, disposition, version } = c.req.query();
+
+  if (!verifyDownloadSignature(id, version, expires, signature)) {
+    return c.json({ error: 'Invalid or expired download link.' }, 403);
+  }
+
+  const entry = await db.query.file_system_entries.findFirst({
+    where: and(
+      eq(file_system_entries.id, id),
+      eq(file_system_entries.is_folder, false),
+      eq(file_system_entries.is_deleted, false)
+    ),
+  });
+
+  if (!entry) return c.json({ error: 'File not found.' }, 404);
+
+  if (!version) {
+    return serveEntryContent(
+      c,
+      entry,
+      disposition === 'inline' ? 'inline' : 'attachment'
+    );
+  }
+
+  const previous = await db.query.file_versions.findFirst({
+    where: and(
+      eq(file_versions.id, version),
+      eq(file_versions.entry_id, entry.id)
+    ),
+  });
+
+  if (!previous) return c.json({ error: 'Version not found.' }, 404);
+
+  // Serve the version's bytes under the file's current name
+  return serveEntryContent(
+    c,
+    {
+      ...entry,
+      version: previous.version_number,
+      size_bytes: previous.size_bytes,
+      mime_type: previous.mime_type,
+      blob_id: previous.blob_id,
+      content_updated_at: previous.created_at,
+    },
+    disposition === 'inline' ? 'inline' : 'attachment'
+  );
+});
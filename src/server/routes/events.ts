@@ -0,0 +1,266 @@
+import { db } from '@/db';
+import { getAuth } from '@/server/auth';
+import {
+  authenticateAccessToken,
+  getBearerAccessToken,
+  hasScope,
+} from '@/server/services/access-tokens';
+import {
+  decodeChangeCursor,
+  encodeChangeCursor,
+  listChanges,
+  type ChangePosition,
+} from '@/server/services/changes';
+import { toClientEntry } from '@/server/services/files';
+import { subscribe } from '@/server/services/realtime';
+import { Hono } from 'hono';
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming';
+import { z } from 'zod';
+
+// Comment sent on idle streams so proxies don't close them
+const KEEPALIVE_MS = 15_000;
+
+// The feed and account are re-read this often even without
+// notifications, which may be down
+const POLL_MS = 30_000;
+
+// Streams end after this, within serverless time limits; EventSource
+// reconnects and resumes from the last event ID
+const STREAM_MS = 5 * 60 * 1000;
+
+// Reconnect delay suggested to EventSource
+const RETRY_MS = 1000;
+
+const PAGE_SIZE = 500;
+
+// Stands for the root of the user's drive in `folders`
+const ROOT_FOLDER = 'root';
+
+const foldersSchema = z
+  .array(z.union([z.uuid(), z.literal(ROOT_FOLDER)]))
+  .max(100);
+
+type Change = Awaited<ReturnType<typeof listChanges>>['changes'][number];
+
+/**
+ * Whether a change concerns one of the folders being viewed (all
+ * changes when none are given).
+ *
+ * Removals and moves always pass: the journal doesn't say where the
+ * entry was, so the client checks whether it's showing it.
+ */
+const isViewed = (change: Change, folders: Set<string>) =>
+  folders.size === 0 ||
+  !change.entry ||
+  change.kind === 'move' ||
+  folders.has(change.entryId) ||
+  folders.has(change.entry.parent_id ?? ROOT_FOLDER);
+
+/**
+ * Send every change after `position` and return the new position.
+ * Without one, only announce where the stream starts.
+ */
+const sendChanges = async (
+  stream: SSEStreamingApi,
+  userId: string,
+  position: ChangePosition | null,
+  folders: Set<string>
+) => {
+  if (!position) {
+    const head = await listChanges(db, userId, null, 1);
+    await stream.writeSSE({
+      event: 'ready',
+      id: encodeChangeCursor(head.position),
+      data: '{}',
+    });
+    return head.position;
+  }
+
+  for (;;) {
+    const page = await listChanges(db, userId, position, PAGE_SIZE);
+    position = page.position;
+
+    const id = encodeChangeCursor(position);
+
+    // Too far behind to catch up: the client reloads what it shows
+    if (page.reset) {
+      await stream.writeSSE({ event: 'reset', id, data: '{}' });
+      return position;
+    }
+
+    if (page.changes.length === 0) return position;
+
+    for (const change of page.changes) {
+      if (!isViewed(change, folders)) continue;
+
+      await stream.writeSSE({
+        event: 'change',
+        data: JSON.stringify({
+          ...change,
+          entry: change.entry && toClientEntry(change.entry),
+        }),
+      });
+    }
+
+    // The ID follows the whole page, so a client cut off halfway
+    // through resumes from its start
+    await stream.writeSSE({ event: 'cursor', id, data: '{}' });
+
+    if (!page.hasMore) return position;
+  }
+};
+
+/**
+ * The auth provider's user ID for the caller: from an access token with
+ * the `read` scope, or else from the session alone, as the user row may
+ * not exist yet.
+ */
+const authenticate = async (headers: Headers) => {
+  const token = getBearerAccessToken(headers.get('Authorization'));
+  if (!token) return (await getAuth().getIdentity(headers))?.externalId ?? null;
+
+  const resolved = await authenticateAccessToken(db, token);
+
+  return resolved && hasScope(resolved.scopes, 'read')
+    ? resolved.user.externalId
+    : null;
+};
+
+/**
+ * Event Stream Routes
+ *
+ * Server-Sent Events for the signed-in user, so pages react to changes
+ * instead of polling. Also open to access tokens with the `read` scope.
+ * Events:
+ *
+ * - `account`: `{ isSynced }`, first and whenever the user row appears
+ *   or disappears (see /welcome)
+ * - `ready`: the stream started from the present (no cursor given)
+ * - `change`: `{ entryId, kind, entry }` as in `changes.list`, for the
+ *   folders in `?folders=` (IDs, or `root`), or everything
+ * - `cursor`: the position after a batch of changes
+ * - `reset`: the cursor is too old; reload and carry on from here
+ *
+ * Event IDs are `changes.list` cursors. EventSource resends the last
+ * one as `Last-Event-ID` when it reconnects, and `?cursor=` does the
+ * same for a first connection, so no change is missed in between.
+ */
+export const eventsRoute = new Hono();
+
+eventsRoute.get('/', async (c) => {
+  const externalId = await authenticate(c.req.raw.headers);
+  if (!externalId) return c.json({ error: 'Unauthorised.' }, 401);
+
+  const folders = foldersSchema.safeParse(
+    c.req.query('folders')?.split(',') ?? []
+  );
+  if (!folders.success) return c.json({ error: 'Invalid folders.' }, 400);
+
+  const viewing = new Set(folders.data);
+
+  const cursor = c.req.header('Last-Event-ID') ?? c.req.query('cursor');
+  let position = cursor ? decodeChangeCursor(cursor) : null;
+
+  const findUser = () =>
+    db.query.users.findFirst({
+      where: (users, { eq }) => eq(users.externalId, externalId),
+    });
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      const unsubscribes: (() => void)[] = [];
+
+      // What the loop below has to do next; set by notifications
+      let closed = false;
+      let accountChanged = false;
+      let feedChanged = true;
+      let wake = () => {};
+
+      stream.onAbort(() => {
+        closed = true;
+        wake();
+      });
+
+      // Changes held back behind a transaction still running are
+      // picked up on its own notification, or the next poll
+      const onChanges = () => {
+        feedChanged = true;
+        wake();
+      };
+
+      try {
+        unsubscribes.push(
+          await subscribe('accounts', externalId, () => {
+            accountChanged = true;
+            wake();
+          })
+        );
+
+        let user = await findUser();
+        let listening = false;
+        let lastPoll = Date.now();
+
+        await stream.writeSSE({
+          event: 'account',
+          data: JSON.stringify({ isSynced: Boolean(user) }),
+          retry: RETRY_MS,
+        });
+
+        const deadline = Date.now() + STREAM_MS;
+
+        while (!closed && Date.now() < deadline) {
+          const poll = Date.now() - lastPoll > POLL_MS;
+          if (poll) lastPoll = Date.now();
+
+          if (accountChanged || poll) {
+            accountChanged = false;
+
+            const next = await findUser();
+            if (Boolean(next) !== Boolean(user)) {
+              await stream.writeSSE({
+                event: 'account',
+                data: JSON.stringify({ isSynced: Boolean(next) }),
+              });
+            }
+            user = next;
+          }
+
+          if (!user) {
+            // Account deleted mid-stream: nothing more to send
+            if (listening) return;
+          } else {
+            if (!listening) {
+              unsubscribes.push(
+                await subscribe('entry_changes', user.id, onChanges)
+              );
+              listening = true;
+            }
+
+            if (feedChanged || poll) {
+              feedChanged = false;
+              position = await sendChanges(stream, user.id, position, viewing);
+            }
+          }
+
+          if (closed || accountChanged || feedChanged) continue;
+
+          const woken = await new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => resolve(false), KEEPALIVE_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve(true);
+            };
+          });
+
+          if (!woken && !closed) await stream.write(': keep-alive\n\n');
+        }
+      } finally {
+        for (const unsubscribe of unsubscribes) unsubscribe();
+      }
+    },
+    async (error) => {
+      console.error('Event stream error:', error);
+    }
+  );
+});
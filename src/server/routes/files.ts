@@ -0,0 +1,193 @@
+import { db } from '@/db';
+import { thumbnailSizeNames } from '@/lib/thumbnails';
+import {
+  rateLimit,
+  requireUser,
+  type AuthEnv,
+} from '@/server/routes/middleware';
+import { contentDisposition } from '@/server/routes/serve-entry';
+import { authorizeEntry, authorizeFolder } from '@/server/authorization';
+import { collectArchive, streamArchive } from '@/server/services/archives';
+import { conflictPolicySchema } from '@/server/services/conflicts';
+import { entryNameSchema, toClientEntry } from '@/server/services/files';
+import { getThumbnail } from '@/server/services/thumbnails';
+import { uploadFile, uploadFileVersion } from '@/server/services/uploads';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+// Also describes the route in the REST API's OpenAPI document
+export const uploadQuery = z.object({
+  name: entryNameSchema,
+  parentId: z.uuid().optional(),
+  onConflict: conflictPolicySchema.default('replace'),
+});
+
+// Also describes the route in the REST API's OpenAPI document
+export const contentQuery = z.object({
+  version: z.coerce.number().int().positive().optional(),
+});
+
+// Also describes the route in the REST API's OpenAPI document
+export const zipQuery = z.object({
+  ids: z
+    .string()
+    .transform((ids) => ids.split(','))
+    .pipe(z.array(z.uuid()).min(1).max(1000)),
+});
+
+/**
+ * File Routes
+ *
+ * Byte-level file operations that don't fit tRPC's JSON transport.
+ * Mounted under /api/files and protected by `requireUser`.
+ */
+export const filesRoute = new Hono<AuthEnv>();
+
+filesRoute.use('*', requireUser);
+
+/**
+ * Single-request Upload
+ *
+ * Streams the raw request body into storage, then records the entry.
+ * Query: `name` (required), `parentId` (omit for the root) and
+ * `onConflict` (fail | rename | replace, default replace).
+ * The body's Content-Type becomes the entry's MIME type, and its
+ * Content-Length is reserved against the user's quota before reading.
+ * Replacing a file of the same name adds a new version of it.
+ */
+filesRoute.post('/upload', rateLimit('upload'), async (c) => {
+  const user = c.get('user');
+
+  const query = uploadQuery.safeParse(c.req.query());
+  if (!query.success) return c.json({ error: 'Invalid upload request.' }, 400);
+
+  const body = c.req.raw.body;
+  if (!body) return c.json({ error: 'Missing request body.' }, 400);
+
+  // The size must be known up front to check it against the quota
+  const size = Number(c.req.header('Content-Length'));
+  if (!Number.isSafeInteger(size) || size < 0) {
+    return c.json({ error: 'Content-Length is required.' }, 411);
+  }
+
+  const { name, parentId, onConflict } = query.data;
+
+  const parent = await authorizeFolder(db, user.id, parentId ?? null, 'edit');
+
+  // Files added to a shared folder belong to (and count against) its owner
+  const entry = await uploadFile(db, {
+    ownerId: parent?.owner_id ?? user.id,
+    authorId: user.id,
+    parent,
+    name,
+    onConflict,
+    mimeType: c.req.header('Content-Type') ?? 'application/octet-stream',
+    size,
+    body,
+  });
+
+  return c.json(toClientEntry(entry), 201);
+});
+
+/**
+ * Save File Content
+ *
+ * Replaces a file's content with the raw request body, keeping the
+ * previous content as a version. Requires edit access to the file.
+ * With `version` in the query, the save is refused with 409 unless that
+ * is still the file's version, so a client can't overwrite changes it
+ * hasn't seen.
+ */
+filesRoute.put('/:id/content', rateLimit('upload'), async (c) => {
+  const user = c.get('user');
+
+  const id = z.uuid().safeParse(c.req.param('id'));
+  if (!id.success) return c.json({ error: 'Entry not found.' }, 404);
+
+  const query = contentQuery.safeParse(c.req.query());
+  if (!query.success) return c.json({ error: 'Invalid version.' }, 400);
+
+  const body = c.req.raw.body;
+  if (!body) return c.json({ error: 'Missing request body.' }, 400);
+
+  const size = Number(c.req.header('Content-Length'));
+  if (!Number.isSafeInteger(size) || size < 0) {
+    return c.json({ error: 'Content-Length is required.' }, 411);
+  }
+
+  const { entry } = await authorizeEntry(db, user.id, id.data, 'edit');
+
+  if (entry.is_folder) {
+    return c.json({ error: 'Folders have no content.' }, 400);
+  }
+
+  // A save racing this one is caught by replaceEntryContent instead
+  const { version } = query.data;
+  if (version !== undefined && version !== entry.version) {
+    return c.json({ error: 'The file was changed by someone else.' }, 409);
+  }
+
+  const updated = await uploadFileVersion(db, entry, {
+    authorId: user.id,
+    mimeType: c.req.header('Content-Type') ?? entry.mime_type,
+    size,
+    body,
+  });
+
+  return c.json(toClientEntry(updated));
+});
+
+/**
+ * ZIP Download
+ *
+ * Streams a ZIP of the comma-separated entries in `ids` (one folder,
+ * or a multi-selection), with folders' contents under their names.
+ * The archive is built as it's sent, so no Content-Length is known;
+ * a selection over the size limit is refused with 413 up front.
+ */
+filesRoute.get('/zip', rateLimit('archive'), async (c) => {
+  const user = c.get('user');
+
+  const query = zipQuery.safeParse(c.req.query());
+  if (!query.success) return c.json({ error: 'Invalid selection.' }, 400);
+
+  const items = await collectArchive(db, user.id, query.data.ids);
+
+  // A single folder or file names the archive; otherwise it's generic
+  const name =
+    query.data.ids.length === 1 ? `${items[0].entry.name}.zip` : 'Download.zip';
+
+  return c.body(streamArchive(db, items), 200, {
+    'Cache-Control': 'no-store',
+    'Content-Disposition': contentDisposition('attachment', name),
+    'Content-Type': 'application/zip',
+  });
+});
+
+/**
+ * File Thumbnail
+ *
+ * Serves one of the WebP thumbnails listed with an entry. URLs include
+ * the entry's version, so responses are cached until the content
+ * changes. 404 until the thumbnail job has rendered them.
+ */
+filesRoute.get('/:id/thumbnails/:size', async (c) => {
+  const user = c.get('user');
+
+  const id = z.uuid().safeParse(c.req.param('id'));
+  const size = z.enum(thumbnailSizeNames).safeParse(c.req.param('size'));
+  if (!id.success || !size.success) {
+    return c.json({ error: 'Thumbnail not found.' }, 404);
+  }
+
+  const { entry } = await authorizeEntry(db, user.id, id.data, 'view');
+
+  const object = await getThumbnail(db, entry, size.data);
+  if (!object) return c.json({ error: 'Thumbnail not found.' }, 404);
+
+  return c.body(object.body, 200, {
+    'Content-Type': 'image/webp',
+    'Content-Length': String(object.size),
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  });
+});
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+
+type JSONSchema = z.core.JSONSchema.BaseSchema;
+
+/**
+ * An operation as documented in the OpenAPI spec.
+ */
+export type OperationDoc = {
+  method: 'get' | 'head' | 'post' | 'put' | 'patch' | 'delete';
+  // OpenAPI path template under /api/v1, e.g. `/files/{id}`
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // Path parameters and the rest of the request as one object: the
+  // query string for GET, HEAD and DELETE, otherwise a JSON body
+  input?: z.ZodType;
+  // The body is raw bytes, so the input is all query string
+  binaryBody?: boolean;
+  // Status of a successful response
+  status?: 200 | 201 | 204 | 302;
+};
+
+/**
+ * JSON Schema of the input a zod schema accepts (before defaults and
+ * transforms), with dates as ISO 8601 strings.
+ */
+export const toInputJsonSchema = (schema: z.ZodType): JSONSchema => {
+  const jsonSchema = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+    override: ({ zodSchema, jsonSchema }) => {
+      if (zodSchema._zod.def.type === 'date') {
+        jsonSchema.type = 'string';
+        jsonSchema.format = 'date-time';
+      }
+    },
+  });
+
+  // Embedded in the OpenAPI document, which sets the dialect
+  delete jsonSchema.$schema;
+
+  return jsonSchema;
+};
+
+const pathParams = (path: string) =>
+  [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+
+const successDescriptions = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No content',
+  302: 'Redirect',
+};
+
+/**
+ * The OpenAPI Operation Object for an operation.
+ */
+const toOperationObject = (operation: OperationDoc) => {
+  const schema = operation.input ? toInputJsonSchema(operation.input) : {};
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+
+  const inPath = pathParams(operation.path);
+  const rest = Object.keys(properties).filter((name) => !inPath.includes(name));
+  const inQuery =
+    operation.binaryBody || ['get', 'head', 'delete'].includes(operation.method)
+      ? rest
+      : [];
+
+  const parameters = [
+    ...inPath.map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: properties[name],
+    })),
+    ...inQuery.map((name) => ({
+      name,
+      in: 'query',
+      required: required.has(name),
+      schema: properties[name],
+    })),
+  ];
+
+  const jsonBody = rest.filter((name) => !inQuery.includes(name));
+
+  const requestBody = operation.binaryBody
+    ? {
+        required: true,
+        content: { 'application/octet-stream': { schema: {} } },
+      }
+    : jsonBody.length > 0
+      ? {
+          required: jsonBody.some((name) => required.has(name)),
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: Object.fromEntries(
+                  jsonBody.map((name) => [name, properties[name]])
+                ),
+                required: jsonBody.filter((name) => required.has(name)),
+              },
+            },
+          },
+        }
+      : undefined;
+
+  const status = operation.status ?? 200;
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: operation.description,
+    parameters,
+    requestBody,
+    responses: {
+      [status]: {
+        description: successDescriptions[status],
+        ...(status === 200 || status === 201
+          ? { content: { 'application/json': {} } }
+          : {}),
+      },
+      default: { $ref: '#/components/responses/Error' },
+    },
+  };
+};
+
+/**
+ * Build the OpenAPI 3.1 document for the REST API.
+ */
+export const createOpenApiDocument = (operations: OperationDoc[]) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of operations) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = toOperationObject(operation);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Frisync API',
+      version: '1',
+      description:
+        'REST access to files, folders, uploads, downloads, share links ' +
+        'and search. Authenticate with a personal access token.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ accessToken: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        accessToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description:
+            'A personal access token (`frs_...`) with the `read` scope ' +
+            'for GET requests and `write` for others; share links ' +
+            'need `share`.',
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            // Validation failures, as zod issues
+            issues: { type: 'array', items: { type: 'object' } },
+          },
+          required: ['error'],
+        },
+      },
+      responses: {
+        Error: {
+          description: 'An error; 429 responses carry a `Retry-After` header.',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/Error' },
+            },
+          },
+        },
+      },
+    },
+  };
+};
@@ -0,0 +1,168 @@
+import { db } from '@/db';
+import type { FileSystemEntry } from '@/db/schema';
+import { getBlobStorageKey } from '@/server/services/blobs';
+import { getStorage, type ByteRange } from '@/server/storage';
+import type { Context } from 'hono';
+
+export type Disposition = 'inline' | 'attachment';
+
+// Types a browser shows inline without running anything. Stored types
+// are whatever the uploader sent, so the rest (HTML, SVG, ...) are only
+// ever sent as downloads
+const INLINE_MIME_TYPES = new Set([
+  'text/plain',
+  'application/pdf',
+  'image/avif',
+  'image/bmp',
+  'image/gif',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'audio/aac',
+  'audio/flac',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/ogg',
+  'audio/wav',
+  'audio/webm',
+  'video/mp4',
+  'video/ogg',
+  'video/quicktime',
+  'video/webm',
+]);
+
+/**
+ * Whether content of a MIME type can be served inline.
+ */
+export const isInlineSafe = (mimeType: string) =>
+  INLINE_MIME_TYPES.has(mimeType.split(';')[0].trim().toLowerCase());
+
+/**
+ * Build a Content-Disposition header for a file name.
+ *
+ * Non-ASCII names are sent as RFC 5987 `filename*` with an ASCII
+ * fallback for older clients.
+ */
+export const contentDisposition = (type: Disposition, name: string) => {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Parse a single-range `Range` header against an object size.
+ *
+ * Returns `undefined` when the whole object should be sent (no header,
+ * multiple ranges, or a unit we don't support) and `null` when the
+ * range can't be satisfied.
+ */
+export const parseRange = (header: string | undefined, size: number) => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return undefined;
+
+  const [, startText, endText] = match;
+  let range: ByteRange;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffix = Number(endText);
+    if (!suffix) return null;
+    range = { start: Math.max(size - suffix, 0), end: size - 1 };
+  } else {
+    const start = Number(startText);
+    const end = endText === '' ? size - 1 : Math.min(Number(endText), size - 1);
+    range = { start, end };
+  }
+
+  if (range.start > range.end || range.start >= size) return null;
+
+  return range;
+};
+
+/**
+ * Stream a file entry's bytes as an HTTP response.
+ *
+ * Handles conditional requests (ETag/Last-Modified, derived from the
+ * content version) and single byte ranges so media can seek and
+ * interrupted downloads can resume. `beforeSend` runs only when bytes
+ * are about to be sent (not for a 304 or 416), with the range if any.
+ *
+ * Types that aren't `isInlineSafe` are sent as attachments whatever
+ * `disposition` asks for, and nothing served may be sniffed as another
+ * type or run script with the app's origin.
+ */
+export const serveEntryContent = async (
+  c: Context,
+  entry: FileSystemEntry,
+  disposition: Disposition,
+  beforeSend?: (range: ByteRange | undefined) => Promise<void>
+) => {
+  const etag = `"${entry.id}-${entry.version}"`;
+  const lastModified = entry.content_updated_at.toUTCString();
+
+  const headers: Record<string, string> = {
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=0, must-revalidate',
+    'Content-Disposition': contentDisposition(
+      isInlineSafe(entry.mime_type) ? disposition : 'attachment',
+      entry.name
+    ),
+    'Content-Security-Policy': 'sandbox',
+    'Content-Type': entry.mime_type,
+    ETag: etag,
+    'Last-Modified': lastModified,
+    'X-Content-Type-Options': 'nosniff',
+  };
+
+  // Conditional GET: the client's copy is still current
+  const ifNoneMatch = c.req.header('If-None-Match');
+  const ifModifiedSince = c.req.header('If-Modified-Since');
+
+  if (
+    ifNoneMatch
+      ? ifNoneMatch.split(',').some((tag) => tag.trim() === etag)
+      : ifModifiedSince &&
+        Math.floor(entry.content_updated_at.getTime() / 1000) <=
+          Math.floor(new Date(ifModifiedSince).getTime() / 1000)
+  ) {
+    return c.body(null, 304, headers);
+  }
+
+  // If-Range: only honour the range if the client's copy is unchanged
+  const ifRange = c.req.header('If-Range');
+  const rangeHeader =
+    !ifRange || ifRange === etag || ifRange === lastModified
+      ? c.req.header('Range')
+      : undefined;
+
+  const size = entry.size_bytes;
+  const range = parseRange(rangeHeader, size);
+
+  if (range === null) {
+    return c.body(null, 416, { ...headers, 'Content-Range': `bytes */${size}` });
+  }
+
+  await beforeSend?.(range);
+
+  const key = await getBlobStorageKey(db, entry.blob_id);
+  const object = key && (await getStorage().get(key, range));
+
+  if (!object) return c.json({ error: 'File content not found.' }, 404);
+
+  if (range) {
+    return c.body(object.body, 206, {
+      ...headers,
+      'Content-Length': String(range.end - range.start + 1),
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+    });
+  }
+
+  return c.body(object.body, 200, {
+    ...headers,
+    'Content-Length': String(size),
+  });
+};
@@ -0,0 +1,119 @@
+import { db } from '@/db';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import app from '@/server';
+import { appRouter } from '@/server/routers';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+/**
+ * Share Link Content
+ *
+ * Anyone with a file request link can upload with any Content-Type, so
+ * what's served back through links must never run in the app's origin.
+ * Runs the Hono app against the shared database, in memory on PGlite.
+ */
+describe('share link content', () => {
+  let storageRoot: string;
+  let viewToken: string;
+  let downloadToken: string;
+  const uploaded = new Map<string, string>();
+
+  const upload = async (token: string, name: string, type: string) => {
+    const body = `<script>alert(document.domain)</script>`;
+    const response = await app.request(
+      `/api/share/${token}/upload?name=${encodeURIComponent(name)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': type, 'Content-Length': `${body.length}` },
+        body,
+      }
+    );
+    assert.equal(response.status, 201);
+  };
+
+  const content = (token: string, name: string, query = '') =>
+    app.request(`/api/share/${token}/content/${uploaded.get(name)}${query}`);
+
+  before(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'frisync-test-'));
+    process.env.STORAGE_LOCAL_ROOT = storageRoot;
+
+    await migrate(db as never, { migrationsFolder: 'drizzle' });
+
+    const caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+    await caller.authentication.getDatabaseSyncStatus();
+
+    const folderId = (await caller.files.createFolder({ name: 'Inbox' })).id;
+    const link = (role: 'view' | 'download' | 'upload') =>
+      caller.shares.create({ entryId: folderId, role });
+
+    const { token: uploadToken } = await link('upload');
+    viewToken = (await link('view')).token;
+    downloadToken = (await link('download')).token;
+
+    await upload(uploadToken, 'page.html', 'text/html');
+    await upload(uploadToken, 'notes.txt', 'text/plain; charset=utf-8');
+
+    // Uploaders aren't told the IDs; the listing has them
+    const listing = await app.request(`/api/share/${viewToken}/list`);
+    for (const { id, name } of (await listing.json()).items) {
+      uploaded.set(name, id);
+    }
+  });
+
+  after(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  test('sends safe types inline, unsniffed and sandboxed', async () => {
+    const response = await content(viewToken, 'notes.txt');
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('Content-Disposition')!, /^inline;/);
+    assert.equal(response.headers.get('X-Content-Type-Options'), 'nosniff');
+    assert.equal(response.headers.get('Content-Security-Policy'), 'sandbox');
+  });
+
+  test('only sends other types as downloads', async () => {
+    const response = await content(downloadToken, 'page.html');
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('Content-Disposition')!, /^attachment;/);
+    assert.equal(response.headers.get('X-Content-Type-Options'), 'nosniff');
+    assert.equal(response.headers.get('Content-Security-Policy'), 'sandbox');
+  });
+
+  test('refuses other types through view-only links', async () => {
+    const response = await content(viewToken, 'page.html');
+
+    assert.equal(response.status, 403);
+  });
+
+  test('never lets view-only links download', async () => {
+    const response = await content(
+      viewToken,
+      'notes.txt',
+      '?disposition=attachment'
+    );
+
+    assert.match(response.headers.get('Content-Disposition')!, /^inline;/);
+  });
+
+  test('answers 404 for malformed entry IDs', async () => {
+    const list = await app.request(
+      `/api/share/${viewToken}/list?folderId=not-a-uuid`
+    );
+    const file = await app.request(`/api/share/${viewToken}/content/1234`);
+
+    assert.equal(list.status, 404);
+    assert.equal(file.status, 404);
+  });
+});
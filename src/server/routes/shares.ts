@@ -0,0 +1,213 @@
+import { db } from '@/db';
+import { file_system_entries, type ShareLink } from '@/db/schema';
+import { rateLimit } from '@/server/routes/middleware';
+import { isInlineSafe, serveEntryContent } from '@/server/routes/serve-entry';
+import { entryNameSchema, getAvailableName } from '@/server/services/files';
+import {
+  consumeShareDownload,
+  getSharedEntry,
+  hasShareAccess,
+  resolveShareLink,
+  toPublicEntry,
+  unlockShareLink,
+} from '@/server/services/shares';
+import { uploadFile } from '@/server/services/uploads';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { Hono, type Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+
+// Most children returned by one folder listing
+const LIST_LIMIT = 1000;
+
+const uploadQuery = z.object({
+  name: entryNameSchema,
+  folderId: z.uuid().optional(),
+});
+
+/**
+ * Resolve the link for a request and check it's unlocked.
+ *
+ * The access token from /unlock may come as a header or, for media
+ * tags that can't set headers, as the `access` query param.
+ */
+const resolveUnlockedLink = async (c: Context) => {
+  const resolved = await resolveShareLink(db, c.req.param('token')!);
+
+  const accessToken = c.req.header('X-Share-Access') ?? c.req.query('access');
+  if (!hasShareAccess(resolved.link, accessToken)) {
+    throw new HTTPException(401, { message: 'Password required.' });
+  }
+
+  return resolved;
+};
+
+const requireRole = (link: ShareLink, roles: ShareLink['role'][]) => {
+  if (!roles.includes(link.role)) {
+    throw new HTTPException(403, {
+      message: 'This link does not allow that.',
+    });
+  }
+};
+
+/**
+ * Share Link Routes
+ *
+ * Public (no Clerk session) access to files and folders through a share
+ * link token, mounted under /api/share:
+ *
+ * - GET  /:token                  link info (and the entry once unlocked)
+ * - POST /:token/unlock           exchange a password for an access token
+ * - GET  /:token/list             list a shared folder (?folderId= below it)
+ * - GET  /:token/content/:entryId stream a file (?disposition=attachment)
+ * - POST /:token/upload           upload into a "file request" folder
+ */
+export const sharesRoute = new Hono();
+
+sharesRoute.get('/:token', async (c) => {
+  const { link, entry } = await resolveShareLink(db, c.req.param('token'));
+
+  const accessToken = c.req.header('X-Share-Access') ?? c.req.query('access');
+  const unlocked = hasShareAccess(link, accessToken);
+
+  return c.json({
+    role: link.role,
+    requiresPassword: !unlocked,
+    expiresAt: link.expires_at,
+    entry: unlocked ? toPublicEntry(entry) : null,
+  });
+});
+
+// Tokens are secrets, so their buckets are keyed by hash
+const linkSubject = (c: Context) =>
+  `share:${createHash('sha256').update(c.req.param('token')!).digest('base64url')}`;
+
+// Per client, and per link so attempts spread across addresses still
+// run out
+sharesRoute.post(
+  '/:token/unlock',
+  rateLimit('shareUnlock'),
+  rateLimit('shareUnlockLink', linkSubject),
+  async (c) => {
+    const { link } = await resolveShareLink(db, c.req.param('token'));
+
+    const body = z
+      .object({ password: z.string() })
+      .safeParse(await c.req.json().catch(() => null));
+    if (!body.success) return c.json({ error: 'Password required.' }, 400);
+
+    return c.json(await unlockShareLink(link, body.data.password));
+  }
+);
+
+sharesRoute.get('/:token/list', async (c) => {
+  const { link, entry: root } = await resolveUnlockedLink(c);
+  requireRole(link, ['view', 'download']);
+
+  const folder = await getSharedEntry(db, link, root, c.req.query('folderId'));
+
+  if (!folder.is_folder) {
+    return c.json({ error: 'Not a folder.' }, 400);
+  }
+
+  const children = await db
+    .select()
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.owner_id, link.owner_id),
+        eq(file_system_entries.parent_id, folder.id),
+        eq(file_system_entries.is_deleted, false)
+      )
+    )
+    .orderBy(desc(file_system_entries.is_folder), asc(file_system_entries.name))
+    .limit(LIST_LIMIT);
+
+  return c.json({
+    folder: toPublicEntry(folder),
+    items: children.map(toPublicEntry),
+  });
+});
+
+sharesRoute.get('/:token/content/:entryId', async (c) => {
+  const { link, entry: root } = await resolveUnlockedLink(c);
+  requireRole(link, ['view', 'download']);
+
+  const entry = await getSharedEntry(db, link, root, c.req.param('entryId'));
+
+  if (entry.is_folder) {
+    return c.json({ error: 'Folders cannot be downloaded.' }, 400);
+  }
+
+  // View-only links can preview but never save, so can't have types
+  // that are only ever sent as downloads (anyone may upload HTML)
+  const previewable = isInlineSafe(entry.mime_type);
+  if (!previewable && link.role !== 'download') {
+    return c.json({ error: "This file can't be previewed." }, 403);
+  }
+
+  const disposition =
+    link.role === 'download' &&
+    (!previewable || c.req.query('disposition') === 'attachment')
+      ? 'attachment'
+      : 'inline';
+
+  return serveEntryContent(c, entry, disposition, async (range) => {
+    // A limited link pays for every response with bytes, inline or
+    // ranged, or the limit could be dodged; otherwise count whole
+    // downloads, not every range request a video player makes
+    if (
+      link.max_downloads !== null ||
+      (disposition === 'attachment' && (!range || range.start === 0))
+    ) {
+      await consumeShareDownload(db, link);
+    }
+  });
+});
+
+sharesRoute.post('/:token/upload', rateLimit('upload'), async (c) => {
+  const { link, entry: root } = await resolveUnlockedLink(c);
+  requireRole(link, ['upload']);
+
+  const query = uploadQuery.safeParse(c.req.query());
+  if (!query.success) return c.json({ error: 'Invalid upload request.' }, 400);
+
+  const body = c.req.raw.body;
+  if (!body) return c.json({ error: 'Missing request body.' }, 400);
+
+  const size = Number(c.req.header('Content-Length'));
+  if (!Number.isSafeInteger(size) || size < 0) {
+    return c.json({ error: 'Content-Length is required.' }, 411);
+  }
+
+  const folder = await getSharedEntry(db, link, root, query.data.folderId);
+
+  if (!folder.is_folder) {
+    return c.json({ error: 'Not a folder.' }, 400);
+  }
+
+  // Uploaders can't see the folder, so never overwrite or clash
+  const name = await getAvailableName(
+    db,
+    link.owner_id,
+    folder.id,
+    query.data.name,
+    false
+  );
+
+  // Stored in, and charged to, the link owner's drive
+  // Anonymous uploads never overwrite the owner's files
+  const entry = await uploadFile(db, {
+    ownerId: link.owner_id,
+    authorId: null,
+    parent: folder,
+    name,
+    onConflict: 'rename',
+    mimeType: c.req.header('Content-Type') ?? 'application/octet-stream',
+    size,
+    body,
+  });
+
+  return c.json({ name: entry.name, size_bytes: entry.size_bytes }, 201);
+});
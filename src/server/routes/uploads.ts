@@ -0,0 +1,188 @@
+import { db } from '@/db';
+import type { UploadSession } from '@/db/schema';
+import {
+  rateLimit,
+  requireUser,
+  type AuthEnv,
+} from '@/server/routes/middleware';
+import { conflictPolicySchema } from '@/server/services/conflicts';
+import { entryNameSchema, toClientEntry } from '@/server/services/files';
+import {
+  abortUploadSession,
+  appendUploadChunk,
+  createUploadSession,
+  finalizeUploadSession,
+  getUserUploadSession,
+  uploadDuplicate,
+} from '@/server/services/uploads';
+import { Hono } from 'hono';
+import { z } from 'zod';
+
+// tus protocol version these routes follow
+const TUS_VERSION = '1.0.0';
+
+// Also describes the route in the REST API's OpenAPI document
+export const createUploadBody = z.object({
+  name: entryNameSchema,
+  parentId: z.uuid().nullable().default(null),
+  mimeType: z.string().min(1).default('application/octet-stream'),
+  size: z.number().int().min(0),
+  sha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
+  onConflict: conflictPolicySchema.default('replace'),
+});
+
+// Progress headers shared by HEAD, PATCH and PUT responses
+const progressHeaders = (session: UploadSession) => ({
+  'Tus-Resumable': TUS_VERSION,
+  'Upload-Offset': String(session.offset),
+  'Upload-Length': String(session.size_bytes),
+  'Upload-Expires': session.expires_at.toUTCString(),
+  'Cache-Control': 'no-store',
+});
+
+/**
+ * Upload Routes
+ *
+ * A resumable, tus-style upload protocol for files too large to send in
+ * one request:
+ *
+ * 1. POST   /api/uploads               create a session (JSON body)
+ * 2. PATCH  /api/uploads/:id           send a chunk at `Upload-Offset`
+ *    (PUT is accepted as an alias)
+ * 3. HEAD   /api/uploads/:id           read the current offset to resume
+ *    (GET returns the same as JSON)
+ * 4. POST   /api/uploads/:id/finalize  create the file entry
+ *
+ * The create body's `onConflict` (fail | rename | replace, default
+ * replace) decides what happens if the name is taken at finalize.
+ *
+ * If the body includes the content's `sha256` (lowercase hex) and the
+ * user already stores identical content, the file is created right away
+ * and the response is `{ entry, deduplicated: true }` instead of a
+ * session. Otherwise the bytes are uploaded as usual and hashed in the
+ * background after finalize (see `hashPendingBlobs`).
+ *
+ * DELETE /api/uploads/:id aborts a session. Idle sessions expire and are
+ * cleaned up by the cron route.
+ */
+export const uploadsRoute = new Hono<AuthEnv>();
+
+uploadsRoute.use('*', requireUser);
+
+uploadsRoute.post('/', rateLimit('upload'), async (c) => {
+  const user = c.get('user');
+
+  const body = createUploadBody.safeParse(await c.req.json().catch(() => null));
+  if (!body.success) return c.json({ error: 'Invalid upload request.' }, 400);
+
+  if (body.data.sha256) {
+    const entry = await uploadDuplicate(db, user.id, {
+      ...body.data,
+      sha256: body.data.sha256,
+    });
+
+    if (entry) {
+      return c.json({ entry: toClientEntry(entry), deduplicated: true }, 201);
+    }
+  }
+
+  const session = await createUploadSession(db, user.id, body.data);
+
+  return c.json(
+    {
+      id: session.id,
+      offset: session.offset,
+      size: session.size_bytes,
+      expiresAt: session.expires_at,
+    },
+    201,
+    {
+      ...progressHeaders(session),
+      Location: `/api/uploads/${session.id}`,
+    }
+  );
+});
+
+uploadsRoute.get('/:id', async (c) => {
+  const session = await getUserUploadSession(
+    db,
+    c.get('user').id,
+    c.req.param('id')
+  );
+
+  return c.json(
+    {
+      id: session.id,
+      offset: session.offset,
+      size: session.size_bytes,
+      expiresAt: session.expires_at,
+    },
+    200,
+    progressHeaders(session)
+  );
+});
+
+uploadsRoute.on('HEAD', '/:id', async (c) => {
+  const session = await getUserUploadSession(
+    db,
+    c.get('user').id,
+    c.req.param('id')
+  );
+
+  return c.body(null, 200, progressHeaders(session));
+});
+
+uploadsRoute.on(['PATCH', 'PUT'], '/:id', async (c) => {
+  const session = await getUserUploadSession(
+    db,
+    c.get('user').id,
+    c.req.param('id')
+  );
+
+  const offset = Number(c.req.header('Upload-Offset'));
+  const length = Number(c.req.header('Content-Length'));
+  const body = c.req.raw.body;
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return c.json({ error: 'Missing or invalid Upload-Offset.' }, 400);
+  }
+
+  if (!Number.isSafeInteger(length) || length <= 0 || !body) {
+    return c.json({ error: 'Missing or invalid Content-Length.' }, 400);
+  }
+
+  const updated = await appendUploadChunk(db, session, {
+    offset,
+    length,
+    body,
+  });
+
+  return c.body(null, 204, progressHeaders(updated));
+});
+
+uploadsRoute.post('/:id/finalize', async (c) => {
+  const session = await getUserUploadSession(
+    db,
+    c.get('user').id,
+    c.req.param('id')
+  );
+
+  const entry = await finalizeUploadSession(db, session);
+
+  return c.json(toClientEntry(entry), 201);
+});
+
+uploadsRoute.delete('/:id', async (c) => {
+  const session = await getUserUploadSession(
+    db,
+    c.get('user').id,
+    c.req.param('id')
+  );
+
+  await abortUploadSession(db, session);
+
+  return c.body(null, 204, { 'Tus-Resumable': TUS_VERSION });
+});
@@ -0,0 +1,351 @@
+import { db } from '@/db';
+import { getAuth } from '@/server/auth';
+import { appRouter } from '@/server/routers';
+import { filesInputSchemas } from '@/server/routers/files-router';
+import { searchInputSchemas } from '@/server/routers/search-router';
+import { sharesInputSchemas } from '@/server/routers/shares-router';
+import {
+  contentQuery,
+  filesRoute,
+  uploadQuery,
+  zipQuery,
+} from '@/server/routes/files';
+import {
+  createOpenApiDocument,
+  toInputJsonSchema,
+  type OperationDoc,
+} from '@/server/routes/openapi';
+import { createUploadBody, uploadsRoute } from '@/server/routes/uploads';
+import { Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { z } from 'zod';
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+/**
+ * A REST operation backed by a tRPC procedure. `input` is the
+ * procedure's input schema (or derived from it), so requests are
+ * validated the same way over both transports.
+ */
+type Operation<Input extends z.ZodType = z.ZodType> = OperationDoc & {
+  input: Input;
+  call(caller: Caller, input: z.output<Input>): Promise<unknown>;
+};
+
+// Infers `call`'s input from the schema
+const operation = <Input extends z.ZodType>(op: Operation<Input>) => op;
+
+const idSchema = z.object({ id: z.uuid() });
+
+const operations: Operation[] = [
+  operation({
+    method: 'get',
+    path: '/files',
+    tag: 'Files',
+    summary: 'List a folder',
+    description:
+      'Children of `parentId` (the root when omitted), folders first. ' +
+      'Pass `nextCursor` back as `cursor` for the next page.',
+    input: filesInputSchemas.list,
+    call: (caller, input) => caller.files.list(input),
+  }),
+  operation({
+    method: 'get',
+    path: '/files/{id}',
+    tag: 'Files',
+    summary: 'Get a file or folder',
+    input: filesInputSchemas.get,
+    call: (caller, input) => caller.files.get(input),
+  }),
+  operation({
+    method: 'post',
+    path: '/files/{id}/rename',
+    tag: 'Files',
+    summary: 'Rename a file or folder',
+    input: filesInputSchemas.rename,
+    call: (caller, input) => caller.files.rename(input),
+  }),
+  operation({
+    method: 'post',
+    path: '/files/{id}/move',
+    tag: 'Files',
+    summary: 'Move a file or folder',
+    description: 'A `parentId` of null moves it to the root.',
+    input: filesInputSchemas.move,
+    call: (caller, input) => caller.files.move(input),
+  }),
+  operation({
+    method: 'put',
+    path: '/files/{id}/star',
+    tag: 'Files',
+    summary: 'Star a file or folder',
+    input: idSchema,
+    call: (caller, input) =>
+      caller.files.setStarred({ ...input, isStarred: true }),
+  }),
+  operation({
+    method: 'delete',
+    path: '/files/{id}/star',
+    tag: 'Files',
+    summary: 'Unstar a file or folder',
+    input: idSchema,
+    call: (caller, input) =>
+      caller.files.setStarred({ ...input, isStarred: false }),
+  }),
+  operation({
+    method: 'delete',
+    path: '/files/{id}',
+    tag: 'Files',
+    summary: 'Move a file or folder to the trash',
+    input: filesInputSchemas.trash,
+    call: (caller, input) => caller.files.trash(input),
+  }),
+  operation({
+    method: 'post',
+    path: '/folders',
+    tag: 'Folders',
+    summary: 'Create a folder',
+    input: filesInputSchemas.createFolder,
+    status: 201,
+    call: (caller, input) => caller.files.createFolder(input),
+  }),
+  operation({
+    method: 'get',
+    path: '/files/{id}/download',
+    tag: 'Downloads',
+    summary: 'Download a file',
+    description: 'Redirects to a signed URL for the content, valid briefly.',
+    input: filesInputSchemas.getDownloadUrl,
+    status: 302,
+    call: (caller, input) => caller.files.getDownloadUrl(input),
+  }),
+  operation({
+    method: 'get',
+    path: '/shares',
+    tag: 'Shares',
+    summary: 'List share links',
+    description: "All of the caller's links, or those for `entryId`.",
+    input: sharesInputSchemas.list,
+    call: (caller, input) => caller.shares.list(input),
+  }),
+  operation({
+    method: 'post',
+    path: '/shares',
+    tag: 'Shares',
+    summary: 'Create a share link',
+    input: sharesInputSchemas.create,
+    status: 201,
+    call: (caller, input) => caller.shares.create(input),
+  }),
+  operation({
+    method: 'delete',
+    path: '/shares/{id}',
+    tag: 'Shares',
+    summary: 'Revoke a share link',
+    input: sharesInputSchemas.revoke,
+    call: (caller, input) => caller.shares.revoke(input),
+  }),
+  operation({
+    method: 'get',
+    path: '/search',
+    tag: 'Search',
+    summary: 'Search files',
+    description:
+      'Matches names, paths and file contents, most relevant first, ' +
+      'within `folderId` when given.',
+    input: searchInputSchemas.query,
+    call: (caller, input) => caller.search.query(input),
+  }),
+];
+
+/**
+ * Byte transfers, served by the same Hono routes as under /api (see
+ * routes/files.ts and routes/uploads.ts); documented here only.
+ */
+const transferDocs: OperationDoc[] = [
+  {
+    method: 'post',
+    path: '/files/upload',
+    tag: 'Uploads',
+    summary: 'Upload a file in one request',
+    description:
+      'The body is the content, with its `Content-Type` and ' +
+      '`Content-Length`. Replacing a file adds a version of it.',
+    input: uploadQuery,
+    binaryBody: true,
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/files/{id}/content',
+    tag: 'Uploads',
+    summary: "Replace a file's content",
+    description:
+      'With `version`, fails with 409 unless the file is still at that ' +
+      'version.',
+    input: idSchema.extend(contentQuery.shape),
+    binaryBody: true,
+  },
+  {
+    method: 'post',
+    path: '/uploads',
+    tag: 'Uploads',
+    summary: 'Start a resumable upload',
+    description:
+      'tus-style: send chunks with `PATCH /uploads/{id}` at the ' +
+      '`Upload-Offset` header, then finalize. With a matching `sha256` ' +
+      'of content already stored, the file is created at once.',
+    input: createUploadBody,
+    status: 201,
+  },
+  {
+    method: 'patch',
+    path: '/uploads/{id}',
+    tag: 'Uploads',
+    summary: 'Send a chunk of a resumable upload',
+    description: 'Requires `Upload-Offset` and `Tus-Resumable` headers.',
+    input: idSchema,
+    binaryBody: true,
+    status: 204,
+  },
+  {
+    method: 'get',
+    path: '/uploads/{id}',
+    tag: 'Uploads',
+    summary: "Get a resumable upload's progress",
+    input: idSchema,
+  },
+  {
+    method: 'post',
+    path: '/uploads/{id}/finalize',
+    tag: 'Uploads',
+    summary: 'Finish a resumable upload',
+    input: idSchema,
+    status: 201,
+  },
+  {
+    method: 'delete',
+    path: '/uploads/{id}',
+    tag: 'Uploads',
+    summary: 'Abort a resumable upload',
+    input: idSchema,
+    status: 204,
+  },
+  {
+    method: 'get',
+    path: '/files/zip',
+    tag: 'Downloads',
+    summary: 'Download files and folders as a ZIP archive',
+    description: '`ids` is a comma-separated list of entry IDs.',
+    input: zipQuery,
+  },
+];
+
+const openApiDocument = createOpenApiDocument([...operations, ...transferDocs]);
+
+/**
+ * Read a query string value as the JSON type its schema expects
+ * (query strings are all strings, procedure inputs aren't).
+ */
+const parseQueryValue = (
+  value: string,
+  schema: z.core.JSONSchema._JSONSchema | undefined
+) => {
+  if (typeof schema !== 'object') return value;
+
+  const types = [schema, ...(schema.anyOf ?? [])].flatMap((option) =>
+    typeof option === 'object' ? [option.type].flat() : []
+  );
+
+  if (types.includes('null') && value === 'null') return null;
+
+  if (
+    (types.includes('integer') || types.includes('number')) &&
+    value.trim() !== '' &&
+    !Number.isNaN(Number(value))
+  ) {
+    return Number(value);
+  }
+
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+
+  return value;
+};
+
+/**
+ * REST API v1
+ *
+ * Mounted under /api/v1 for clients that don't speak tRPC, with an
+ * OpenAPI 3.1 document at /api/v1/openapi.json. Each operation calls
+ * its tRPC procedure in-process, so authentication (sessions or
+ * personal access tokens), scopes, rate limits and errors all behave
+ * as they do over tRPC.
+ *
+ * Path parameters and the query string (GET and DELETE) or JSON body
+ * (otherwise) make up the procedure's input. Invalid input gets a 400
+ * with the validation `issues`.
+ */
+export const v1Route = new Hono();
+
+v1Route.get('/openapi.json', (c) => c.json(openApiDocument));
+
+for (const op of operations) {
+  const schema = toInputJsonSchema(op.input);
+  // Only IDs go in paths, so `/files/zip` isn't taken for `/files/{id}`
+  const path = op.path.replace(/\{(\w+)\}/g, ':$1{[0-9a-fA-F-]{36}}');
+
+  v1Route.on(op.method.toUpperCase(), path, async (c) => {
+    let params: unknown;
+
+    if (op.method === 'get' || op.method === 'delete') {
+      params = Object.fromEntries(
+        Object.entries(c.req.query()).map(([name, value]) => [
+          name,
+          parseQueryValue(value, schema.properties?.[name]),
+        ])
+      );
+    } else {
+      const body = await c.req.text();
+
+      try {
+        params = body ? JSON.parse(body) : {};
+      } catch {
+        return c.json({ error: 'Invalid JSON body.' }, 400);
+      }
+    }
+
+    const input = op.input.safeParse({
+      ...(params as object),
+      ...c.req.param(),
+    });
+    if (!input.success) {
+      return c.json(
+        { error: 'Invalid request.', issues: input.error.issues },
+        400
+      );
+    }
+
+    const resHeaders = new Headers();
+    const caller = appRouter.createCaller({
+      db,
+      auth: getAuth(),
+      headers: c.req.raw.headers,
+      resHeaders,
+    });
+
+    const result = await op.call(caller, input.data);
+
+    // Rate limit headers set by the procedure
+    resHeaders.forEach((value, name) => c.header(name, value));
+
+    if (op.status === 302) return c.redirect((result as { url: string }).url);
+
+    return c.json(result, (op.status ?? 200) as ContentfulStatusCode);
+  });
+}
+
+// Byte transfers, after the operations so `/files/{id}` matches first
+v1Route.route('/files', filesRoute);
+v1Route.route('/uploads', uploadsRoute);
@@ -0,0 +1,66 @@
+import { db } from '@/db';
+import { deleteUserByExternalId, upsertUser } from '@/server/services/users';
+import { verifyWebhook } from '@clerk/nextjs/webhooks';
+import type { UserJSON } from '@clerk/nextjs/server';
+import { Hono } from 'hono';
+import { NextRequest } from 'next/server';
+
+/**
+ * Pick the primary email address from a Clerk user payload,
+ * falling back to the first address when no primary is set.
+ */
+const getPrimaryEmail = (data: UserJSON) => {
+  const primary = data.email_addresses.find(
+    ({ id }) => id === data.primary_email_address_id
+  );
+
+  return (primary ?? data.email_addresses[0])?.email_address;
+};
+
+/**
+ * Webhook Routes
+ *
+ * Mounted under /api/webhooks, which `src/middleware.ts` leaves public.
+ * Every request is authenticated by its Svix signature instead of a
+ * Clerk session.
+ */
+export const webhooksRoute = new Hono();
+
+/**
+ * Clerk Webhook Receiver
+ *
+ * Keeps the `users` table in sync with Clerk so accounts exist even when
+ * the user never visits /welcome. Handlers are idempotent because Svix
+ * retries deliveries that don't get a 2xx response.
+ */
+webhooksRoute.post('/clerk', async (c) => {
+  let event;
+
+  try {
+    // Reads CLERK_WEBHOOK_SIGNING_SECRET and checks the svix-* headers
+    event = await verifyWebhook(new NextRequest(c.req.raw));
+  } catch (error) {
+    console.error('Clerk webhook verification failed:', error);
+    return c.json({ error: 'Invalid signature' }, 400);
+  }
+
+  switch (event.type) {
+    case 'user.created':
+    case 'user.updated': {
+      const email = getPrimaryEmail(event.data);
+
+      // Users without an email can't be mirrored; acknowledge and move on
+      if (!email) break;
+
+      await upsertUser(db, { externalId: event.data.id, email });
+      break;
+    }
+
+    case 'user.deleted': {
+      if (event.data.id) await deleteUserByExternalId(db, event.data.id);
+      break;
+    }
+  }
+
+  return c.json({ received: true });
+});
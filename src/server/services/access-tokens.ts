@@ -0,0 +1,165 @@
+import type { Database } from '@/db';
+import {
+  access_tokens,
+  users,
+  type AccessToken,
+  type AccessTokenScope,
+} from '@/db/schema';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { createHash, randomBytes } from 'node:crypto';
+
+// Marks personal access tokens, telling them apart from Clerk session
+// tokens sent the same way
+export const ACCESS_TOKEN_PREFIX = 'frs_';
+
+// Characters of a token kept in the clear to identify it in listings
+const DISPLAY_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 6;
+
+// `last_used_at` is only rewritten once it's this stale
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * Read a personal access token from an `Authorization: Bearer` header.
+ *
+ * Returns null for anything else, including bearer Clerk session
+ * tokens, which are left to Clerk.
+ */
+export const getBearerAccessToken = (authorization?: string | null) => {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+
+  return match?.[1].startsWith(ACCESS_TOKEN_PREFIX) ? match[1] : null;
+};
+
+/**
+ * Whether a token's scopes allow `scope`; `admin` allows everything.
+ */
+export const hasScope = (scopes: AccessTokenScope[], scope: AccessTokenScope) =>
+  scopes.includes(scope) || scopes.includes('admin');
+
+/**
+ * Resolve a personal access token to its user and scopes.
+ *
+ * Returns null for unknown, revoked and expired tokens. Records when
+ * the token was last used.
+ */
+export const authenticateAccessToken = async (db: Database, token: string) => {
+  const [found] = await db
+    .select({ token: access_tokens, user: users })
+    .from(access_tokens)
+    .innerJoin(users, eq(users.id, access_tokens.user_id))
+    .where(
+      and(
+        eq(access_tokens.token_hash, hashToken(token)),
+        isNull(access_tokens.revoked_at)
+      )
+    );
+
+  if (!found) return null;
+  if (found.token.expires_at && found.token.expires_at <= new Date()) {
+    return null;
+  }
+
+  const lastUsed = found.token.last_used_at?.getTime() ?? 0;
+  if (Date.now() - lastUsed > LAST_USED_PRECISION_MS) {
+    await db
+      .update(access_tokens)
+      .set({ last_used_at: new Date() })
+      .where(eq(access_tokens.id, found.token.id));
+  }
+
+  return { user: found.user, scopes: found.token.scopes };
+};
+
+/**
+ * User's view of an access token - everything except the hash.
+ */
+export const toClientAccessToken = (token: AccessToken) => ({
+  id: token.id,
+  name: token.name,
+  prefix: token.token_prefix,
+  scopes: token.scopes,
+  expires_at: token.expires_at,
+  last_used_at: token.last_used_at,
+  revoked_at: token.revoked_at,
+  created_at: token.created_at,
+});
+
+/**
+ * Create a personal access token.
+ *
+ * Returns the token itself along with its record; it can't be
+ * recovered later, as only its hash is stored.
+ */
+export const createAccessToken = async (
+  db: Database,
+  userId: string,
+  input: {
+    name: string;
+    scopes: AccessTokenScope[];
+    expiresAt?: Date | null;
+  }
+) => {
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'The expiry date must be in the future.',
+    });
+  }
+
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const [record] = await db
+    .insert(access_tokens)
+    .values({
+      user_id: userId,
+      name: input.name,
+      token_hash: hashToken(token),
+      token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(input.scopes)],
+      expires_at: input.expiresAt ?? null,
+    })
+    .returning();
+
+  return { token, record };
+};
+
+/**
+ * List a user's access tokens, newest first.
+ */
+export const listAccessTokens = async (db: Database, userId: string) =>
+  db
+    .select()
+    .from(access_tokens)
+    .where(eq(access_tokens.user_id, userId))
+    .orderBy(desc(access_tokens.created_at));
+
+/**
+ * Revoke one of the user's access tokens.
+ */
+export const revokeAccessToken = async (
+  db: Database,
+  userId: string,
+  id: string
+) => {
+  const [token] = await db
+    .update(access_tokens)
+    .set({ revoked_at: new Date() })
+    .where(
+      and(
+        eq(access_tokens.id, id),
+        eq(access_tokens.user_id, userId),
+        isNull(access_tokens.revoked_at)
+      )
+    )
+    .returning();
+
+  if (!token) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Token not found.' });
+  }
+
+  return token;
+};
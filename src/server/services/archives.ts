@@ -0,0 +1,162 @@
+import type { Database } from '@/db';
+import type { FileSystemEntry } from '@/db/schema';
+import { authorizeEntry } from '@/server/authorization';
+import { getBlobStorageKey } from '@/server/services/blobs';
+import { getSubtree } from '@/server/services/files';
+import { mimeCategoryOf } from '@/server/services/mime';
+import { createZipStream, type ZipEntry } from '@/server/services/zip';
+import { getStorage } from '@/server/storage';
+import { TRPCError } from '@trpc/server';
+
+// Largest selection (total file bytes) downloadable as one ZIP
+export const ARCHIVE_MAX_BYTES = Number(
+  process.env.ARCHIVE_MAX_BYTES ?? 10 * 1024 * 1024 * 1024
+);
+
+// Already compressed; deflating them again only costs CPU
+const STORED_CATEGORIES = new Set(['image', 'video', 'audio', 'archive']);
+
+// An entry placed in the archive at `path`
+type ArchiveItem = { path: string; entry: FileSystemEntry };
+
+/**
+ * Give a name that's unique (case-insensitively, as on most desktops)
+ * among those already used in an archive folder: "a.txt", then
+ * "a (2).txt", "a (3).txt", ...
+ */
+const claimName = (used: Set<string>, name: string, isFolder: boolean) => {
+  const dot = name.lastIndexOf('.');
+  const hasExtension = !isFolder && dot > 0;
+  const base = hasExtension ? name.slice(0, dot) : name;
+  const extension = hasExtension ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Resolve a selection into everything that goes in its ZIP: the
+ * selected entries at the top level and, for folders, their non-trashed
+ * contents beneath them.
+ *
+ * Every selected entry must be viewable by the user; access to a folder
+ * covers its contents. Entries selected along with a folder that
+ * contains them are only included once. Throws PAYLOAD_TOO_LARGE before
+ * anything is read when the files add up to more than
+ * `ARCHIVE_MAX_BYTES`.
+ */
+export const collectArchive = async (
+  db: Database,
+  userId: string,
+  ids: string[]
+) => {
+  const roots: FileSystemEntry[] = [];
+  for (const id of new Set(ids)) {
+    roots.push((await authorizeEntry(db, userId, id, 'view')).entry);
+  }
+
+  const subtrees = new Map<string, FileSystemEntry[]>();
+  for (const root of roots) {
+    if (root.is_folder) {
+      subtrees.set(root.id, await getSubtree(db, root.owner_id, root));
+    }
+  }
+
+  // Selected entries that are inside another selected folder
+  const nested = new Set(
+    [...subtrees].flatMap(([rootId, subtree]) =>
+      subtree.filter(({ id }) => id !== rootId).map(({ id }) => id)
+    )
+  );
+
+  const items: ArchiveItem[] = [];
+  const usedNames = new Map<string, Set<string>>();
+
+  const place = (folderPath: string, entry: FileSystemEntry) => {
+    const used = usedNames.get(folderPath) ?? new Set<string>();
+    usedNames.set(folderPath, used);
+
+    const name = claimName(used, entry.name, entry.is_folder);
+    const path = folderPath ? `${folderPath}/${name}` : name;
+
+    items.push({ path, entry });
+    return path;
+  };
+
+  for (const root of roots) {
+    if (nested.has(root.id)) continue;
+
+    const rootPath = place('', root);
+    const subtree = subtrees.get(root.id);
+    if (!subtree) continue;
+
+    const children = new Map<string | null, FileSystemEntry[]>();
+    for (const entry of subtree) {
+      const siblings = children.get(entry.parent_id) ?? [];
+      siblings.push(entry);
+      children.set(entry.parent_id, siblings);
+    }
+
+    // Breadth-first, so every folder is placed before its contents
+    const queue = [{ id: root.id, path: rootPath }];
+    for (const folder of queue) {
+      for (const child of children.get(folder.id) ?? []) {
+        const path = place(folder.path, child);
+        if (child.is_folder) queue.push({ id: child.id, path });
+      }
+    }
+  }
+
+  const totalBytes = items.reduce(
+    (total, { entry }) => total + (entry.is_folder ? 0 : entry.size_bytes),
+    0
+  );
+
+  if (totalBytes > ARCHIVE_MAX_BYTES) {
+    const limit = Math.floor(ARCHIVE_MAX_BYTES / (1024 * 1024));
+    throw new TRPCError({
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `The selection is too large to download as a ZIP (limit ${limit} MB).`,
+    });
+  }
+
+  return items;
+};
+
+/**
+ * Stream the ZIP of a collected selection. File bytes are fetched from
+ * storage one file at a time, as the archive is read.
+ */
+export const streamArchive = (db: Database, items: ArchiveItem[]) =>
+  createZipStream(
+    items.map(({ path, entry }): ZipEntry => {
+      if (entry.is_folder) {
+        return {
+          name: `${path}/`,
+          modifiedAt: entry.updated_at,
+          size: 0,
+          compress: false,
+        };
+      }
+
+      return {
+        name: path,
+        modifiedAt: entry.content_updated_at,
+        size: entry.size_bytes,
+        compress: !STORED_CATEGORIES.has(mimeCategoryOf(entry.mime_type)),
+        open: async () => {
+          const key = await getBlobStorageKey(db, entry.blob_id);
+          const object = key ? await getStorage().get(key) : null;
+
+          if (!object) throw new Error(`Content of ${entry.id} is missing.`);
+
+          return object.body;
+        },
+      };
+    })
+  );
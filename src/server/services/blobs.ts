@@ -0,0 +1,309 @@
+import type { Database } from '@/db';
+import { blobs, file_system_entries, file_versions } from '@/db/schema';
+import { thumbnailSizeNames, type ThumbnailSize } from '@/lib/thumbnails';
+import { getStorage, hashBytes } from '@/server/storage';
+import { and, eq, exists, inArray, isNull, lte, sql } from 'drizzle-orm';
+
+/**
+ * Blob Storage
+ *
+ * File contents are stored once per distinct SHA-256 and shared by
+ * every entry and version with those bytes. Each row pointing at a
+ * blob holds one reference; a blob and its stored object are deleted
+ * only once its reference count drops to zero.
+ */
+
+// Unhashed blobs hashed per backfill run
+const HASH_BATCH_SIZE = 20;
+
+/**
+ * Delete objects from storage, logging rather than throwing on failure.
+ *
+ * Used after the rows referencing the objects are gone, where a failed
+ * delete should leave an orphan rather than fail the request.
+ */
+export const deleteStoredObjects = async (keys: string[]) => {
+  const storage = getStorage();
+
+  const results = await Promise.allSettled(
+    keys.map((key) => storage.delete(key))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to delete object ${keys[index]}:`, result.reason);
+    }
+  });
+};
+
+/**
+ * Storage key of one of a blob's thumbnails. Derived rather than
+ * stored, so the thumbnails can be found from the blob alone.
+ */
+export const thumbnailStorageKey = (blobId: string, size: ThumbnailSize) =>
+  `thumbnails/${blobId}/${size}.webp`;
+
+/**
+ * Delete every thumbnail stored for the given blobs.
+ */
+const deleteThumbnails = (blobIds: string[]) =>
+  deleteStoredObjects(
+    blobIds.flatMap((id) =>
+      thumbnailSizeNames.map((size) => thumbnailStorageKey(id, size))
+    )
+  );
+
+/**
+ * Hash an object that's already in storage.
+ *
+ * Multipart uploads are assembled by the storage backend, so their
+ * bytes never pass through one request and have to be read back.
+ */
+const hashStoredObject = async (key: string) => {
+  const object = await getStorage().get(key);
+  if (!object) throw new Error(`Stored object ${key} not found`);
+
+  const { stream, getSha256 } = hashBytes(object.body);
+  await stream.pipeTo(new WritableStream());
+
+  return getSha256();
+};
+
+/**
+ * Look up where a blob's bytes are stored, or null if it's gone.
+ */
+export const getBlobStorageKey = async (
+  db: Database,
+  blobId: string | null
+) => {
+  if (!blobId) return null;
+
+  const blob = await db.query.blobs.findFirst({
+    columns: { storage_key: true },
+    where: eq(blobs.id, blobId),
+  });
+
+  return blob?.storage_key ?? null;
+};
+
+/**
+ * Register newly stored content as a blob, holding one reference for
+ * the caller.
+ *
+ * If a blob with the same hash already exists, a reference is taken on
+ * it instead and the new, duplicate object is deleted from storage.
+ * Content not hashed yet (`sha256: null`) is always stored as a new
+ * blob, and merged into any duplicate once `hashPendingBlobs` gets to it.
+ */
+export const adoptBlob = async (
+  db: Database,
+  {
+    storageKey,
+    sha256,
+    size,
+  }: { storageKey: string; sha256: string | null; size: number }
+) => {
+  const [blob] = await db
+    .insert(blobs)
+    .values({ sha256, storage_key: storageKey, size_bytes: size, ref_count: 1 })
+    .onConflictDoUpdate({
+      target: blobs.sha256,
+      set: { ref_count: sql`${blobs.ref_count} + 1` },
+    })
+    .returning();
+
+  if (blob.storage_key !== storageKey) {
+    await deleteStoredObjects([storageKey]);
+  }
+
+  return blob;
+};
+
+/**
+ * Query adding `delta` references per occurrence of each ID. Unexecuted,
+ * so it can be batched with the writes that add or drop the references.
+ */
+const blobReferencesQuery = (db: Database, ids: string[], delta: 1 | -1) => {
+  const counts = new Map<string, number>();
+  ids.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + delta));
+
+  return db.execute(sql`
+    update ${blobs} set ref_count = ${blobs.ref_count} + refs.delta
+    from (values ${sql.join(
+      [...counts].map(([id, n]) => sql`(${id}::uuid, ${n}::int)`),
+      sql`, `
+    )}) as refs(id, delta)
+    where ${blobs.id} = refs.id
+  `);
+};
+
+/**
+ * Take references on blobs for new rows pointing at them (e.g. copies).
+ * `ids` must not be empty.
+ */
+export const retainBlobsQuery = (db: Database, ids: string[]) =>
+  blobReferencesQuery(db, ids, 1);
+
+/**
+ * Drop references for rows that no longer point at blobs. Follow up
+ * with `collectGarbageBlobs` once committed. `ids` must not be empty.
+ */
+export const releaseBlobsQuery = (db: Database, ids: string[]) =>
+  blobReferencesQuery(db, ids, -1);
+
+/**
+ * Delete unreferenced blobs and their stored objects.
+ *
+ * With `ids`, only those blobs are considered (after releasing them);
+ * without, every unreferenced blob is swept.
+ */
+export const collectGarbageBlobs = async (db: Database, ids?: string[]) => {
+  if (ids?.length === 0) return { deleted: 0 };
+
+  // Conditional on the count, so a blob re-adopted meanwhile survives
+  const deleted = await db
+    .delete(blobs)
+    .where(
+      and(lte(blobs.ref_count, 0), ids ? inArray(blobs.id, ids) : undefined)
+    )
+    .returning({
+      id: blobs.id,
+      storage_key: blobs.storage_key,
+      thumbnail_status: blobs.thumbnail_status,
+    });
+
+  await deleteStoredObjects(deleted.map(({ storage_key }) => storage_key));
+  await deleteThumbnails(
+    deleted
+      .filter(({ thumbnail_status }) => thumbnail_status === 'ready')
+      .map(({ id }) => id)
+  );
+
+  return { deleted: deleted.length };
+};
+
+/**
+ * Drop references and delete any blobs left unreferenced.
+ */
+export const releaseBlobs = async (db: Database, ids: string[]) => {
+  if (ids.length === 0) return;
+
+  await releaseBlobsQuery(db, ids);
+  await collectGarbageBlobs(db, ids);
+};
+
+/**
+ * Find a blob with the given content among those the owner's files or
+ * versions already use.
+ *
+ * Limited to the owner's own content so that knowing a hash is never
+ * enough to obtain someone else's file.
+ */
+export const findOwnedBlob = async (
+  db: Database,
+  ownerId: string,
+  sha256: string,
+  size: number
+) =>
+  db.query.blobs.findFirst({
+    where: and(
+      eq(blobs.sha256, sha256),
+      eq(blobs.size_bytes, size),
+      sql`(${exists(
+        db
+          .select({ id: file_system_entries.id })
+          .from(file_system_entries)
+          .where(
+            and(
+              eq(file_system_entries.blob_id, blobs.id),
+              eq(file_system_entries.owner_id, ownerId)
+            )
+          )
+      )} or ${exists(
+        db
+          .select({ id: file_versions.id })
+          .from(file_versions)
+          .innerJoin(
+            file_system_entries,
+            eq(file_system_entries.id, file_versions.entry_id)
+          )
+          .where(
+            and(
+              eq(file_versions.blob_id, blobs.id),
+              eq(file_system_entries.owner_id, ownerId)
+            )
+          )
+      )})`
+    ),
+  });
+
+/**
+ * Hash blobs stored without a hash, merging any that turn out to
+ * duplicate another blob. Those are blobs stored before content
+ * addressing was introduced, and resumable uploads, which are too big
+ * to read back while finalizing. Run periodically by the cron route.
+ */
+export const hashPendingBlobs = async (db: Database) => {
+  const pending = await db
+    .select()
+    .from(blobs)
+    .where(isNull(blobs.sha256))
+    .limit(HASH_BATCH_SIZE);
+
+  let hashed = 0;
+  let merged = 0;
+
+  for (const blob of pending) {
+    try {
+      const sha256 = await hashStoredObject(blob.storage_key);
+
+      const duplicate = await db.query.blobs.findFirst({
+        where: eq(blobs.sha256, sha256),
+      });
+
+      if (!duplicate) {
+        await db.update(blobs).set({ sha256 }).where(eq(blobs.id, blob.id));
+        hashed++;
+        continue;
+      }
+
+      // Point everything at the existing blob and drop this one. The
+      // references move over as counted inside the transaction, with
+      // this row locked, so none taken since it was read are lost
+      await db.batch([
+        db
+          .select({ id: blobs.id })
+          .from(blobs)
+          .where(eq(blobs.id, blob.id))
+          .for('update'),
+        db
+          .update(blobs)
+          .set({
+            ref_count: sql`${blobs.ref_count} + coalesce((select ref_count from ${blobs} where id = ${blob.id}), 0)`,
+          })
+          .where(eq(blobs.id, duplicate.id)),
+        db
+          .update(file_system_entries)
+          // Not a user-visible change
+          .set({
+            blob_id: duplicate.id,
+            updated_at: sql`${file_system_entries.updated_at}`,
+          })
+          .where(eq(file_system_entries.blob_id, blob.id)),
+        db
+          .update(file_versions)
+          .set({ blob_id: duplicate.id })
+          .where(eq(file_versions.blob_id, blob.id)),
+        db.delete(blobs).where(eq(blobs.id, blob.id)),
+      ]);
+
+      await deleteStoredObjects([blob.storage_key]);
+      await deleteThumbnails([blob.id]);
+      merged++;
+    } catch (error) {
+      console.error(`Failed to hash blob ${blob.id}:`, error);
+    }
+  }
+
+  return { hashed, merged };
+};
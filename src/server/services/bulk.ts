@@ -0,0 +1,737 @@
+import type { Database } from '@/db';
+import {
+  file_system_entries,
+  type ConflictPolicy,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { authorizeEntries, authorizeFolder } from '@/server/authorization';
+import { retainBlobsQuery } from '@/server/services/blobs';
+import { recordChangeQuery } from '@/server/services/changes';
+import { copyContentTextQuery } from '@/server/services/content-text';
+import {
+  isNameConflict,
+  resolveNameConflict,
+} from '@/server/services/conflicts';
+import {
+  buildPath,
+  deleteEntriesPermanently,
+  getSubtree,
+  isMoveIntoItself,
+  lockDriveQuery,
+  relocateEntryQueries,
+} from '@/server/services/files';
+import { releaseStorage, reserveStorage } from '@/server/services/quota';
+import { planRestore, trashEntryQueries } from '@/server/services/trash';
+import { TRPCError } from '@trpc/server';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * Bulk Operations
+ *
+ * Multi-select actions on up to `MAX_BULK_ITEMS` entries. Every item is
+ * authorized and checked up front; those that fail are reported and
+ * left alone, and the writes for all the others run in one `db.batch`,
+ * which the Neon HTTP driver executes as a single transaction. Either
+ * every valid item is changed or, if the batch fails, none is.
+ *
+ * Entries selected along with a folder that contains them are skipped
+ * where the folder's operation already covers them (move, copy, trash),
+ * and reported as successful.
+ *
+ * Sets larger than `MAX_BULK_ITEMS` are rejected rather than queued as
+ * a background job; clients split them into several calls.
+ */
+
+export const MAX_BULK_ITEMS = 5000;
+
+// Most entries a single copy may create, subtrees included
+export const MAX_BULK_COPY_ENTRIES = 20_000;
+
+// Rows per insert statement when copying large subtrees
+const INSERT_BATCH_SIZE = 1000;
+
+// Guards recursive ancestor walks against corrupted (cyclic) trees
+const MAX_DEPTH = 1000;
+
+export const bulkIdsSchema = z.array(z.uuid()).min(1).max(MAX_BULK_ITEMS);
+
+export type BulkResult =
+  | { id: string; ok: true; entry?: FileSystemEntry }
+  | {
+      id: string;
+      ok: false;
+      error: { code: TRPCError['code']; message: string };
+    };
+
+// An item's writes, and the ID of the entry its first query returns.
+// `replaced` trashes the entries it replaces, just before the writes.
+type PlannedItem = {
+  id: string;
+  queries: BatchItem<'pg'>[];
+  replaced?: BatchItem<'pg'>[];
+  resultId?: string;
+};
+
+const changedError = new TRPCError({
+  code: 'CONFLICT',
+  message: 'The item changed while it was processed. Try again.',
+});
+
+const failure = (id: string, error: TRPCError): BulkResult => ({
+  id,
+  ok: false,
+  error: { code: error.code, message: error.message },
+});
+
+// Per-item checks throw TRPCErrors; anything else is a real failure
+const failureOf = (id: string, error: unknown) => {
+  if (!(error instanceof TRPCError)) throw error;
+
+  return failure(id, error);
+};
+
+/**
+ * IDs among `ids` that lie beneath another of them.
+ */
+const findNestedIds = async (db: Database, ids: string[]) => {
+  if (ids.length < 2) return new Set<string>();
+
+  const idList = sql.join(
+    ids.map((id) => sql`${id}::uuid`),
+    sql`, `
+  );
+
+  const result = await db.execute<{ entry_id: string }>(sql`
+    with recursive ancestors as (
+      select id as entry_id, parent_id, 0 as depth
+      from file_system_entries
+      where id in (${idList})
+      union all
+      select ancestors.entry_id, parent.parent_id, ancestors.depth + 1
+      from file_system_entries parent
+      join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_DEPTH}
+    )
+    select distinct entry_id from ancestors where parent_id in (${idList})
+  `);
+
+  return new Set(result.rows.map(({ entry_id }) => entry_id));
+};
+
+/**
+ * IDs of a folder and every folder above it.
+ */
+const getAncestorIds = async (db: Database, folderId: string) => {
+  const result = await db.execute<{ id: string }>(sql`
+    with recursive ancestors as (
+      select id, parent_id, 0 as depth from file_system_entries
+      where id = ${folderId}
+      union all
+      select parent.id, parent.parent_id, ancestors.depth + 1
+      from file_system_entries parent
+      join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_DEPTH}
+    )
+    select id from ancestors
+  `);
+
+  return new Set(result.rows.map(({ id }) => id));
+};
+
+/**
+ * Authorize `action` on every selected entry. Returns the entries to
+ * operate on, and results so far for the others: failures, and nested
+ * selections when `skipNested` is set.
+ */
+const authorizeSelection = async (
+  db: Database,
+  userId: string,
+  ids: string[],
+  action: Parameters<typeof authorizeEntries>[3],
+  { skipNested }: { skipNested: boolean }
+) => {
+  const results = new Map<string, BulkResult>();
+  const authorized = await authorizeEntries(db, userId, ids, action);
+  const entries: FileSystemEntry[] = [];
+
+  for (const [id, outcome] of authorized) {
+    if (outcome instanceof TRPCError) results.set(id, failure(id, outcome));
+    else entries.push(outcome.entry);
+  }
+
+  const nested = skipNested
+    ? await findNestedIds(
+        db,
+        entries.map(({ id }) => id)
+      )
+    : new Set<string>();
+
+  for (const id of nested) results.set(id, { id, ok: true });
+
+  return {
+    entries: entries.filter(({ id }) => !nested.has(id)),
+    results,
+  };
+};
+
+/**
+ * Lower-cased names of the live entries in a folder, mapped to the
+ * entries holding them.
+ */
+const getFolderNames = async (
+  db: Database,
+  ownerId: string,
+  parentId: string | null
+) => {
+  const children = await db
+    .select({ id: file_system_entries.id, name: file_system_entries.name })
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.owner_id, ownerId),
+        parentId
+          ? eq(file_system_entries.parent_id, parentId)
+          : isNull(file_system_entries.parent_id),
+        eq(file_system_entries.is_deleted, false)
+      )
+    );
+
+  return new Map(children.map(({ id, name }) => [name.toLowerCase(), id]));
+};
+
+/**
+ * Pick the name an entry takes in a folder other entries are also
+ * going into, and claim it in `reserved`. Under `replace`, also returns
+ * the queries trashing the entry that holds the name.
+ *
+ * Names free in `existing` are taken as they are; only clashes go
+ * through `resolveNameConflict`, so large selections don't cost a
+ * lookup per item.
+ */
+const claimName = async (
+  db: Database,
+  userId: string,
+  {
+    entry,
+    ownerId,
+    parentId,
+    existing,
+    reserved,
+    policy,
+    isCopy,
+  }: {
+    entry: FileSystemEntry;
+    ownerId: string;
+    parentId: string | null;
+    existing: Map<string, string>;
+    reserved: Set<string>;
+    policy: ConflictPolicy;
+    isCopy: boolean;
+  }
+) => {
+  const key = entry.name.toLowerCase();
+  const holder = existing.get(key);
+  const clashes =
+    reserved.has(key) || (holder && (isCopy || holder !== entry.id));
+
+  const claimed = clashes
+    ? await resolveNameConflict(db, userId, {
+        ownerId,
+        parentId,
+        name: entry.name,
+        isFolder: entry.is_folder,
+        excludeId: isCopy ? undefined : entry.id,
+        policy,
+        reserved,
+      })
+    : { name: entry.name, replaced: [] };
+
+  reserved.add(claimed.name.toLowerCase());
+  return claimed;
+};
+
+/**
+ * Run the planned items' writes, plus `shared` queries, in one
+ * transaction and report every item's outcome.
+ *
+ * Names are checked before the batch but a concurrent request can
+ * still take one; then the index rejects the batch and every planned
+ * item fails with CONFLICT, as it does when a concurrent move turns
+ * one of the moves into a move into itself. An item whose write matched
+ * no row, having changed since it was planned, fails with CONFLICT on
+ * its own.
+ */
+const commit = async (
+  db: Database,
+  planned: PlannedItem[],
+  shared: BatchItem<'pg'>[] = []
+): Promise<BulkResult[]> => {
+  const queries = [
+    ...planned.flatMap((item) => [...(item.replaced ?? []), ...item.queries]),
+    ...shared,
+  ];
+  if (queries.length === 0) return [];
+
+  let responses: unknown[];
+  try {
+    responses = await db.batch(
+      queries as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]
+    );
+  } catch (error) {
+    if (!isNameConflict(error) && !isMoveIntoItself(error)) throw error;
+
+    const conflict = new TRPCError({
+      code: 'CONFLICT',
+      message: isNameConflict(error)
+        ? 'A name was taken while the items were processed.'
+        : 'A folder was moved while the items were processed.',
+    });
+    return planned.map(({ id }) => failure(id, conflict));
+  }
+
+  let offset = 0;
+  return planned.map(({ id, queries, replaced = [], resultId }) => {
+    const rows = responses[offset + replaced.length] as FileSystemEntry[];
+    offset += replaced.length + queries.length;
+
+    if (!resultId) return { id, ok: true };
+
+    const entry = rows.find((row) => row.id === resultId);
+    if (!entry) return failure(id, changedError);
+
+    return { id, ok: true, entry };
+  });
+};
+
+// Results in the order the IDs were given
+const inOrder = (
+  ids: string[],
+  ...results: (Map<string, BulkResult> | BulkResult[])[]
+) => {
+  const byId = new Map<string, BulkResult>();
+  for (const result of results) {
+    for (const item of result.values()) byId.set(item.id, item);
+  }
+
+  return ids.map((id) => byId.get(id)!);
+};
+
+/**
+ * Move entries into a folder (or the root).
+ *
+ * As with a single move, each entry needs edit access, must belong to
+ * the destination's owner and can't go into its own subtree.
+ * `onConflict` applies to every entry; names the batch itself would
+ * give twice count as conflicts too.
+ */
+export const bulkMove = async (
+  db: Database,
+  userId: string,
+  ids: string[],
+  parentId: string | null,
+  onConflict: ConflictPolicy
+) => {
+  const unique = [...new Set(ids)];
+
+  const parent = await authorizeFolder(db, userId, parentId, 'edit');
+  const ownerId = parent?.owner_id ?? userId;
+
+  const { entries, results } = await authorizeSelection(
+    db,
+    userId,
+    unique,
+    'edit',
+    { skipNested: true }
+  );
+
+  const ancestors = parent
+    ? await getAncestorIds(db, parent.id)
+    : new Set<string>();
+  const existing = await getFolderNames(db, ownerId, parent?.id ?? null);
+  const reserved = new Set<string>();
+  const planned: PlannedItem[] = [];
+
+  for (const entry of entries) {
+    try {
+      if (entry.owner_id !== ownerId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: "Items can't be moved into another user's drive.",
+        });
+      }
+
+      if (ancestors.has(entry.id)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot move a folder into itself.',
+        });
+      }
+
+      const { name, replaced } = await claimName(db, userId, {
+        entry,
+        ownerId,
+        parentId: parent?.id ?? null,
+        existing,
+        reserved,
+        policy: onConflict,
+        isCopy: false,
+      });
+
+      planned.push({
+        id: entry.id,
+        queries: [
+          ...relocateEntryQueries(db, entry, {
+            parentId: parent?.id ?? null,
+            parentPath: parent?.path ?? null,
+            name,
+          }),
+        ],
+        // Locked before each move; the update refuses a destination
+        // that became the entry's descendant after `ancestors` was read,
+        // failing the batch
+        replaced: [lockDriveQuery(db, ownerId), ...replaced],
+        resultId: entry.id,
+      });
+    } catch (error) {
+      results.set(entry.id, failureOf(entry.id, error));
+    }
+  }
+
+  return inOrder(unique, results, await commit(db, planned));
+};
+
+/**
+ * Copy entries, with the contents of folders, into a folder (or the
+ * root).
+ *
+ * Needs view access to each entry and edit access to the destination.
+ * Copies belong to the destination's owner and share content with the
+ * originals, but take up their own space in the owner's quota, which is
+ * reserved for the whole selection at once. Trashed contents and
+ * version history aren't copied.
+ */
+export const bulkCopy = async (
+  db: Database,
+  userId: string,
+  ids: string[],
+  parentId: string | null,
+  onConflict: ConflictPolicy
+) => {
+  const unique = [...new Set(ids)];
+
+  const parent = await authorizeFolder(db, userId, parentId, 'edit');
+  const ownerId = parent?.owner_id ?? userId;
+
+  const { entries, results } = await authorizeSelection(
+    db,
+    userId,
+    unique,
+    'view',
+    { skipNested: true }
+  );
+
+  const existing = await getFolderNames(db, ownerId, parent?.id ?? null);
+  const reserved = new Set<string>();
+  const planned: PlannedItem[] = [];
+  const blobIds: string[] = [];
+  let totalEntries = 0;
+  let totalBytes = 0;
+
+  for (const entry of entries) {
+    try {
+      const subtree = entry.is_folder
+        ? await getSubtree(db, entry.owner_id, entry)
+        : [entry];
+
+      totalEntries += subtree.length;
+      if (totalEntries > MAX_BULK_COPY_ENTRIES) {
+        throw new TRPCError({
+          code: 'PAYLOAD_TOO_LARGE',
+          message: `Copies are limited to ${MAX_BULK_COPY_ENTRIES} items at once.`,
+        });
+      }
+
+      const { name, replaced } = await claimName(db, userId, {
+        entry,
+        ownerId,
+        parentId: parent?.id ?? null,
+        existing,
+        reserved,
+        policy: onConflict,
+        isCopy: true,
+      });
+
+      const children = new Map<string, FileSystemEntry[]>();
+      for (const child of subtree) {
+        if (child.id === entry.id || !child.parent_id) continue;
+
+        const siblings = children.get(child.parent_id) ?? [];
+        siblings.push(child);
+        children.set(child.parent_id, siblings);
+      }
+
+      const copyOf = (
+        source: FileSystemEntry,
+        copyParentId: string | null,
+        copyParentPath: string | null,
+        copyName: string
+      ) => ({
+        id: crypto.randomUUID(),
+        name: copyName,
+        path: buildPath(copyParentPath, copyName, source.is_folder),
+        size_bytes: source.size_bytes,
+        mime_type: source.mime_type,
+        blob_id: source.blob_id,
+        owner_id: ownerId,
+        parent_id: copyParentId,
+        content_updated_at: source.content_updated_at,
+        is_folder: source.is_folder,
+      });
+
+      // Breadth-first, so every folder is inserted before its contents
+      const root = copyOf(
+        entry,
+        parent?.id ?? null,
+        parent?.path ?? null,
+        name
+      );
+      const rows = [root];
+      const queue = [{ sourceId: entry.id, copy: root }];
+      // Files copied, whose extracted text carries over
+      const files = entry.is_folder
+        ? []
+        : [{ id: root.id, sourceId: entry.id }];
+
+      for (const { sourceId, copy } of queue) {
+        for (const child of children.get(sourceId) ?? []) {
+          const childCopy = copyOf(child, copy.id, copy.path, child.name);
+          rows.push(childCopy);
+          if (child.is_folder) {
+            queue.push({ sourceId: child.id, copy: childCopy });
+          } else {
+            files.push({ id: childCopy.id, sourceId: child.id });
+          }
+        }
+      }
+
+      const queries: BatchItem<'pg'>[] = [];
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        queries.push(
+          db
+            .insert(file_system_entries)
+            .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+            .returning()
+        );
+      }
+      for (let i = 0; i < files.length; i += INSERT_BATCH_SIZE) {
+        queries.push(
+          copyContentTextQuery(db, files.slice(i, i + INSERT_BATCH_SIZE))
+        );
+      }
+      queries.push(recordChangeQuery(db, { entryId: root.id, kind: 'create' }));
+
+      for (const row of rows) {
+        if (row.blob_id) blobIds.push(row.blob_id);
+        totalBytes += row.is_folder ? 0 : row.size_bytes;
+      }
+
+      planned.push({ id: entry.id, queries, replaced, resultId: root.id });
+    } catch (error) {
+      results.set(entry.id, failureOf(entry.id, error));
+    }
+  }
+
+  if (planned.length === 0) return inOrder(unique, results);
+
+  try {
+    await reserveStorage(db, ownerId, totalBytes);
+  } catch (error) {
+    return inOrder(
+      unique,
+      results,
+      planned.map(({ id }) => failureOf(id, error))
+    );
+  }
+
+  const copied = await commit(
+    db,
+    planned,
+    blobIds.length > 0 ? [retainBlobsQuery(db, blobIds)] : []
+  ).catch(async (error) => {
+    await releaseStorage(db, ownerId, totalBytes);
+    throw error;
+  });
+
+  if (copied.some(({ ok }) => !ok)) {
+    await releaseStorage(db, ownerId, totalBytes);
+  }
+
+  return inOrder(unique, results, copied);
+};
+
+/**
+ * Move entries, with their subtrees, to the trash. Needs manage access
+ * to each.
+ */
+export const bulkTrash = async (
+  db: Database,
+  userId: string,
+  ids: string[]
+) => {
+  const unique = [...new Set(ids)];
+
+  const { entries, results } = await authorizeSelection(
+    db,
+    userId,
+    unique,
+    'manage',
+    { skipNested: true }
+  );
+
+  const planned = entries.map((entry): PlannedItem => ({
+    id: entry.id,
+    queries: [...trashEntryQueries(db, entry)],
+  }));
+
+  return inOrder(unique, results, await commit(db, planned));
+};
+
+/**
+ * Star or unstar entries. Needs manage access to each.
+ */
+export const bulkSetStarred = async (
+  db: Database,
+  userId: string,
+  ids: string[],
+  isStarred: boolean
+) => {
+  const unique = [...new Set(ids)];
+
+  const { entries, results } = await authorizeSelection(
+    db,
+    userId,
+    unique,
+    'manage',
+    { skipNested: false }
+  );
+
+  const planned = entries.map((entry): PlannedItem => ({
+    id: entry.id,
+    queries: [
+      db
+        .update(file_system_entries)
+        .set({ is_starred: isStarred })
+        .where(eq(file_system_entries.id, entry.id))
+        .returning(),
+      recordChangeQuery(db, { entryId: entry.id, kind: 'update' }),
+    ],
+    resultId: entry.id,
+  }));
+
+  return inOrder(unique, results, await commit(db, planned));
+};
+
+/**
+ * Load the given items from the user's trash. Items that aren't there
+ * (or were only trashed along with a folder) get a NOT_FOUND result.
+ */
+const getOwnedTrashItems = async (
+  db: Database,
+  ownerId: string,
+  ids: string[]
+) => {
+  const items = await db
+    .select()
+    .from(file_system_entries)
+    .where(
+      and(
+        inArray(file_system_entries.id, ids),
+        eq(file_system_entries.owner_id, ownerId),
+        eq(file_system_entries.is_deleted, true),
+        eq(file_system_entries.trash_root_id, file_system_entries.id)
+      )
+    );
+
+  const found = new Set(items.map(({ id }) => id));
+  const notFound = new TRPCError({
+    code: 'NOT_FOUND',
+    message: 'Item not in trash.',
+  });
+
+  return {
+    items,
+    results: new Map(
+      ids
+        .filter((id) => !found.has(id))
+        .map((id) => [id, failure(id, notFound)])
+    ),
+  };
+};
+
+/**
+ * Restore items from the user's trash to where they came from, as
+ * `restoreEntry` does. Items restored to the same folder never get
+ * the same name.
+ */
+export const bulkRestore = async (
+  db: Database,
+  userId: string,
+  ids: string[]
+) => {
+  const unique = [...new Set(ids)];
+
+  const { items, results } = await getOwnedTrashItems(db, userId, unique);
+
+  const claimed = new Map<string | null, Set<string>>();
+  const planned: PlannedItem[] = [];
+
+  for (const item of items) {
+    const { queries } = await planRestore(db, item, claimed);
+    planned.push({ id: item.id, queries: [...queries], resultId: item.id });
+  }
+
+  return inOrder(unique, results, await commit(db, planned));
+};
+
+/**
+ * Permanently delete items from the user's trash, with everything
+ * trashed along with them.
+ *
+ * Like emptying the trash, rows are deleted in chunks of their own
+ * transactions, so a failure can leave some items deleted; retrying
+ * finishes the rest.
+ */
+export const bulkDelete = async (
+  db: Database,
+  userId: string,
+  ids: string[]
+) => {
+  const unique = [...new Set(ids)];
+
+  const { items, results } = await getOwnedTrashItems(db, userId, unique);
+
+  if (items.length > 0) {
+    const entries = await db
+      .select()
+      .from(file_system_entries)
+      .where(
+        and(
+          eq(file_system_entries.owner_id, userId),
+          inArray(
+            file_system_entries.trash_root_id,
+            items.map(({ id }) => id)
+          )
+        )
+      );
+
+    await deleteEntriesPermanently(db, entries);
+  }
+
+  return inOrder(
+    unique,
+    results,
+    items.map(({ id }): BulkResult => ({ id, ok: true }))
+  );
+};
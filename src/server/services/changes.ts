@@ -0,0 +1,357 @@
+import type { Database } from '@/db';
+import {
+  entry_changes,
+  file_system_entries,
+  webhook_deliveries,
+  type ChangeKind,
+} from '@/db/schema';
+import type { Channel } from '@/server/services/realtime';
+import { webhookEventForChange } from '@/server/services/webhooks';
+import { TRPCError } from '@trpc/server';
+import { and, asc, eq, gt, inArray, lt, or, sql } from 'drizzle-orm';
+
+/**
+ * Change Journal
+ *
+ * Every user-visible change to an entry appends a row to
+ * `entry_changes` for each user who can see it, in the same batch as
+ * the change itself. A change to a folder stands for its whole subtree:
+ * clients apply moves, deletes and restores to everything beneath it.
+ *
+ * Purging from the trash isn't journaled; clients already saw the
+ * delete when the item was trashed.
+ *
+ * Each recipient is also notified on the `entry_changes` channel, so
+ * open event streams pick the change up without polling, and their
+ * webhooks subscribed to it are queued for delivery.
+ *
+ * Feeds are read in order of the transaction that wrote each change,
+ * and only up to the oldest transaction still running. Anything
+ * committed later has a higher transaction ID, so a cursor never
+ * moves past a change that isn't visible yet.
+ */
+
+// How long changes are kept; clients further behind must resync
+export const CHANGES_RETENTION_DAYS = Number(
+  process.env.CHANGES_RETENTION_DAYS ?? 30
+);
+
+// Notified with the recipient's ID whenever their feed grows
+const CHANGES_CHANNEL: Channel = 'entry_changes';
+
+// Guards the tree walks against corrupted (cyclic) trees
+const MAX_DEPTH = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Transactions below this have all committed or rolled back
+const settledTransactionId = sql<number>`pg_snapshot_xmin(pg_current_snapshot())::text::bigint`;
+
+/**
+ * Query journaling a change to an entry. Unexecuted, so it can run in
+ * the same batch as the change; it must come after inserts (the entry
+ * has to exist) and before deletes.
+ *
+ * Recipients are the owner and everyone with a grant on the entry, an
+ * ancestor or (for folders) a descendant. `alsoUnder` adds those with
+ * access through another folder, such as the old parent of a move;
+ * `userIds` adds users explicitly, such as someone just unshared.
+ *
+ * Recipients' active webhooks for the change's event are queued too,
+ * if they watch everything or a folder above the entry (or above its
+ * old parent, so moving something out of a folder is reported).
+ */
+export const recordChangeQuery = (
+  db: Database,
+  {
+    entryId,
+    kind,
+    alsoUnder = null,
+    userIds = [],
+  }: {
+    entryId: string;
+    kind: ChangeKind;
+    alsoUnder?: string | null;
+    userIds?: string[];
+  }
+) =>
+  db.execute(sql`
+    with recursive ancestors as (
+      select id, parent_id, 0 as depth from file_system_entries
+      where id = ${entryId} or id = ${alsoUnder}::uuid
+      union all
+      select parent.id, parent.parent_id, ancestors.depth + 1
+      from file_system_entries parent
+      join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_DEPTH}
+    ),
+    descendants as (
+      select id, 0 as depth from file_system_entries where id = ${entryId}
+      union all
+      select child.id, descendants.depth + 1
+      from file_system_entries child
+      join descendants on child.parent_id = descendants.id
+      where descendants.depth < ${MAX_DEPTH}
+    ),
+    recipients as (
+      select users.id as user_id
+      from users
+      join file_system_entries entry on entry.owner_id = users.id::text
+      where entry.id = ${entryId}
+      union
+      select user_id from entry_permissions
+      where entry_id in (
+        select id from ancestors union select id from descendants
+      )
+      ${
+        userIds.length > 0
+          ? sql`union select id from users where id in (${sql.join(
+              userIds.map((id) => sql`${id}::uuid`),
+              sql`, `
+            )})`
+          : sql``
+      }
+    ),
+    inserted as (
+      insert into ${entry_changes} (user_id, entry_id, kind)
+      select user_id, ${entryId}::uuid, ${kind}::change_kind from recipients
+      returning user_id
+    ),
+    queued as (
+      insert into ${webhook_deliveries} (webhook_id, event, payload)
+      select webhooks.id, event.type, jsonb_build_object(
+        'id', event.id,
+        'type', event.type,
+        'timestamp', event.at,
+        'data', jsonb_build_object('entry', jsonb_build_object(
+          'id', entry.id,
+          'name', entry.name,
+          'path', entry.path,
+          'parent_id', entry.parent_id,
+          'is_folder', entry.is_folder,
+          'mime_type', entry.mime_type,
+          'size_bytes', entry.size_bytes,
+          'version', entry.version,
+          'is_deleted', entry.is_deleted,
+          'updated_at', entry.updated_at
+        ))
+      )
+      from webhooks
+      join file_system_entries entry on entry.id = ${entryId}
+      cross join (
+        select
+          gen_random_uuid() as id,
+          ${webhookEventForChange[kind]}::webhook_event as type,
+          now() as at
+      ) event
+      where webhooks.active
+        and event.type = any(webhooks.events)
+        and webhooks.user_id in (select user_id from recipients)
+        and (
+          webhooks.folder_id is null
+          or webhooks.folder_id in (select id from ancestors)
+        )
+    )
+    select pg_notify(${CHANGES_CHANNEL}, user_id::text)
+    from (select distinct user_id from inserted) notified
+  `);
+
+/**
+ * Position in a user's feed: the last change read, by transaction and
+ * ID, and when everything after it was last known to be in the journal
+ * (changes before that may since have been pruned).
+ */
+export type ChangePosition = { transactionId: number; id: number; at: number };
+
+/**
+ * Cursor Encoding
+ *
+ * Positions are handed to clients as base64url JSON, both by
+ * `changes.list` and as event IDs on the event stream, so either can
+ * resume from the other. Clients treat them as opaque.
+ */
+export const encodeChangeCursor = (position: ChangePosition) =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+export const decodeChangeCursor = (cursor: string): ChangePosition => {
+  try {
+    const { transactionId, id, at } = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString()
+    );
+    if (Number.isSafeInteger(id) && id >= 0 && Number.isSafeInteger(at)) {
+      // Cursors from before transaction ordering can't be placed in
+      // the feed; they're treated as expired, so the client resyncs
+      return Number.isSafeInteger(transactionId) && transactionId >= 0
+        ? { transactionId, id, at }
+        : { transactionId: 0, id: 0, at: 0 };
+    }
+  } catch {}
+
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor.' });
+};
+
+/**
+ * The position clients start from after (re)listing their whole tree.
+ * Taken before listing, so nothing that changes meanwhile is missed.
+ */
+const headPosition = async (db: Database): Promise<ChangePosition> => {
+  const at = Date.now();
+
+  // Changes from transactions still running may or may not make the
+  // listing, so they're served again; applying them twice is harmless
+  const result = await db.execute<{ transaction_id: string }>(
+    sql`select ${settledTransactionId} as transaction_id`
+  );
+
+  return { transactionId: Number(result.rows[0].transaction_id), id: 0, at };
+};
+
+/**
+ * Entries among `ids` shared with a user through a grant on the entry
+ * or one of its ancestors.
+ */
+const sharedEntryIds = async (db: Database, userId: string, ids: string[]) => {
+  if (ids.length === 0) return new Set<string>();
+
+  const result = await db.execute<{ entry_id: string }>(sql`
+    with recursive ancestors as (
+      select id as entry_id, id, parent_id, 0 as depth
+      from file_system_entries
+      where id in (${sql.join(
+        ids.map((id) => sql`${id}::uuid`),
+        sql`, `
+      )})
+      union all
+      select ancestors.entry_id, parent.id, parent.parent_id, ancestors.depth + 1
+      from file_system_entries parent
+      join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_DEPTH}
+    )
+    select distinct ancestors.entry_id from ancestors
+    join entry_permissions
+      on entry_permissions.entry_id = ancestors.id
+      and entry_permissions.user_id = ${userId}
+  `);
+
+  return new Set(result.rows.map(({ entry_id }) => entry_id));
+};
+
+/**
+ * Read a user's changes after `position`, compacted to the latest
+ * change per entry.
+ *
+ * Each change carries the entry's current state, or null when the user
+ * should drop it: it was trashed or purged, or is no longer shared with
+ * them. With no position, or one older than the retention window,
+ * `reset` is set: the client must discard its copy, list its tree again
+ * and continue from the returned position.
+ */
+export const listChanges = async (
+  db: Database,
+  userId: string,
+  position: ChangePosition | null,
+  limit: number
+) => {
+  const cutoff = Date.now() - CHANGES_RETENTION_DAYS * DAY_MS;
+
+  if (!position || position.at < cutoff) {
+    return {
+      reset: true,
+      changes: [],
+      position: await headPosition(db),
+      hasMore: false,
+    };
+  }
+
+  const at = Date.now();
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(entry_changes)
+    .where(
+      and(
+        eq(entry_changes.user_id, userId),
+        or(
+          gt(entry_changes.transaction_id, position.transactionId),
+          and(
+            eq(entry_changes.transaction_id, position.transactionId),
+            gt(entry_changes.id, position.id)
+          )
+        ),
+        lt(entry_changes.transaction_id, settledTransactionId)
+      )
+    )
+    .orderBy(asc(entry_changes.transaction_id), asc(entry_changes.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+  const last = page[page.length - 1];
+
+  // Later changes to an entry supersede earlier ones
+  const latest = new Map<string, ChangeKind>();
+  for (const row of page) {
+    latest.delete(row.entry_id);
+    latest.set(row.entry_id, row.kind);
+  }
+
+  const ids = [...latest.keys()];
+  const entries =
+    ids.length === 0
+      ? []
+      : await db
+          .select()
+          .from(file_system_entries)
+          .where(inArray(file_system_entries.id, ids));
+
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const shared = await sharedEntryIds(
+    db,
+    userId,
+    entries
+      .filter((entry) => entry.owner_id !== userId)
+      .map((entry) => entry.id)
+  );
+
+  const changes = ids.map((entryId) => {
+    const entry = byId.get(entryId);
+    const visible =
+      entry &&
+      !entry.is_deleted &&
+      (entry.owner_id === userId || shared.has(entryId));
+
+    return {
+      entryId,
+      kind: latest.get(entryId)!,
+      entry: visible ? entry : null,
+    };
+  });
+
+  return {
+    reset: false,
+    changes,
+    // While paging, later changes are only as safe as the last one read
+    position: {
+      transactionId: last?.transaction_id ?? position.transactionId,
+      id: last?.id ?? position.id,
+      at: hasMore ? last.created_at.getTime() : at,
+    },
+    hasMore,
+  };
+};
+
+/**
+ * Delete changes older than the retention window, for all users.
+ * Run periodically by the cron route.
+ */
+export const pruneChanges = async (db: Database) => {
+  const cutoff = new Date(Date.now() - CHANGES_RETENTION_DAYS * DAY_MS);
+
+  const pruned = await db
+    .delete(entry_changes)
+    .where(lt(entry_changes.created_at, cutoff))
+    .returning({ id: entry_changes.id });
+
+  return { pruned: pruned.length };
+};
@@ -0,0 +1,133 @@
+import type { Database } from '@/db';
+import {
+  entry_permissions,
+  file_system_entries,
+  users,
+  type CollaboratorRole,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { recordChangeQuery } from '@/server/services/changes';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, sql } from 'drizzle-orm';
+
+/**
+ * Share an entry with another user by email, or change their role if
+ * it's already shared with them.
+ */
+export const addCollaborator = async (
+  db: Database,
+  entry: FileSystemEntry,
+  grantedBy: string,
+  { email, role }: { email: string; role: CollaboratorRole }
+) => {
+  const collaborator = await db.query.users.findFirst({
+    where: eq(sql`lower(${users.email})`, email.toLowerCase()),
+  });
+
+  if (!collaborator) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'No user with that email address.',
+    });
+  }
+
+  if (collaborator.id === entry.owner_id) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'The owner already has full access.',
+    });
+  }
+
+  const [[permission]] = await db.batch([
+    db
+      .insert(entry_permissions)
+      .values({
+        entry_id: entry.id,
+        user_id: collaborator.id,
+        role,
+        granted_by: grantedBy,
+      })
+      .onConflictDoUpdate({
+        target: [entry_permissions.entry_id, entry_permissions.user_id],
+        set: { role, granted_by: grantedBy, updated_at: new Date() },
+      })
+      .returning(),
+    recordChangeQuery(db, { entryId: entry.id, kind: 'permission' }),
+  ]);
+
+  return { ...permission, email: collaborator.email };
+};
+
+/**
+ * List the users an entry is shared with directly.
+ *
+ * Grants inherited from parent folders are listed on those folders.
+ */
+export const listCollaborators = async (db: Database, entryId: string) =>
+  db
+    .select({
+      user_id: entry_permissions.user_id,
+      email: users.email,
+      role: entry_permissions.role,
+      created_at: entry_permissions.created_at,
+    })
+    .from(entry_permissions)
+    .innerJoin(users, eq(users.id, entry_permissions.user_id))
+    .where(eq(entry_permissions.entry_id, entryId))
+    .orderBy(users.email);
+
+/**
+ * Stop sharing an entry with a user.
+ */
+export const removeCollaborator = async (
+  db: Database,
+  entryId: string,
+  userId: string
+) => {
+  const match = and(
+    eq(entry_permissions.entry_id, entryId),
+    eq(entry_permissions.user_id, userId)
+  );
+
+  const permission = await db.query.entry_permissions.findFirst({
+    where: match,
+  });
+
+  if (!permission) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Entry is not shared with that user.',
+    });
+  }
+
+  // The removed user is told explicitly, their grant being gone
+  await db.batch([
+    db.delete(entry_permissions).where(match),
+    recordChangeQuery(db, { entryId, kind: 'permission', userIds: [userId] }),
+  ]);
+};
+
+/**
+ * Entries other users have shared directly with a user, newest first.
+ */
+export const listSharedWithUser = async (db: Database, userId: string) =>
+  db
+    .select({
+      entry: file_system_entries,
+      role: entry_permissions.role,
+      shared_at: entry_permissions.created_at,
+      owner_email: users.email,
+    })
+    .from(entry_permissions)
+    .innerJoin(
+      file_system_entries,
+      eq(file_system_entries.id, entry_permissions.entry_id)
+    )
+    .innerJoin(users, eq(sql`${users.id}::text`, file_system_entries.owner_id))
+    .where(
+      and(
+        eq(entry_permissions.user_id, userId),
+        eq(file_system_entries.is_deleted, false)
+      )
+    )
+    .orderBy(desc(entry_permissions.created_at));
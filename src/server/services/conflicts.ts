@@ -0,0 +1,175 @@
+import type { Database } from '@/db';
+import {
+  conflictPolicy,
+  file_system_entries,
+  type ConflictPolicy,
+} from '@/db/schema';
+import { authorizeEntry } from '@/server/authorization';
+import { getAvailableName, isWithinSubtree } from '@/server/services/files';
+import { trashEntryQueries } from '@/server/services/trash';
+import { TRPCError } from '@trpc/server';
+import type { BatchItem, BatchResponse } from 'drizzle-orm/batch';
+import { and, eq, isNull, ne, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const conflictPolicySchema = z.enum(conflictPolicy.enumValues);
+
+// Unique index allowing one live name per folder (see schema)
+const SIBLING_NAME_INDEX = 'file_system_entries_sibling_name_unique';
+
+const conflictError = (name: string) =>
+  new TRPCError({
+    code: 'CONFLICT',
+    message: `An item named "${name}" already exists here.`,
+  });
+
+/**
+ * Find the live entry in a folder whose name matches `name`
+ * case-insensitively, as the sibling name index compares them.
+ */
+export const findSibling = async (
+  db: Database,
+  ownerId: string,
+  parentId: string | null,
+  name: string,
+  excludeId?: string
+) =>
+  db.query.file_system_entries.findFirst({
+    where: and(
+      eq(file_system_entries.owner_id, ownerId),
+      parentId
+        ? eq(file_system_entries.parent_id, parentId)
+        : isNull(file_system_entries.parent_id),
+      eq(file_system_entries.is_deleted, false),
+      sql`lower(${file_system_entries.name}) = lower(${name})`,
+      excludeId ? ne(file_system_entries.id, excludeId) : undefined
+    ),
+  });
+
+/**
+ * Apply a conflict policy before an entry is created, renamed or moved
+ * into a folder, returning the name to use.
+ *
+ * With `replace`, the existing entry is moved to the trash, which
+ * needs manage access to it. That happens in `replaced`, unexecuted
+ * queries the caller runs in the same batch as its write (see
+ * `batchReplacing`), so the entry is only trashed if the write goes
+ * through. Callers that can replace differently (uploads adding a
+ * version) look up the sibling themselves first.
+ *
+ * `reserved` holds lower-cased names that other entries are about to
+ * take in the same folder. They conflict like existing names, but
+ * can't be replaced.
+ */
+export const resolveNameConflict = async (
+  db: Database,
+  userId: string,
+  {
+    ownerId,
+    parentId,
+    name,
+    isFolder,
+    excludeId,
+    policy,
+    reserved = new Set(),
+  }: {
+    ownerId: string;
+    parentId: string | null;
+    name: string;
+    isFolder: boolean;
+    excludeId?: string;
+    policy: ConflictPolicy;
+    reserved?: ReadonlySet<string>;
+  }
+): Promise<{ name: string; replaced: BatchItem<'pg'>[] }> => {
+  const availableName = async () => ({
+    name: await getAvailableName(
+      db,
+      ownerId,
+      parentId,
+      name,
+      isFolder,
+      excludeId,
+      reserved
+    ),
+    replaced: [],
+  });
+
+  if (reserved.has(name.toLowerCase())) {
+    if (policy !== 'rename') throw conflictError(name);
+
+    return availableName();
+  }
+
+  const existing = await findSibling(db, ownerId, parentId, name, excludeId);
+
+  if (!existing) return { name, replaced: [] };
+
+  switch (policy) {
+    case 'fail':
+      throw conflictError(existing.name);
+
+    case 'rename':
+      return availableName();
+
+    case 'replace': {
+      const { entry } = await authorizeEntry(
+        db,
+        userId,
+        existing.id,
+        'manage'
+      );
+
+      // Trashing it would take the entry being moved along with it
+      if (excludeId && (await isWithinSubtree(db, entry.id, excludeId))) {
+        throw conflictError(existing.name);
+      }
+
+      return { name, replaced: [...trashEntryQueries(db, entry)] };
+    }
+  }
+};
+
+/**
+ * Run a write's queries in one transaction, after the queries that
+ * trash the entry it replaces (from `resolveNameConflict`), and return
+ * the write's results.
+ */
+export const batchReplacing = async <
+  U extends BatchItem<'pg'>,
+  T extends Readonly<[U, ...U[]]>,
+>(
+  db: Database,
+  replaced: BatchItem<'pg'>[],
+  queries: T
+) => {
+  const responses = await db.batch([...replaced, ...queries] as unknown as T);
+
+  return responses.slice(replaced.length) as BatchResponse<T>;
+};
+
+/**
+ * Whether a failed write violated the sibling name index.
+ */
+export const isNameConflict = (error: unknown) => {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+
+  return (
+    typeof cause === 'object' &&
+    cause !== null &&
+    'constraint' in cause &&
+    cause.constraint === SIBLING_NAME_INDEX
+  );
+};
+
+/**
+ * Turn a violation of the sibling name index into a CONFLICT error.
+ *
+ * The policy check and the write aren't atomic, so a concurrent request
+ * can still take the name in between; the index has the final say.
+ */
+export const rethrowNameConflict = (error: unknown, name: string): never => {
+  if (isNameConflict(error)) throw conflictError(name);
+
+  throw error;
+};
@@ -0,0 +1,175 @@
+import type { Database } from '@/db';
+import {
+  entry_texts,
+  file_system_entries,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { getBlobStorageKey } from '@/server/services/blobs';
+import { getStorage } from '@/server/storage';
+import { and, desc, eq, like, or, sql } from 'drizzle-orm';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+/**
+ * Content Text Extraction
+ *
+ * Plain text pulled out of text, Markdown and PDF files so search can
+ * match what's inside them, not just their names. Extraction runs from
+ * the cron route, off the request path: reading a large PDF back from
+ * storage can take longer than an upload should.
+ */
+
+// PDFs are parsed whole, so larger ones are skipped
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+// Only the start of large text files is indexed
+const MAX_TEXT_BYTES = 1024 * 1024;
+
+// Keeps the generated tsvector well under Postgres' 1 MB limit
+const MAX_CONTENT_TEXT_LENGTH = 100_000;
+
+// Entries processed per cron run
+const EXTRACTION_BATCH_SIZE = 50;
+
+const PDF_MIME_TYPE = 'application/pdf';
+
+export const isExtractable = (mimeType: string) =>
+  mimeType.startsWith('text/') || mimeType === PDF_MIME_TYPE;
+
+const readAll = async (body: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(body).arrayBuffer());
+
+/**
+ * Read an entry's content as plain text, or null when it can't be.
+ */
+const readContentText = async (db: Database, entry: FileSystemEntry) => {
+  const storage = getStorage();
+
+  const key = await getBlobStorageKey(db, entry.blob_id);
+  if (!key) return null;
+
+  if (entry.mime_type === PDF_MIME_TYPE) {
+    if (entry.size_bytes === 0 || entry.size_bytes > MAX_PDF_BYTES) {
+      return null;
+    }
+
+    const object = await storage.get(key);
+    if (!object) return null;
+
+    const data = await readAll(object.body);
+
+    try {
+      const pdf = await getDocumentProxy(data);
+      const { text } = await extractText(pdf, { mergePages: true });
+
+      return text;
+    } catch {
+      // Damaged or encrypted - retrying won't help
+      return null;
+    }
+  }
+
+  if (entry.size_bytes === 0) return '';
+
+  const object = await storage.get(key, {
+    start: 0,
+    end: Math.min(entry.size_bytes, MAX_TEXT_BYTES) - 1,
+  });
+  if (!object) return null;
+
+  // Invalid UTF-8 (including a character cut off at the limit) is replaced
+  return new TextDecoder().decode(await readAll(object.body));
+};
+
+/**
+ * Extract and store the text of an entry's current content.
+ *
+ * The text is only stored if the content hasn't changed since the
+ * entry was loaded, so a slow extraction can't overwrite newer text.
+ */
+const extractContentText = async (db: Database, entry: FileSystemEntry) => {
+  const text =
+    !entry.is_folder && isExtractable(entry.mime_type)
+      ? await readContentText(db, entry)
+      : null;
+
+  // Postgres text can't hold NUL characters
+  const stored =
+    text?.replace(/\0/g, '').slice(0, MAX_CONTENT_TEXT_LENGTH) ?? null;
+
+  await db.execute(sql`
+    insert into ${entry_texts} (entry_id, version, text)
+    select ${file_system_entries.id}, ${file_system_entries.version}, ${stored}::text
+    from ${file_system_entries}
+    where ${file_system_entries.id} = ${entry.id}
+      and ${file_system_entries.version} = ${entry.version}
+    on conflict (entry_id) do update
+    set version = excluded.version, text = excluded.text
+  `);
+};
+
+/**
+ * Query dropping an entry's extracted text when its content changes,
+ * so the old text stops matching. Unexecuted, so it can be batched with
+ * the change; the cron job extracts the new content later.
+ */
+export const clearContentTextQuery = (db: Database, entryId: string) =>
+  db.delete(entry_texts).where(eq(entry_texts.entry_id, entryId));
+
+/**
+ * Query copying extracted text to copies of entries, where it's for
+ * the source's current content. Unexecuted, so it can be batched after
+ * the copies are inserted. `copies` must not be empty.
+ */
+export const copyContentTextQuery = (
+  db: Database,
+  copies: { id: string; sourceId: string }[]
+) =>
+  db.execute(sql`
+    insert into ${entry_texts} (entry_id, version, text)
+    select copies.id, 1, ${entry_texts.text}
+    from (values ${sql.join(
+      copies.map(({ id, sourceId }) => sql`(${id}::uuid, ${sourceId}::uuid)`),
+      sql`, `
+    )}) as copies(id, source_id)
+    join ${entry_texts} on ${entry_texts.entry_id} = copies.source_id
+    join ${file_system_entries}
+      on ${file_system_entries.id} = copies.source_id
+      and ${file_system_entries.version} = ${entry_texts.version}
+  `);
+
+/**
+ * Extract text for extractable files whose current content hasn't been
+ * processed yet. Run periodically by the cron route.
+ */
+export const extractPendingContentText = async (db: Database) => {
+  const pending = await db
+    .select({ entry: file_system_entries })
+    .from(file_system_entries)
+    .leftJoin(entry_texts, eq(entry_texts.entry_id, file_system_entries.id))
+    .where(
+      and(
+        eq(file_system_entries.is_folder, false),
+        eq(file_system_entries.is_deleted, false),
+        sql`${entry_texts.version} is distinct from ${file_system_entries.version}`,
+        or(
+          like(file_system_entries.mime_type, 'text/%'),
+          eq(file_system_entries.mime_type, PDF_MIME_TYPE)
+        )
+      )
+    )
+    .orderBy(desc(file_system_entries.content_updated_at))
+    .limit(EXTRACTION_BATCH_SIZE);
+
+  let extracted = 0;
+
+  for (const { entry } of pending) {
+    try {
+      await extractContentText(db, entry);
+      extracted++;
+    } catch (error) {
+      console.error(`Failed to extract text of ${entry.id}:`, error);
+    }
+  }
+
+  return { extracted };
+};
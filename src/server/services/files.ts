@@ -0,0 +1,505 @@
+import type { Database } from '@/db';
+import {
+  blobs,
+  file_system_entries,
+  file_versions,
+  users,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { getEntryAccess } from '@/server/authorization';
+import { collectGarbageBlobs } from '@/server/services/blobs';
+import { recordChangeQuery } from '@/server/services/changes';
+import {
+  and,
+  eq,
+  ilike,
+  inArray,
+  isNull,
+  ne,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import { z } from 'zod';
+
+// MIME type stored for folder rows
+export const FOLDER_MIME_TYPE = 'folder';
+
+// Rows removed per DELETE statement when purging
+const DELETE_BATCH_SIZE = 1000;
+
+// Display name of a file or folder - slashes would break `path`
+export const entryNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(255)
+  .refine((name) => !name.includes('/'), 'Name cannot contain "/".');
+
+/**
+ * Build the materialized `path` of an entry from its parent's path.
+ *
+ * Folders end with a trailing slash so prefix matches on `path` only
+ * ever hit their descendants (e.g. "/Documents/" vs "/Documents Old/").
+ */
+export const buildPath = (
+  parentPath: string | null,
+  name: string,
+  isFolder: boolean
+) => `${parentPath ?? '/'}${name}${isFolder ? '/' : ''}`;
+
+/**
+ * The fields of an entry returned to clients.
+ *
+ * Picked explicitly, so a column added later stays server-only until
+ * it's listed here. `blob_id` is internal; clients go through the API
+ * to read bytes instead of addressing storage directly.
+ */
+export const toClientEntry = (entry: FileSystemEntry) => ({
+  id: entry.id,
+  name: entry.name,
+  path: entry.path,
+  size_bytes: entry.size_bytes,
+  mime_type: entry.mime_type,
+  owner_id: entry.owner_id,
+  parent_id: entry.parent_id,
+  version: entry.version,
+  content_author_id: entry.content_author_id,
+  content_updated_at: entry.content_updated_at,
+  is_folder: entry.is_folder,
+  is_starred: entry.is_starred,
+  is_deleted: entry.is_deleted,
+  deleted_at: entry.deleted_at,
+  trash_root_id: entry.trash_root_id,
+  original_parent_id: entry.original_parent_id,
+  created_at: entry.created_at,
+  updated_at: entry.updated_at,
+});
+
+export type ClientEntry = ReturnType<typeof toClientEntry>;
+
+/**
+ * Materialized path of an entry's parent, or `null` at the root.
+ */
+export const getParentPath = async (db: Database, entry: FileSystemEntry) => {
+  if (!entry.parent_id) return null;
+
+  const parent = await db.query.file_system_entries.findFirst({
+    columns: { path: true },
+    where: eq(file_system_entries.id, entry.parent_id),
+  });
+
+  return parent?.path ?? null;
+};
+
+export type Breadcrumb = Pick<FileSystemEntry, 'id' | 'name'>;
+
+type BreadcrumbRow = Breadcrumb & { parent: { id: string } | null };
+
+/**
+ * Build the breadcrumb trail from the root down to (and including) an entry.
+ *
+ * Walks upward through the `parent` relation one level at a time. The
+ * walk is bounded by a visited set so a corrupted tree can't loop forever.
+ * For collaborators the trail starts at the highest folder shared with
+ * them, so nothing above it in the owner's drive is revealed.
+ */
+export const getBreadcrumbs = async (
+  db: Database,
+  userId: string,
+  entry: FileSystemEntry
+) => {
+  const breadcrumbs: Breadcrumb[] = [];
+  const visited = new Set<string>();
+  let currentId: string | null = entry.id;
+
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId);
+
+    const current: BreadcrumbRow | undefined =
+      await db.query.file_system_entries.findFirst({
+        columns: { id: true, name: true },
+        where: and(
+          eq(file_system_entries.id, currentId),
+          eq(file_system_entries.owner_id, entry.owner_id)
+        ),
+        with: { parent: { columns: { id: true } } },
+      });
+
+    if (!current) break;
+
+    breadcrumbs.unshift({ id: current.id, name: current.name });
+    currentId = current.parent?.id ?? null;
+  }
+
+  if (entry.owner_id === userId) return breadcrumbs;
+
+  const access = await getEntryAccess(db, userId, entry);
+  const start = breadcrumbs.findIndex(({ id }) => id === access?.visibleRootId);
+
+  return start === -1 ? [] : breadcrumbs.slice(start);
+};
+
+/**
+ * Subquery selecting the IDs of an entry and all of its descendants.
+ *
+ * Uses a recursive CTE so callers can update or delete a whole subtree
+ * in a single statement. Trashed descendants are skipped unless
+ * `includeDeleted` is set, since they belong to their own trash item.
+ * UNION (not UNION ALL) keeps a corrupted, cyclic tree from recursing
+ * forever.
+ */
+export const subtreeIds = (
+  ownerId: string,
+  rootId: string,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+) => sql`(
+  with recursive subtree as (
+    select ${file_system_entries.id} from ${file_system_entries}
+    where ${file_system_entries.id} = ${rootId}
+      and ${file_system_entries.owner_id} = ${ownerId}
+    union
+    select child.id from ${file_system_entries} child
+    join subtree on child.parent_id = subtree.id
+    where child.owner_id = ${ownerId}
+      ${includeDeleted ? sql`` : sql`and child.is_deleted = false`}
+  )
+  select id from subtree
+)`;
+
+/**
+ * Check whether `entryId` is `ancestorId` itself or lies beneath it.
+ *
+ * Walks upward from the entry, so the cost is the entry's depth rather
+ * than the size of the ancestor's subtree.
+ */
+export const isWithinSubtree = async (
+  db: Database,
+  ancestorId: string,
+  entryId: string
+) => {
+  if (ancestorId === entryId) return true;
+
+  const result = await db.execute(sql`
+    with recursive ancestors as (
+      select ${file_system_entries.id}, ${file_system_entries.parent_id}
+      from ${file_system_entries}
+      where ${file_system_entries.id} = ${entryId}
+      union
+      select parent.id, parent.parent_id from ${file_system_entries} parent
+      join ancestors on parent.id = ancestors.parent_id
+    )
+    select 1 from ancestors where id = ${ancestorId} limit 1
+  `);
+
+  return result.rows.length > 0;
+};
+
+// Guards recursive path rewrites against corrupted (cyclic) trees
+const MAX_TREE_DEPTH = 1000;
+
+/**
+ * Query recomputing the `path` of every descendant of an entry from its
+ * parent chain, starting from the entry's `rootPath`. Unexecuted, so it
+ * can run in the same batch as the change that made paths stale.
+ *
+ * Trashed descendants are included: they keep their place in the tree
+ * until restored or purged.
+ */
+export const rewriteDescendantPathsQuery = (
+  db: Database,
+  ownerId: string,
+  rootId: string,
+  rootPath: string
+) =>
+  db.execute(sql`
+    with recursive tree as (
+      select ${file_system_entries.id} as id, ${rootPath}::text as path, 0 as depth
+      from ${file_system_entries}
+      where ${file_system_entries.id} = ${rootId}
+      union all
+      select child.id,
+        tree.path || child.name || case when child.is_folder then '/' else '' end,
+        tree.depth + 1
+      from ${file_system_entries} child
+      join tree on child.parent_id = tree.id
+      where child.owner_id = ${ownerId} and tree.depth < ${MAX_TREE_DEPTH}
+    )
+    update ${file_system_entries} set path = tree.path
+    from tree
+    where ${file_system_entries.id} = tree.id
+      and ${file_system_entries.path} <> tree.path
+  `);
+
+// Where `relocateEntryQueries` puts an entry, and under what name
+type Destination = {
+  parentId: string | null;
+  parentPath: string | null;
+  name: string;
+};
+
+/**
+ * Query locking a drive's owner until the transaction ends, so moves
+ * within the drive run one at a time. Batch it before moves: the check
+ * in `relocateEntryQueries` then sees any move that committed while it
+ * waited, so two crossing moves can't both pass it and form a cycle.
+ */
+export const lockDriveQuery = (db: Database, ownerId: string) =>
+  db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, ownerId))
+    .for('update');
+
+// Violated by moves into the entry's own subtree (see `isMoveIntoItself`)
+const NOT_OWN_PARENT_CHECK = 'file_system_entries_not_own_parent';
+
+/**
+ * Whether a failed write was a move into the entry's own subtree.
+ */
+export const isMoveIntoItself = (error: unknown) => {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+
+  return (
+    typeof cause === 'object' &&
+    cause !== null &&
+    'constraint' in cause &&
+    cause.constraint === NOT_OWN_PARENT_CHECK
+  );
+};
+
+/**
+ * Queries renaming and/or moving an entry and rewriting the paths of
+ * everything beneath it, unexecuted so they share a transaction with
+ * whatever else the caller writes. The first returns the relocated
+ * entry.
+ *
+ * A move into the entry's own subtree fails the whole batch (see
+ * `isMoveIntoItself`). Callers are responsible for access checks, and
+ * for batching `lockDriveQuery` before moves.
+ */
+export const relocateEntryQueries = (
+  db: Database,
+  entry: FileSystemEntry,
+  { parentId, parentPath, name }: Destination
+) => {
+  const path = buildPath(parentPath, name, entry.is_folder);
+
+  return [
+    db
+      .update(file_system_entries)
+      .set({
+        name,
+        // Checked as it's written, so it sees the tree as committed; a
+        // destination within the entry makes it its own parent, which
+        // the NOT_OWN_PARENT_CHECK constraint rejects
+        parent_id:
+          parentId && parentId !== entry.parent_id
+            ? sql`case when exists (
+                with recursive ancestors as (
+                  select ${file_system_entries.id}, ${file_system_entries.parent_id}
+                  from ${file_system_entries}
+                  where ${file_system_entries.id} = ${parentId}
+                  union
+                  select parent.id, parent.parent_id from ${file_system_entries} parent
+                  join ancestors on parent.id = ancestors.parent_id
+                )
+                select 1 from ancestors where id = ${entry.id}
+              ) then ${file_system_entries.id} else ${parentId}::uuid end`
+            : parentId,
+        path,
+      })
+      .where(eq(file_system_entries.id, entry.id))
+      .returning(),
+    rewriteDescendantPathsQuery(db, entry.owner_id, entry.id, path),
+    // Collaborators of the old folder hear about moves out of it
+    recordChangeQuery(db, {
+      entryId: entry.id,
+      kind: 'move',
+      alsoUnder: entry.parent_id !== parentId ? entry.parent_id : null,
+    }),
+  ] as const;
+};
+
+/**
+ * Load an entry and all of its non-deleted descendants.
+ */
+export const getSubtree = async (
+  db: Database,
+  ownerId: string,
+  root: FileSystemEntry
+) =>
+  db
+    .select()
+    .from(file_system_entries)
+    .where(inArray(file_system_entries.id, subtreeIds(ownerId, root.id)));
+
+/**
+ * Split a file name into base and extension ("a.tar.gz" -> "a.tar", ".gz").
+ * Dotfiles and folders have no extension.
+ */
+const splitExtension = (name: string, isFolder: boolean) => {
+  const dot = name.lastIndexOf('.');
+
+  if (isFolder || dot <= 0) return { base: name, extension: '' };
+
+  return { base: name.slice(0, dot), extension: name.slice(dot) };
+};
+
+/**
+ * Find a name that is free among a folder's non-deleted children.
+ *
+ * Returns `name` itself if nothing uses it (case-insensitively), otherwise
+ * the first free "name (1).ext", "name (2).ext", ... Lower-cased names
+ * in `reserved` count as used, for callers placing several entries in
+ * the folder at once.
+ */
+export const getAvailableName = async (
+  db: Database,
+  ownerId: string,
+  parentId: string | null,
+  name: string,
+  isFolder: boolean,
+  excludeId?: string,
+  reserved: ReadonlySet<string> = new Set()
+) => {
+  const { base, extension } = splitExtension(name, isFolder);
+
+  const siblings = await db
+    .select({ name: file_system_entries.name })
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.owner_id, ownerId),
+        eq(file_system_entries.is_deleted, false),
+        parentId
+          ? eq(file_system_entries.parent_id, parentId)
+          : isNull(file_system_entries.parent_id),
+        excludeId ? ne(file_system_entries.id, excludeId) : undefined,
+        ilike(
+          file_system_entries.name,
+          `${base.replace(/[\\%_]/g, '\\$&')}%`
+        )
+      )
+    );
+
+  const taken = new Set([
+    ...reserved,
+    ...siblings.map((sibling) => sibling.name.toLowerCase()),
+  ]);
+
+  let candidate = name;
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+
+  return candidate;
+};
+
+/**
+ * Delete the entries matching `where` in one statement, releasing the
+ * owners' storage usage and blob references for exactly those rows.
+ *
+ * Older versions go with their file (FK cascade) and free space too.
+ * Returns the number of entries deleted and the blobs released.
+ */
+const purgeEntries = async (db: Database, where: SQL) => {
+  const result = await db.execute(sql`
+    with deleted as (
+      delete from ${file_system_entries}
+      where ${where}
+      returning id, owner_id, size_bytes, blob_id
+    ),
+    freed as (
+      select owner_id, size_bytes, blob_id from deleted
+      union all
+      select deleted.owner_id, version.size_bytes, version.blob_id
+      from ${file_versions} version
+      join deleted on version.entry_id = deleted.id
+    ),
+    usage as (
+      update ${users}
+      set storage_used_bytes = greatest(${users.storageUsedBytes} - bytes.total, 0)
+      from (
+        select owner_id, sum(size_bytes) as total from freed group by owner_id
+      ) as bytes
+      where ${users.id}::text = bytes.owner_id
+    ),
+    refs as (
+      update ${blobs}
+      set ref_count = ${blobs.ref_count} - refs.count
+      from (
+        select blob_id, count(*) as count from freed
+        where blob_id is not null
+        group by blob_id
+      ) as refs
+      where ${blobs.id} = refs.blob_id
+      returning ${blobs.id} as id
+    )
+    select
+      (select count(*) from deleted)::int as deleted,
+      coalesce((select array_agg(id::text) from refs), '{}') as released
+  `);
+
+  const [row] = result.rows as { deleted: number; released: string[] }[];
+  return row;
+};
+
+/**
+ * Permanently delete trashed entries and the blobs behind them,
+ * including their version history.
+ *
+ * Only entries still in the trash as they were read (with the same
+ * `trash_root_id`) are deleted, so one restored meanwhile survives.
+ * Each chunk is one statement, so nothing can reference a missing
+ * blob. Blobs still used elsewhere are kept. Returns the number of
+ * entries deleted.
+ */
+export const deleteEntriesPermanently = async (
+  db: Database,
+  entries: FileSystemEntry[]
+) => {
+  const released: string[] = [];
+  let deleted = 0;
+
+  // Keep statements a reasonable size for very large subtrees
+  for (let i = 0; i < entries.length; i += DELETE_BATCH_SIZE) {
+    const batch = entries.slice(i, i + DELETE_BATCH_SIZE);
+
+    const row = await purgeEntries(
+      db,
+      sql`${file_system_entries.is_deleted} = true
+        and (${file_system_entries.id}, ${file_system_entries.trash_root_id})
+          in (values ${sql.join(
+            batch.map(
+              ({ id, trash_root_id }) =>
+                sql`(${id}::uuid, ${trash_root_id}::uuid)`
+            ),
+            sql`, `
+          )})`
+    );
+    deleted += row.deleted;
+    released.push(...row.released);
+  }
+
+  await collectGarbageBlobs(db, [...new Set(released)]);
+
+  return deleted;
+};
+
+/**
+ * Permanently delete everything in a user's drive, trashed or not,
+ * with its version history, share links and the blobs behind it.
+ *
+ * Used when the account itself is deleted. Returns the number of
+ * entries deleted.
+ */
+export const deleteDrive = async (db: Database, ownerId: string) => {
+  const { deleted, released } = await purgeEntries(
+    db,
+    sql`${file_system_entries.owner_id} = ${ownerId}`
+  );
+
+  await collectGarbageBlobs(db, released);
+
+  return deleted;
+};
@@ -0,0 +1,90 @@
+import { sql, type AnyColumn } from 'drizzle-orm';
+
+/**
+ * MIME Categories
+ *
+ * Coarse groupings of MIME types used for the storage meter and search
+ * filters. Each category lists the `mime_type` LIKE patterns it covers;
+ * anything unmatched falls into "other".
+ */
+export const MIME_CATEGORIES = {
+  image: ['image/%'],
+  video: ['video/%'],
+  audio: ['audio/%'],
+  document: [
+    'text/%',
+    'application/pdf',
+    'application/rtf',
+    'application/msword',
+    'application/vnd.ms-%',
+    'application/vnd.openxmlformats-officedocument.%',
+    'application/vnd.oasis.opendocument.%',
+    'application/json',
+  ],
+  archive: [
+    'application/zip',
+    'application/gzip',
+    'application/x-tar',
+    'application/x-7z-compressed',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+    'application/x-bzip2',
+    'application/x-xz',
+  ],
+} as const;
+
+export type MimeCategory = keyof typeof MIME_CATEGORIES | 'other';
+
+export const mimeCategoryNames = [
+  ...(Object.keys(MIME_CATEGORIES) as (keyof typeof MIME_CATEGORIES)[]),
+  'other',
+] as const satisfies readonly MimeCategory[];
+
+/**
+ * Category of a single MIME type, matching the SQL helpers below.
+ */
+export const mimeCategoryOf = (mimeType: string): MimeCategory => {
+  const matches = (pattern: string) =>
+    pattern.endsWith('%')
+      ? mimeType.startsWith(pattern.slice(0, -1))
+      : mimeType === pattern;
+
+  const category = (
+    Object.keys(MIME_CATEGORIES) as (keyof typeof MIME_CATEGORIES)[]
+  ).find((name) => MIME_CATEGORIES[name].some(matches));
+
+  return category ?? 'other';
+};
+
+/**
+ * Condition matching rows whose MIME type falls in a category.
+ */
+export const mimeCategoryCondition = (
+  column: AnyColumn,
+  category: MimeCategory
+) => {
+  if (category === 'other') {
+    const all = Object.values(MIME_CATEGORIES).flat();
+    return sql`not (${sql.join(
+      all.map((pattern) => sql`${column} like ${pattern}`),
+      sql` or `
+    )})`;
+  }
+
+  return sql`(${sql.join(
+    MIME_CATEGORIES[category].map((pattern) => sql`${column} like ${pattern}`),
+    sql` or `
+  )})`;
+};
+
+/**
+ * SQL expression mapping a MIME type column to its category name.
+ */
+export const mimeCategoryExpression = (column: AnyColumn) =>
+  sql<MimeCategory>`case ${sql.join(
+    Object.keys(MIME_CATEGORIES).map(
+      (category) =>
+        sql`when ${mimeCategoryCondition(column, category as MimeCategory)} then ${category}`
+    ),
+    sql` `
+  )} else 'other' end`;
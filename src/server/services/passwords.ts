@@ -0,0 +1,37 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with scrypt and a random salt ("salt:hash", hex).
+ */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+/**
+ * Check a password against a hash produced by `hashPassword`.
+ */
+export const verifyPassword = async (password: string, stored: string) => {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, 'hex'),
+    expected.length
+  );
+
+  return timingSafeEqual(expected, actual);
+};
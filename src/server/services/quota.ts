@@ -0,0 +1,71 @@
+import type { Database } from '@/db';
+import { users } from '@/db/schema';
+import { TRPCError } from '@trpc/server';
+import { and, eq, lte, sql } from 'drizzle-orm';
+
+/**
+ * Reserve storage for bytes about to be uploaded.
+ *
+ * A single conditional UPDATE checks the quota and increments usage
+ * atomically, so concurrent uploads can't jointly exceed the quota.
+ * Throws PAYLOAD_TOO_LARGE when the bytes don't fit.
+ */
+export const reserveStorage = async (
+  db: Database,
+  userId: string,
+  bytes: number
+) => {
+  if (bytes === 0) return;
+
+  const [updated] = await db
+    .update(users)
+    .set({ storageUsedBytes: sql`${users.storageUsedBytes} + ${bytes}` })
+    .where(
+      and(
+        eq(users.id, userId),
+        lte(
+          sql`${users.storageUsedBytes} + ${bytes}`,
+          sql`${users.storageQuotaBytes}`
+        )
+      )
+    )
+    .returning({ id: users.id });
+
+  if (!updated) {
+    throw new TRPCError({
+      code: 'PAYLOAD_TOO_LARGE',
+      message: 'Storage quota exceeded.',
+    });
+  }
+};
+
+/**
+ * Query returning reserved bytes to a user's quota.
+ *
+ * Returned unexecuted so it can run in the same `db.batch` (and thus
+ * the same transaction) as the statement that frees the bytes.
+ */
+export const releaseStorageQuery = (
+  db: Database,
+  userId: string,
+  bytes: number
+) =>
+  db
+    .update(users)
+    .set({
+      storageUsedBytes: sql`greatest(${users.storageUsedBytes} - ${bytes}, 0)`,
+    })
+    .where(eq(users.id, userId));
+
+/**
+ * Return reserved bytes to a user's quota.
+ */
+export const releaseStorage = async (
+  db: Database,
+  userId: string,
+  bytes: number
+) => {
+  if (bytes === 0) return;
+
+  await releaseStorageQuery(db, userId, bytes);
+};
@@ -0,0 +1,164 @@
+import type { Database } from '@/db';
+import { Client, neonConfig } from '@neondatabase/serverless';
+import { sql } from 'drizzle-orm';
+import { Client as PgClient } from 'pg';
+import ws from 'ws';
+
+/**
+ * Real-Time Notifications
+ *
+ * Writes announce themselves with Postgres NOTIFY, delivered when their
+ * transaction commits, and every server instance LISTENs on one shared
+ * connection and hands each notification to the streams subscribed to
+ * its payload. Notifications only say *that* something changed; streams
+ * read the details from the database, so a missed one costs latency,
+ * not correctness.
+ *
+ * LISTEN needs a session that outlives a single query, so it uses a
+ * WebSocket connection (from `ws`, as Node only has a global WebSocket
+ * from 22) rather than the HTTP driver, and can't go through a
+ * transaction-mode pooler: set
+ * DATABASE_LISTEN_URL to the direct (non-pooled) connection string if
+ * DATABASE_URL is pooled. With DATABASE_DRIVER=node-postgres it's a
+ * regular TCP connection instead. PGlite runs in-process and has no
+ * second session to listen on, so there streams fall back to polling,
+ * as they do while the connection can't be made.
+ */
+
+// Channels and what their payloads identify
+export type Channel =
+  // A user's change feed grew (payload: users.id)
+  | 'entry_changes'
+  // A user row was created, updated or deleted (payload: Clerk user ID)
+  | 'accounts';
+
+type Listener = () => void;
+
+// Delay before reconnecting after the connection drops
+const RECONNECT_MS = 1000;
+
+// Subscribers by channel, then by payload
+const subscribers = new Map<Channel, Map<string, Set<Listener>>>();
+
+let connection: Promise<Client> | null = null;
+
+const isSupported = process.env.DATABASE_DRIVER !== 'pglite';
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Query notifying a channel. Unexecuted, so it can run in the same
+ * batch as the write it announces.
+ */
+export const notifyQuery = (db: Database, channel: Channel, payload: string) =>
+  db.execute(sql`select pg_notify(${channel}, ${payload})`);
+
+// Call every listener, e.g. after a reconnect when notifications may
+// have been missed
+const notifyAll = () => {
+  for (const byPayload of subscribers.values()) {
+    for (const listeners of byPayload.values()) {
+      for (const listener of listeners) listener();
+    }
+  }
+};
+
+const connect = async () => {
+  const url = process.env.DATABASE_LISTEN_URL ?? process.env.DATABASE_URL;
+  // Neon's client is node-postgres' over a WebSocket, so both fit
+  const client =
+    process.env.DATABASE_DRIVER === 'node-postgres'
+      ? (new PgClient(url) as unknown as Client)
+      : new Client(url);
+
+  client.on('notification', ({ channel, payload }) => {
+    const listeners = subscribers.get(channel as Channel)?.get(payload ?? '');
+    for (const listener of listeners ?? []) listener();
+  });
+
+  const reconnect = () => {
+    if (connection === null) return;
+    connection = null;
+    client.end().catch(() => {});
+
+    setTimeout(() => {
+      if (subscribers.size === 0 || connection) return;
+      ensureConnection()
+        .then(notifyAll)
+        .catch((error) => console.error('LISTEN reconnect failed:', error));
+    }, RECONNECT_MS);
+  };
+
+  client.on('error', (error) => {
+    console.error('LISTEN connection error:', error);
+    reconnect();
+  });
+  client.on('end', reconnect);
+
+  await client.connect();
+  for (const channel of subscribers.keys()) {
+    await client.query(`LISTEN ${channel}`);
+  }
+
+  return client;
+};
+
+const ensureConnection = () => {
+  connection ??= connect().catch((error) => {
+    connection = null;
+    throw error;
+  });
+
+  return connection;
+};
+
+/**
+ * Call `listener` whenever `channel` is notified with `payload`.
+ *
+ * Resolves once the notification would be received, to a function that
+ * unsubscribes. The shared connection is closed when the last
+ * subscriber leaves. Where notifications aren't supported, `listener`
+ * is never called, nor is it while the connection fails; a later
+ * subscriber's connection listens for it too.
+ */
+export const subscribe = async (
+  channel: Channel,
+  payload: string,
+  listener: Listener
+) => {
+  if (!isSupported) return () => {};
+
+  const isNewChannel = !subscribers.has(channel);
+  const byPayload = subscribers.get(channel) ?? new Map();
+  const listeners = byPayload.get(payload) ?? new Set();
+
+  listeners.add(listener);
+  byPayload.set(payload, listeners);
+  subscribers.set(channel, byPayload);
+
+  const unsubscribe = () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) byPayload.delete(payload);
+    if (byPayload.size === 0) subscribers.delete(channel);
+
+    if (subscribers.size === 0 && connection) {
+      const closing = connection;
+      connection = null;
+      closing.then((client) => client.end()).catch(() => {});
+    }
+  };
+
+  try {
+    const wasConnected = connection !== null;
+    const client = await ensureConnection();
+
+    // A fresh connection listens on every channel as it connects
+    if (isNewChannel && wasConnected) {
+      await client.query(`LISTEN ${channel}`);
+    }
+  } catch (error) {
+    console.error('LISTEN failed; subscribers fall back to polling:', error);
+  }
+
+  return unsubscribe;
+};
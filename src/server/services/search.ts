@@ -0,0 +1,244 @@
+import type { Database } from '@/db';
+import {
+  entry_texts,
+  file_system_entries,
+  type FileSystemEntry,
+} from '@/db/schema';
+import { subtreeIds, toClientEntry } from '@/server/services/files';
+import {
+  mimeCategoryCondition,
+  type MimeCategory,
+} from '@/server/services/mime';
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lte,
+  ne,
+  or,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+
+// Markers ts_headline wraps matches in, split out before returning
+const START_MATCH = '\u0001';
+const STOP_MATCH = '\u0002';
+
+// Full-text document of an entry's name and path, as indexed by
+// file_system_entries_search_idx (see schema) - it must stay identical
+const nameVector = sql`(setweight(to_tsvector('simple', ${file_system_entries.name}), 'A') || setweight(to_tsvector('simple', ${file_system_entries.path}), 'C'))`;
+
+const HEADLINE_OPTIONS = [
+  `StartSel="${START_MATCH}"`,
+  `StopSel="${STOP_MATCH}"`,
+  'MaxFragments=2',
+  'MinWords=8',
+  'MaxWords=24',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+/**
+ * A run of text in a highlighted snippet. Clients render `match` runs
+ * emphasised; the text is never markup, so it must be escaped as usual.
+ */
+export type HighlightSegment = { text: string; match: boolean };
+
+export type SearchFilters = {
+  // Only search within this folder's subtree (owned by `ownerId`)
+  folder?: FileSystemEntry | null;
+  category?: MimeCategory;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  minSize?: number;
+  maxSize?: number;
+  starred?: boolean;
+  // Search the trash instead of live entries
+  trashed: boolean;
+};
+
+// Escape LIKE wildcards so the query matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Match both unstemmed names/paths and stemmed content: the document
+ * uses the 'simple' config for the former and 'english' for the latter.
+ */
+const toTsQuery = (query: string) =>
+  sql`(websearch_to_tsquery('simple', ${query}) || websearch_to_tsquery('english', ${query}))`;
+
+/**
+ * Split ts_headline output into plain and matched segments.
+ */
+const toSegments = (headline: string): HighlightSegment[] =>
+  headline
+    .split(START_MATCH)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, match: false }];
+
+      const [matched, rest = ''] = part.split(STOP_MATCH);
+      return [
+        { text: matched, match: true },
+        { text: rest, match: false },
+      ];
+    })
+    .filter(({ text }) => text.length > 0);
+
+/**
+ * Highlight case-insensitive occurrences of the query's words in a
+ * name. Done here rather than with ts_headline so fuzzy and substring
+ * matches are highlighted too.
+ */
+const highlightName = (name: string, query: string): HighlightSegment[] => {
+  const words = query
+    .toLowerCase()
+    .split(/[\s"]+/)
+    .map((word) => word.replace(/^-/, ''))
+    .filter((word) => word.length > 0 && word !== 'or');
+
+  if (words.length === 0) return [{ text: name, match: false }];
+
+  const pattern = new RegExp(
+    `(${words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+    'gi'
+  );
+
+  // Captured (matched) parts land at odd indexes
+  return name
+    .split(pattern)
+    .map((text, index) => ({ text, match: index % 2 === 1 }))
+    .filter(({ text }) => text.length > 0);
+};
+
+/**
+ * Search entries by name, path and extracted content.
+ *
+ * An entry matches when the full-text query matches its search
+ * document, its name is trigram-similar to the query (typos), or the
+ * query appears literally in its name or path. Results are ordered by
+ * full-text rank plus name similarity, best first.
+ */
+export const searchEntries = async (
+  db: Database,
+  ownerId: string,
+  query: string,
+  filters: SearchFilters,
+  { offset, limit }: { offset: number; limit: number }
+) => {
+  const tsQuery = toTsQuery(query);
+  const pattern = `%${escapeLike(query)}%`;
+
+  const rank = sql<number>`(ts_rank(${nameVector} || coalesce(${entry_texts.search_vector}, ''::tsvector), ${tsQuery}) + similarity(${file_system_entries.name}, ${query}))`;
+
+  const conditions: (SQL | undefined)[] = [
+    eq(file_system_entries.owner_id, ownerId),
+    eq(file_system_entries.is_deleted, filters.trashed),
+    or(
+      sql`${nameVector} @@ ${tsQuery}`,
+      sql`${entry_texts.search_vector} @@ ${tsQuery}`,
+      sql`${file_system_entries.name} % ${query}`,
+      sql`${file_system_entries.name} ilike ${pattern}`,
+      sql`${file_system_entries.path} ilike ${pattern}`
+    ),
+  ];
+
+  if (filters.folder) {
+    conditions.push(
+      inArray(
+        file_system_entries.id,
+        subtreeIds(ownerId, filters.folder.id, {
+          includeDeleted: filters.trashed,
+        })
+      ),
+      ne(file_system_entries.id, filters.folder.id)
+    );
+  }
+
+  if (filters.category) {
+    conditions.push(
+      eq(file_system_entries.is_folder, false),
+      mimeCategoryCondition(file_system_entries.mime_type, filters.category)
+    );
+  }
+
+  if (filters.createdAfter) {
+    conditions.push(gte(file_system_entries.created_at, filters.createdAfter));
+  }
+  if (filters.createdBefore) {
+    conditions.push(lte(file_system_entries.created_at, filters.createdBefore));
+  }
+  if (filters.modifiedAfter) {
+    conditions.push(gte(file_system_entries.updated_at, filters.modifiedAfter));
+  }
+  if (filters.modifiedBefore) {
+    conditions.push(
+      lte(file_system_entries.updated_at, filters.modifiedBefore)
+    );
+  }
+  if (filters.minSize !== undefined) {
+    conditions.push(gte(file_system_entries.size_bytes, filters.minSize));
+  }
+  if (filters.maxSize !== undefined) {
+    conditions.push(lte(file_system_entries.size_bytes, filters.maxSize));
+  }
+  if (filters.starred !== undefined) {
+    conditions.push(eq(file_system_entries.is_starred, filters.starred));
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select({
+      entry: file_system_entries,
+      rank,
+      hasText: sql<boolean>`${entry_texts.text} is not null`,
+    })
+    .from(file_system_entries)
+    .leftJoin(entry_texts, eq(entry_texts.entry_id, file_system_entries.id))
+    .where(and(...conditions))
+    .orderBy(desc(rank), asc(file_system_entries.id))
+    .limit(limit + 1)
+    .offset(offset);
+
+  const page = rows.slice(0, limit);
+
+  // Headlines are costly, so only build them for the page being returned
+  const withContent = page.filter(({ hasText }) => hasText);
+  const headlines = new Map(
+    withContent.length === 0
+      ? []
+      : (
+          await db
+            .select({
+              id: entry_texts.entry_id,
+              headline: sql<string>`ts_headline('english', ${entry_texts.text}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+            })
+            .from(entry_texts)
+            .where(
+              inArray(
+                entry_texts.entry_id,
+                withContent.map(({ entry }) => entry.id)
+              )
+            )
+        ).map(({ id, headline }) => [id, toSegments(headline)])
+  );
+
+  const items = page.map(({ entry, rank }) => {
+    const content = headlines.get(entry.id);
+
+    return {
+      entry: toClientEntry(entry),
+      rank,
+      highlights: {
+        name: highlightName(entry.name, query),
+        // Only worth showing when the content itself matched
+        content: content?.some(({ match }) => match) ? content : null,
+      },
+    };
+  });
+
+  return { items, hasMore: rows.length > limit };
+};
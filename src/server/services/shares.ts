@@ -0,0 +1,259 @@
+import type { Database } from '@/db';
+import {
+  file_system_entries,
+  share_links,
+  type FileSystemEntry,
+  type ShareLink,
+  type ShareLinkRole,
+} from '@/db/schema';
+import { isWithinSubtree } from '@/server/services/files';
+import { hashPassword, verifyPassword } from '@/server/services/passwords';
+import { sign, verifySignature } from '@/server/services/signed-urls';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+
+// How long unlocking a password-protected link lasts (1 hour)
+const SHARE_ACCESS_TTL_SECONDS = 60 * 60;
+
+/**
+ * Public view of a shared entry.
+ *
+ * Leaves out owner, path and storage details so a link never reveals
+ * anything about the owner's drive outside the shared item.
+ */
+export const toPublicEntry = (entry: FileSystemEntry) => ({
+  id: entry.id,
+  name: entry.name,
+  mime_type: entry.mime_type,
+  size_bytes: entry.size_bytes,
+  is_folder: entry.is_folder,
+  updated_at: entry.updated_at,
+});
+
+/**
+ * Owner's view of a share link - everything except the password hash.
+ */
+export const toClientShareLink = (link: ShareLink) => ({
+  id: link.id,
+  token: link.token,
+  url: `/api/share/${link.token}`,
+  entry_id: link.entry_id,
+  role: link.role,
+  has_password: link.password_hash !== null,
+  expires_at: link.expires_at,
+  max_downloads: link.max_downloads,
+  download_count: link.download_count,
+  revoked_at: link.revoked_at,
+  created_at: link.created_at,
+});
+
+/**
+ * Create a share link for an entry the caller owns.
+ *
+ * Upload-only links ("file requests") must point at a folder.
+ */
+export const createShareLink = async (
+  db: Database,
+  entry: FileSystemEntry,
+  input: {
+    role: ShareLinkRole;
+    password?: string | null;
+    expiresAt?: Date | null;
+    maxDownloads?: number | null;
+  }
+) => {
+  if (input.role === 'upload' && !entry.is_folder) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Upload links can only be created for folders.',
+    });
+  }
+
+  const [link] = await db
+    .insert(share_links)
+    .values({
+      token: randomBytes(24).toString('base64url'),
+      entry_id: entry.id,
+      owner_id: entry.owner_id,
+      role: input.role,
+      password_hash: input.password ? await hashPassword(input.password) : null,
+      expires_at: input.expiresAt ?? null,
+      max_downloads: input.maxDownloads ?? null,
+    })
+    .returning();
+
+  return link;
+};
+
+/**
+ * List a user's share links, optionally only those for one entry.
+ */
+export const listShareLinks = async (
+  db: Database,
+  ownerId: string,
+  entryId?: string
+) =>
+  db
+    .select()
+    .from(share_links)
+    .where(
+      and(
+        eq(share_links.owner_id, ownerId),
+        entryId ? eq(share_links.entry_id, entryId) : undefined
+      )
+    )
+    .orderBy(desc(share_links.created_at));
+
+/**
+ * Revoke one of the user's share links.
+ */
+export const revokeShareLink = async (
+  db: Database,
+  ownerId: string,
+  id: string
+) => {
+  const [link] = await db
+    .update(share_links)
+    .set({ revoked_at: new Date() })
+    .where(
+      and(
+        eq(share_links.id, id),
+        eq(share_links.owner_id, ownerId),
+        isNull(share_links.revoked_at)
+      )
+    )
+    .returning();
+
+  if (!link) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Share link not found.' });
+  }
+
+  return link;
+};
+
+/**
+ * Resolve a public token to a live link and its shared entry.
+ *
+ * Revoked, expired and unknown tokens, and links whose entry has been
+ * trashed, are all reported as NOT_FOUND.
+ */
+export const resolveShareLink = async (db: Database, token: string) => {
+  const link = await db.query.share_links.findFirst({
+    where: and(
+      eq(share_links.token, token),
+      isNull(share_links.revoked_at),
+      or(isNull(share_links.expires_at), sql`${share_links.expires_at} > now()`)
+    ),
+    with: { entry: true },
+  });
+
+  if (!link || link.entry.is_deleted) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Share link not found.' });
+  }
+
+  const { entry, ...rest } = link;
+
+  return { link: rest, entry };
+};
+
+/**
+ * Exchange a link password for a short-lived access token.
+ *
+ * The token is sent back on later requests (`X-Share-Access` header or
+ * `access` query param) so media tags can use it too.
+ */
+export const unlockShareLink = async (link: ShareLink, password: string) => {
+  if (!link.password_hash || !(await verifyPassword(password, link.password_hash))) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Wrong password.' });
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + SHARE_ACCESS_TTL_SECONDS;
+
+  return {
+    accessToken: `${expires}.${sign(`share:${link.id}:${expires}`)}`,
+    expiresAt: new Date(expires * 1000),
+  };
+};
+
+/**
+ * Whether a request may use the link: either it has no password, or
+ * the request carries a valid access token from `unlockShareLink`.
+ */
+export const hasShareAccess = (
+  link: ShareLink,
+  accessToken: string | undefined
+) => {
+  if (!link.password_hash) return true;
+  if (!accessToken) return false;
+
+  const [expires, signature] = accessToken.split('.');
+  if (!expires || !signature || Number(expires) * 1000 < Date.now()) {
+    return false;
+  }
+
+  return verifySignature(`share:${link.id}:${expires}`, signature);
+};
+
+/**
+ * Load an entry reachable through a link: the shared entry itself or
+ * (for folder links) anything beneath it.
+ */
+export const getSharedEntry = async (
+  db: Database,
+  link: ShareLink,
+  root: FileSystemEntry,
+  entryId: string | undefined
+) => {
+  if (!entryId || entryId === root.id) return root;
+
+  // Postgres rejects malformed UUIDs outright
+  if (!z.uuid().safeParse(entryId).success) throw entryNotFoundError();
+
+  const entry = await db.query.file_system_entries.findFirst({
+    where: and(
+      eq(file_system_entries.id, entryId),
+      eq(file_system_entries.owner_id, link.owner_id),
+      eq(file_system_entries.is_deleted, false)
+    ),
+  });
+
+  if (!entry || !(await isWithinSubtree(db, root.id, entry.id))) {
+    throw entryNotFoundError();
+  }
+
+  return entry;
+};
+
+const entryNotFoundError = () =>
+  new TRPCError({ code: 'NOT_FOUND', message: 'Entry not found.' });
+
+/**
+ * Count a download against the link's limit.
+ *
+ * A conditional increment, so concurrent downloads can't overshoot
+ * `max_downloads`.
+ */
+export const consumeShareDownload = async (db: Database, link: ShareLink) => {
+  const [updated] = await db
+    .update(share_links)
+    .set({ download_count: sql`${share_links.download_count} + 1` })
+    .where(
+      and(
+        eq(share_links.id, link.id),
+        or(
+          isNull(share_links.max_downloads),
+          lt(share_links.download_count, share_links.max_downloads)
+        )
+      )
+    )
+    .returning({ id: share_links.id });
+
+  if (!updated) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Download limit reached.',
+    });
+  }
+};
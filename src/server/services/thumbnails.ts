@@ -0,0 +1,349 @@
+import type { Database } from '@/db';
+import {
+  blobs,
+  file_system_entries,
+  type FileSystemEntry,
+  type ThumbnailStatus,
+} from '@/db/schema';
+import {
+  THUMBNAIL_SIZES,
+  thumbnailSizeNames,
+  type ThumbnailSize,
+  type ThumbnailUrls,
+} from '@/lib/thumbnails';
+import { thumbnailStorageKey } from '@/server/services/blobs';
+import { toClientEntry } from '@/server/services/files';
+import { mimeCategoryOf, type MimeCategory } from '@/server/services/mime';
+import { getStorage } from '@/server/storage';
+import { and, eq, inArray } from 'drizzle-orm';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import sharp from 'sharp';
+
+/**
+ * Thumbnails
+ *
+ * A background job renders every size in THUMBNAIL_SIZES for each new
+ * blob: images directly, PDFs from their first page and videos from a
+ * poster frame. PDFs and videos need `pdftoppm` (poppler) and `ffmpeg`
+ * on the PATH, or at PDFTOPPM_PATH / FFMPEG_PATH; without them those
+ * types are marked unsupported and clients show a MIME icon instead.
+ */
+
+// Larger sources are skipped rather than read into memory
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 256 * 1024 * 1024;
+
+// Guards against decompression bombs (about 16k x 16k)
+const MAX_INPUT_PIXELS = 268_402_689;
+
+// Time allowed for each external renderer run
+const TOOL_TIMEOUT_MS = 30_000;
+
+// Blobs processed per cron run
+const THUMBNAIL_BATCH_SIZE = 20;
+
+const THUMBNAIL_QUALITY = 80;
+
+const PDF_MIME_TYPE = 'application/pdf';
+
+const runTool = promisify(execFile);
+
+export type EntryIcon = MimeCategory | 'folder';
+
+/**
+ * Icon clients show for an entry without a thumbnail.
+ */
+export const entryIcon = (entry: FileSystemEntry): EntryIcon =>
+  entry.is_folder ? 'folder' : mimeCategoryOf(entry.mime_type);
+
+/**
+ * Run an external renderer, returning false if it isn't installed.
+ */
+const runRenderer = async (command: string, args: string[]) => {
+  try {
+    await runTool(command, args, { timeout: TOOL_TIMEOUT_MS });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+};
+
+const readObject = async (key: string) => {
+  const object = await getStorage().get(key);
+  if (!object) throw new Error(`Stored object ${key} not found`);
+
+  return new Uint8Array(await new Response(object.body).arrayBuffer());
+};
+
+/**
+ * Copy a stored object to a scratch directory for an external renderer,
+ * then clean up once `render` is done with it.
+ */
+const withLocalCopy = async <T>(
+  key: string,
+  render: (input: string, dir: string) => Promise<T>
+) => {
+  const dir = await mkdtemp(join(tmpdir(), 'thumbnail-'));
+
+  try {
+    const input = join(dir, 'input');
+    await writeFile(input, await readObject(key));
+
+    return await render(input, dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const readIfExists = (path: string) => readFile(path).catch(() => null);
+
+/**
+ * Render the first page of a PDF at the largest thumbnail size.
+ */
+const renderPdf = (key: string) =>
+  withLocalCopy(key, async (input, dir) => {
+    const output = join(dir, 'page');
+    const installed = await runRenderer(
+      process.env.PDFTOPPM_PATH ?? 'pdftoppm',
+      [
+        '-png',
+        '-singlefile',
+        '-f',
+        '1',
+        '-l',
+        '1',
+        '-scale-to',
+        String(THUMBNAIL_SIZES.large),
+        input,
+        output,
+      ]
+    );
+
+    return installed ? readFile(`${output}.png`) : null;
+  });
+
+/**
+ * Grab a poster frame from a video: one second in, or the first frame
+ * of clips shorter than that.
+ */
+const renderVideo = (key: string) =>
+  withLocalCopy(key, async (input, dir) => {
+    const ffmpeg = process.env.FFMPEG_PATH ?? 'ffmpeg';
+
+    for (const offset of ['1', '0']) {
+      const output = join(dir, `frame-${offset}.png`);
+      const installed = await runRenderer(ffmpeg, [
+        '-v',
+        'error',
+        '-ss',
+        offset,
+        '-i',
+        input,
+        '-frames:v',
+        '1',
+        output,
+      ]);
+
+      if (!installed) return null;
+
+      const frame = await readIfExists(output);
+      if (frame) return frame;
+    }
+
+    throw new Error('No video frame could be decoded');
+  });
+
+/**
+ * Produce a raster image to scale down for a blob, or null when there's
+ * no way to render its type here.
+ */
+const renderSource = async (
+  blob: { storage_key: string; size_bytes: number },
+  mimeType: string
+) => {
+  if (blob.size_bytes === 0) return null;
+
+  if (mimeType.startsWith('image/')) {
+    return blob.size_bytes <= MAX_IMAGE_BYTES
+      ? readObject(blob.storage_key)
+      : null;
+  }
+
+  if (mimeType === PDF_MIME_TYPE) {
+    return blob.size_bytes <= MAX_PDF_BYTES
+      ? renderPdf(blob.storage_key)
+      : null;
+  }
+
+  if (mimeType.startsWith('video/')) {
+    return blob.size_bytes <= MAX_VIDEO_BYTES
+      ? renderVideo(blob.storage_key)
+      : null;
+  }
+
+  return null;
+};
+
+/**
+ * Render and store every thumbnail size for a blob, returning the
+ * status to record for it.
+ */
+export const generateThumbnails = async (
+  blob: { id: string; storage_key: string; size_bytes: number },
+  mimeType: string
+): Promise<ThumbnailStatus> => {
+  const source = await renderSource(blob, mimeType);
+  if (!source) return 'unsupported';
+
+  // Orient by EXIF once; each size is resized from this
+  const image = sharp(source, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  try {
+    for (const size of thumbnailSizeNames) {
+      const pixels = THUMBNAIL_SIZES[size];
+      const thumbnail = await image
+        .clone()
+        .resize(pixels, pixels, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: THUMBNAIL_QUALITY })
+        .toBuffer();
+
+      await getStorage().put(thumbnailStorageKey(blob.id, size), thumbnail, {
+        contentType: 'image/webp',
+        size: thumbnail.byteLength,
+      });
+    }
+  } catch (error) {
+    // Formats libvips can't decode (e.g. HEIC without codecs)
+    if (
+      error instanceof Error &&
+      /unsupported image format/i.test(error.message)
+    ) {
+      return 'unsupported';
+    }
+    throw error;
+  }
+
+  return 'ready';
+};
+
+/**
+ * Render thumbnails for blobs in use by files that haven't been
+ * processed yet. Run periodically by the cron route.
+ */
+export const generatePendingThumbnails = async (db: Database) => {
+  // A blob's type comes from any file using it; versions alone don't count
+  const pending = await db
+    .selectDistinctOn([blobs.id], {
+      id: blobs.id,
+      storage_key: blobs.storage_key,
+      size_bytes: blobs.size_bytes,
+      mime_type: file_system_entries.mime_type,
+    })
+    .from(blobs)
+    .innerJoin(file_system_entries, eq(file_system_entries.blob_id, blobs.id))
+    .where(eq(blobs.thumbnail_status, 'pending'))
+    .orderBy(blobs.id)
+    .limit(THUMBNAIL_BATCH_SIZE);
+
+  const counts: Record<ThumbnailStatus, number> = {
+    pending: 0,
+    ready: 0,
+    unsupported: 0,
+    failed: 0,
+  };
+
+  for (const blob of pending) {
+    let status: ThumbnailStatus;
+
+    try {
+      status = await generateThumbnails(blob, blob.mime_type);
+    } catch (error) {
+      console.error(`Failed to render thumbnails of blob ${blob.id}:`, error);
+      status = 'failed';
+    }
+
+    await db
+      .update(blobs)
+      .set({ thumbnail_status: status })
+      .where(eq(blobs.id, blob.id));
+
+    counts[status]++;
+  }
+
+  const { ready, unsupported, failed } = counts;
+  return { ready, unsupported, failed };
+};
+
+/**
+ * URLs of an entry's thumbnails. The version makes each URL change with
+ * the content, so responses can be cached indefinitely.
+ */
+const thumbnailUrls = (entry: FileSystemEntry): ThumbnailUrls =>
+  Object.fromEntries(
+    thumbnailSizeNames.map((size) => [
+      size,
+      `/api/files/${entry.id}/thumbnails/${size}?v=${entry.version}`,
+    ])
+  ) as Record<ThumbnailSize, string>;
+
+/**
+ * Client entries for a listing, with thumbnail URLs where thumbnails
+ * are ready and the icon to fall back to otherwise.
+ */
+export const toListedEntries = async (
+  db: Database,
+  entries: FileSystemEntry[]
+) => {
+  const blobIds = entries.flatMap(({ blob_id }) => (blob_id ? [blob_id] : []));
+
+  const ready = new Set(
+    blobIds.length === 0
+      ? []
+      : (
+          await db
+            .select({ id: blobs.id })
+            .from(blobs)
+            .where(
+              and(
+                inArray(blobs.id, blobIds),
+                eq(blobs.thumbnail_status, 'ready')
+              )
+            )
+        ).map(({ id }) => id)
+  );
+
+  return entries.map((entry) => ({
+    ...toClientEntry(entry),
+    icon: entryIcon(entry),
+    thumbnails:
+      entry.blob_id && ready.has(entry.blob_id) ? thumbnailUrls(entry) : null,
+  }));
+};
+
+export type ListedEntry = Awaited<ReturnType<typeof toListedEntries>>[number];
+
+/**
+ * Read one of an entry's thumbnails, or null if it has none.
+ */
+export const getThumbnail = async (
+  db: Database,
+  entry: FileSystemEntry,
+  size: ThumbnailSize
+) => {
+  if (!entry.blob_id) return null;
+
+  const blob = await db.query.blobs.findFirst({
+    columns: { thumbnail_status: true },
+    where: eq(blobs.id, entry.blob_id),
+  });
+
+  if (blob?.thumbnail_status !== 'ready') return null;
+
+  return getStorage().get(thumbnailStorageKey(entry.blob_id, size));
+};
@@ -0,0 +1,269 @@
+import type { Database } from '@/db';
+import { file_system_entries, type FileSystemEntry } from '@/db/schema';
+import {
+  buildPath,
+  deleteEntriesPermanently,
+  getAvailableName,
+  subtreeIds,
+} from '@/server/services/files';
+import { recordChangeQuery } from '@/server/services/changes';
+import { isNameConflict } from '@/server/services/conflicts';
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+
+// How long trashed items are kept before being purged (default 30 days)
+export const TRASH_RETENTION_DAYS = Number(
+  process.env.TRASH_RETENTION_DAYS ?? 30
+);
+
+/**
+ * Load an item the user explicitly trashed (not one that was only
+ * trashed along with its parent).
+ */
+export const getOwnedTrashItem = async (
+  db: Database,
+  ownerId: string,
+  id: string
+) => {
+  const entry = await db.query.file_system_entries.findFirst({
+    where: and(
+      eq(file_system_entries.id, id),
+      eq(file_system_entries.owner_id, ownerId),
+      eq(file_system_entries.is_deleted, true),
+      eq(file_system_entries.trash_root_id, id)
+    ),
+  });
+
+  if (!entry) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Item not in trash.' });
+  }
+
+  return entry;
+};
+
+/**
+ * Move an entry and its whole subtree to the trash.
+ *
+ * Every tombstoned row records the trashed entry as its `trash_root_id`
+ * so the subtree can later be restored or purged as a unit. Done in a
+ * single transaction, so the subtree is never half-trashed.
+ */
+export const trashEntry = async (db: Database, entry: FileSystemEntry) => {
+  const [trashed] = await db.batch(trashEntryQueries(db, entry));
+
+  return { trashed: trashed.length };
+};
+
+/**
+ * Queries performing `trashEntry`, unexecuted so several entries can be
+ * trashed in one transaction. The first returns the trashed rows' IDs.
+ */
+export const trashEntryQueries = (db: Database, entry: FileSystemEntry) =>
+  [
+    db
+      .update(file_system_entries)
+      .set({
+        is_deleted: true,
+        deleted_at: new Date(),
+        trash_root_id: entry.id,
+        original_parent_id: sql`${file_system_entries.parent_id}`,
+      })
+      .where(
+        inArray(file_system_entries.id, subtreeIds(entry.owner_id, entry.id))
+      )
+      .returning({ id: file_system_entries.id }),
+    recordChangeQuery(db, { entryId: entry.id, kind: 'delete' }),
+  ] as const;
+
+/**
+ * Restore a trashed item and everything trashed with it.
+ *
+ * Items go back to their original folder. If that folder was purged or
+ * is itself in the trash, they are restored to the root instead; if the
+ * name is now taken there, the item is renamed to "name (1).ext".
+ *
+ * The location and name are worked out before the batch, so a request
+ * changing them in between (taking the name, trashing the folder, or
+ * restoring the same item) makes the restore fail with CONFLICT rather
+ * than apply partly.
+ */
+export const restoreEntry = async (db: Database, entry: FileSystemEntry) => {
+  const { queries, ...outcome } = await planRestore(db, entry);
+
+  const [[restored]] = await db.batch(queries).catch((error) => {
+    if (!isNameConflict(error)) throw error;
+    throw restoreConflictError();
+  });
+  if (!restored) throw restoreConflictError();
+
+  return { entry: restored, ...outcome };
+};
+
+const restoreConflictError = () =>
+  new TRPCError({
+    code: 'CONFLICT',
+    message: 'The item or its folder changed while it was restored. Try again.',
+  });
+
+/**
+ * Work out where `restoreEntry` puts an item, returning the queries
+ * that restore it, unexecuted so several items can be restored in one
+ * transaction. The first returns the restored item, or nothing if the
+ * item left the trash or its folder was trashed since it was planned;
+ * the rest of the restore is then skipped too.
+ *
+ * `claimed` maps folder IDs (or `null` for the root) to lower-cased
+ * names already given to other items in the same transaction; the name
+ * chosen here is added to it.
+ */
+export const planRestore = async (
+  db: Database,
+  entry: FileSystemEntry,
+  claimed = new Map<string | null, Set<string>>()
+) => {
+  const originalParent = entry.original_parent_id
+    ? await db.query.file_system_entries.findFirst({
+        where: and(
+          eq(file_system_entries.id, entry.original_parent_id),
+          eq(file_system_entries.owner_id, entry.owner_id),
+          eq(file_system_entries.is_deleted, false)
+        ),
+      })
+    : undefined;
+
+  const parentId = originalParent?.id ?? null;
+  const reserved = claimed.get(parentId) ?? new Set<string>();
+  const name = await getAvailableName(
+    db,
+    entry.owner_id,
+    parentId,
+    entry.name,
+    entry.is_folder,
+    undefined,
+    reserved
+  );
+
+  reserved.add(name.toLowerCase());
+  claimed.set(parentId, reserved);
+
+  const oldPath = entry.path;
+  const newPath = buildPath(originalParent?.path ?? null, name, entry.is_folder);
+
+  const queries = [
+    // Restore the root first so its new location and name are in place
+    db
+      .update(file_system_entries)
+      .set({
+        name,
+        parent_id: parentId,
+        path: newPath,
+        is_deleted: false,
+        deleted_at: null,
+        trash_root_id: null,
+        original_parent_id: null,
+      })
+      .where(
+        and(
+          eq(file_system_entries.id, entry.id),
+          eq(file_system_entries.trash_root_id, entry.id),
+          parentId
+            ? sql`exists (
+                select 1 from ${file_system_entries} parent
+                where parent.id = ${parentId} and parent.is_deleted = false
+              )`
+            : undefined
+        )
+      )
+      .returning(),
+
+    // Then its descendants, re-rooting their paths under the new location,
+    // provided the root was restored
+    db
+      .update(file_system_entries)
+      .set({
+        // Measured in SQL: substr counts characters, not UTF-16 units
+        path: sql`${newPath} || substr(${file_system_entries.path}, char_length(${oldPath}::text) + 1)`,
+        is_deleted: false,
+        deleted_at: null,
+        trash_root_id: null,
+        original_parent_id: null,
+      })
+      .where(
+        and(
+          eq(file_system_entries.owner_id, entry.owner_id),
+          eq(file_system_entries.trash_root_id, entry.id),
+          sql`exists (
+            select 1 from ${file_system_entries} root
+            where root.id = ${entry.id} and root.is_deleted = false
+          )`
+        )
+      ),
+
+    recordChangeQuery(db, { entryId: entry.id, kind: 'restore' }),
+  ] as const;
+
+  return {
+    queries,
+    renamed: name !== entry.name,
+    restoredToRoot: entry.original_parent_id !== null && !originalParent,
+  };
+};
+
+/**
+ * Permanently delete a trashed item and everything trashed with it.
+ */
+export const deleteTrashItem = async (db: Database, entry: FileSystemEntry) => {
+  const entries = await db
+    .select()
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.owner_id, entry.owner_id),
+        eq(file_system_entries.trash_root_id, entry.id)
+      )
+    );
+
+  return { deleted: await deleteEntriesPermanently(db, entries) };
+};
+
+/**
+ * Permanently delete everything in a user's trash.
+ */
+export const emptyTrash = async (db: Database, ownerId: string) => {
+  const entries = await db
+    .select()
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.owner_id, ownerId),
+        eq(file_system_entries.is_deleted, true)
+      )
+    );
+
+  return { deleted: await deleteEntriesPermanently(db, entries) };
+};
+
+/**
+ * Purge trash older than the retention window, for all users.
+ *
+ * Run periodically by the cron route. A whole subtree shares its
+ * `deleted_at`, so each trashed item is purged together with its contents.
+ */
+export const purgeExpiredTrash = async (
+  db: Database,
+  retentionDays = TRASH_RETENTION_DAYS
+) => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const entries = await db
+    .select()
+    .from(file_system_entries)
+    .where(
+      and(
+        eq(file_system_entries.is_deleted, true),
+        lt(file_system_entries.deleted_at, cutoff)
+      )
+    );
+
+  return { purged: await deleteEntriesPermanently(db, entries) };
+};
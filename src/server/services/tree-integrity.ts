@@ -0,0 +1,261 @@
+import type { Database } from '@/db';
+import { file_system_entries } from '@/db/schema';
+import { buildPath, getAvailableName } from '@/server/services/files';
+import { asc, eq, sql } from 'drizzle-orm';
+
+/**
+ * Tree Integrity
+ *
+ * `file_system_entries` stores both `parent_id` and a denormalized
+ * `path`. These checks find trees where the two have drifted apart or
+ * the parent links themselves are broken, and work out the repairs.
+ * Run through `npm run tree:check` (see scripts/check-tree.ts).
+ */
+
+export type TreeIssueType =
+  // parent_id points at a missing entry or one in another user's tree
+  | 'orphan'
+  // parent_id points at a file
+  | 'non_folder_parent'
+  // Following parent_id loops back without reaching the root
+  | 'cycle'
+  // path doesn't match the one built from the parent chain
+  | 'path_mismatch';
+
+export type TreeIssue = {
+  type: TreeIssueType;
+  ownerId: string;
+  entryId: string;
+  path: string;
+  // What the repair will do
+  repair: string;
+};
+
+type TreeRow = {
+  id: string;
+  name: string;
+  path: string;
+  parent_id: string | null;
+  is_folder: boolean;
+  is_deleted: boolean;
+};
+
+export type TreeReport = {
+  ownerId: string;
+  issues: TreeIssue[];
+  // New parent for entries that must be re-attached (null = root)
+  reparent: Map<string, string | null>;
+  // Corrected paths, after re-attachment
+  paths: Map<string, string>;
+};
+
+// Path updates per transaction when repairing
+const REPAIR_BATCH_SIZE = 100;
+
+/**
+ * Every owner with at least one entry.
+ */
+export const listTreeOwners = async (db: Database) => {
+  const owners = await db
+    .selectDistinct({ ownerId: file_system_entries.owner_id })
+    .from(file_system_entries)
+    .orderBy(asc(file_system_entries.owner_id));
+
+  return owners.map(({ ownerId }) => ownerId);
+};
+
+/**
+ * Check one user's tree. Read-only; pass the report to `repairTree`
+ * to apply the fixes it lists.
+ *
+ * The whole tree is loaded so broken links can be followed without
+ * recursive queries that would themselves trip over them. Trashed
+ * entries are included since they keep their place in the tree.
+ */
+export const checkTree = async (
+  db: Database,
+  ownerId: string
+): Promise<TreeReport> => {
+  const rows: TreeRow[] = await db
+    .select({
+      id: file_system_entries.id,
+      name: file_system_entries.name,
+      path: file_system_entries.path,
+      parent_id: file_system_entries.parent_id,
+      is_folder: file_system_entries.is_folder,
+      is_deleted: file_system_entries.is_deleted,
+    })
+    .from(file_system_entries)
+    .where(eq(file_system_entries.owner_id, ownerId))
+    .orderBy(asc(file_system_entries.created_at), asc(file_system_entries.id));
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const parents = new Map(rows.map((row) => [row.id, row.parent_id]));
+  const issues: TreeIssue[] = [];
+  const reparent = new Map<string, string | null>();
+
+  const attach = (
+    row: TreeRow,
+    type: TreeIssueType,
+    parentId: string | null
+  ) => {
+    parents.set(row.id, parentId);
+    reparent.set(row.id, parentId);
+    issues.push({
+      type,
+      ownerId,
+      entryId: row.id,
+      path: row.path,
+      repair: parentId
+        ? `move under ${byId.get(parentId)?.path ?? parentId}`
+        : 'move to the root',
+    });
+  };
+
+  // Closest ancestor (by the original links) that's a folder, if any
+  const nearestFolder = (row: TreeRow) => {
+    const seen = new Set([row.id]);
+
+    for (let id = row.parent_id; id && !seen.has(id); ) {
+      const ancestor = byId.get(id);
+      if (!ancestor) return null;
+      if (ancestor.is_folder) return ancestor.id;
+
+      seen.add(id);
+      id = ancestor.parent_id;
+    }
+
+    return null;
+  };
+
+  for (const row of rows) {
+    if (!row.parent_id) continue;
+
+    const parent = byId.get(row.parent_id);
+
+    if (!parent) {
+      attach(row, 'orphan', null);
+    } else if (!parent.is_folder) {
+      attach(row, 'non_folder_parent', nearestFolder(row));
+    }
+  }
+
+  // Walk up from every entry; reaching an entry already on the current
+  // walk means a cycle, broken by moving that entry to the root
+  const settled = new Set<string>();
+
+  for (const row of rows) {
+    const walk: string[] = [];
+    const onWalk = new Set<string>();
+
+    for (
+      let id: string | null | undefined = row.id;
+      id && !settled.has(id);
+      id = parents.get(id)
+    ) {
+      if (onWalk.has(id)) {
+        attach(byId.get(id)!, 'cycle', null);
+        break;
+      }
+
+      walk.push(id);
+      onWalk.add(id);
+    }
+
+    walk.forEach((id) => settled.add(id));
+  }
+
+  // With links repaired, rebuild every path from the root down
+  const expected = new Map<string, string>();
+
+  const expectedPath = (row: TreeRow): string => {
+    const known = expected.get(row.id);
+    if (known) return known;
+
+    const parentId = parents.get(row.id);
+    const parent = parentId ? byId.get(parentId) : undefined;
+    const path = buildPath(
+      parent ? expectedPath(parent) : null,
+      row.name,
+      row.is_folder
+    );
+
+    expected.set(row.id, path);
+    return path;
+  };
+
+  const paths = new Map<string, string>();
+
+  for (const row of rows) {
+    const path = expectedPath(row);
+
+    if (path !== row.path) {
+      paths.set(row.id, path);
+
+      // Entries being moved are already reported
+      if (!reparent.has(row.id)) {
+        issues.push({
+          type: 'path_mismatch',
+          ownerId,
+          entryId: row.id,
+          path: row.path,
+          repair: `set path to ${path}`,
+        });
+      }
+    }
+  }
+
+  return { ownerId, issues, reparent, paths };
+};
+
+/**
+ * Apply the repairs from a `checkTree` report.
+ *
+ * Re-attached live entries are renamed "name (1).ext" if their new
+ * folder already has a child with the same name, so paths are
+ * recomputed after re-attaching rather than taken from the report.
+ */
+export const repairTree = async (db: Database, report: TreeReport) => {
+  const { ownerId, reparent } = report;
+
+  for (const [id, parentId] of reparent) {
+    const entry = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, id),
+    });
+    if (!entry) continue;
+
+    const name = entry.is_deleted
+      ? entry.name
+      : await getAvailableName(
+          db,
+          ownerId,
+          parentId,
+          entry.name,
+          entry.is_folder,
+          entry.id
+        );
+
+    await db
+      .update(file_system_entries)
+      .set({ parent_id: parentId, name })
+      .where(eq(file_system_entries.id, id));
+  }
+
+  const { paths } = reparent.size > 0 ? await checkTree(db, ownerId) : report;
+  const updates = [...paths];
+
+  for (let i = 0; i < updates.length; i += REPAIR_BATCH_SIZE) {
+    const chunk = updates.slice(i, i + REPAIR_BATCH_SIZE);
+
+    await db.execute(sql`
+      update ${file_system_entries} set path = fixed.path
+      from (values ${sql.join(
+        chunk.map(([id, path]) => sql`(${id}::uuid, ${path})`),
+        sql`, `
+      )}) as fixed(id, path)
+      where ${file_system_entries.id} = fixed.id
+    `);
+  }
+
+  return { reparented: reparent.size, paths: paths.size };
+};
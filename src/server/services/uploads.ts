@@ -0,0 +1,679 @@
+import type { Database } from '@/db';
+import {
+  file_system_entries,
+  upload_sessions,
+  type ConflictPolicy,
+  type FileBlob,
+  type FileSystemEntry,
+  type UploadSession,
+} from '@/db/schema';
+import { authorizeFolder } from '@/server/authorization';
+import {
+  adoptBlob,
+  findOwnedBlob,
+  releaseBlobs,
+  retainBlobsQuery,
+} from '@/server/services/blobs';
+import { recordChangeQuery } from '@/server/services/changes';
+import {
+  batchReplacing,
+  findSibling,
+  resolveNameConflict,
+  rethrowNameConflict,
+} from '@/server/services/conflicts';
+import { buildPath } from '@/server/services/files';
+import {
+  releaseStorage,
+  releaseStorageQuery,
+  reserveStorage,
+} from '@/server/services/quota';
+import {
+  pruneVersionsSafely,
+  expectUpdatedContent,
+  replaceContentQueries,
+  replaceEntryContent,
+  toVersionConflict,
+} from '@/server/services/versions';
+import {
+  countBytes,
+  createStorageKey,
+  getStorage,
+  hashBytes,
+  MIN_PART_SIZE,
+} from '@/server/storage';
+import { TRPCError } from '@trpc/server';
+import { and, eq, lt } from 'drizzle-orm';
+
+// How long an idle upload session stays resumable (24 hours)
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const nextExpiry = () => new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+
+type RequestBody = {
+  mimeType: string;
+  size: number;
+  body: ReadableStream<Uint8Array>;
+};
+
+/**
+ * Stream a request body into storage as a blob, then `commit` it.
+ *
+ * `size` (the request's Content-Length) is reserved against the
+ * owner's quota before any bytes are read. The body is hashed on the
+ * way through, so content that's already stored is kept only once.
+ * If the body turns out to be a different length, or anything fails,
+ * the blob reference and reservation are rolled back.
+ */
+const storeRequestBody = async <T>(
+  db: Database,
+  ownerId: string,
+  { mimeType, size, body }: RequestBody,
+  commit: (blob: FileBlob) => Promise<T>
+) => {
+  await reserveStorage(db, ownerId, size);
+
+  const storage = getStorage();
+  const key = createStorageKey(ownerId);
+  let blob: FileBlob | undefined;
+
+  try {
+    const hashed = hashBytes(body);
+    const { stream, getSize } = countBytes(hashed.stream);
+    await storage.put(key, stream, { contentType: mimeType, size });
+
+    if (getSize() !== size) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Body length does not match Content-Length.',
+      });
+    }
+
+    blob = await adoptBlob(db, {
+      storageKey: key,
+      sha256: hashed.getSha256(),
+      size,
+    });
+
+    return await commit(blob);
+  } catch (error) {
+    // Don't leave an unreferenced blob or a stale reservation behind
+    if (blob) {
+      await releaseBlobs(db, [blob.id]);
+    } else {
+      await storage.delete(key);
+    }
+    await releaseStorage(db, ownerId, size);
+    throw error;
+  }
+};
+
+/**
+ * Queries inserting a newly uploaded file and journaling it.
+ * Unexecuted, so callers can batch them; the insert comes first.
+ */
+const createFileQueries = (
+  db: Database,
+  {
+    name,
+    parent,
+    ownerId,
+    authorId,
+    size,
+    mimeType,
+    blobId,
+  }: {
+    name: string;
+    parent: FileSystemEntry | null;
+    ownerId: string;
+    authorId: string | null;
+    size: number;
+    mimeType: string;
+    blobId: string;
+  }
+) => {
+  // Generated here so the journal row can reference it
+  const id = crypto.randomUUID();
+
+  return [
+    db
+      .insert(file_system_entries)
+      .values({
+        id,
+        name,
+        path: buildPath(parent?.path ?? null, name, false),
+        size_bytes: size,
+        mime_type: mimeType,
+        blob_id: blobId,
+        owner_id: ownerId,
+        parent_id: parent?.id ?? null,
+        content_author_id: authorId,
+      })
+      .returning(),
+    recordChangeQuery(db, { entryId: id, kind: 'create' }),
+  ] as const;
+};
+
+/**
+ * Pick the name for an uploaded file under a conflict policy, or the
+ * existing file the upload should become a new version of.
+ *
+ * `replace` over a file adds a version rather than trashing it, which
+ * only needs edit access. Anonymous uploads (no author) can't replace
+ * anything and fall back to `rename`.
+ */
+const resolveUploadTarget = async (
+  db: Database,
+  {
+    ownerId,
+    authorId,
+    parentId,
+    name,
+    policy,
+  }: {
+    ownerId: string;
+    authorId: string | null;
+    parentId: string | null;
+    name: string;
+    policy: ConflictPolicy;
+  }
+) => {
+  const existing = await findSibling(db, ownerId, parentId, name);
+
+  if (existing && authorId && policy === 'replace' && !existing.is_folder) {
+    return { existing, authorId, name, replaced: [] };
+  }
+
+  const resolved = existing
+    ? await resolveNameConflict(db, authorId ?? ownerId, {
+        ownerId,
+        parentId,
+        name,
+        isFolder: false,
+        policy: authorId ? policy : 'rename',
+      })
+    : { name, replaced: [] };
+
+  return { existing: null, authorId, ...resolved };
+};
+
+/**
+ * Store a file sent in a single request and create its entry.
+ *
+ * A live entry with the same name in the folder is handled according
+ * to `onConflict`; see `resolveUploadTarget`.
+ */
+export const uploadFile = async (
+  db: Database,
+  {
+    ownerId,
+    authorId,
+    parent,
+    name,
+    onConflict,
+    ...content
+  }: RequestBody & {
+    ownerId: string;
+    // Signed-in uploader, null for anonymous share link uploads
+    authorId: string | null;
+    parent: FileSystemEntry | null;
+    name: string;
+    onConflict: ConflictPolicy;
+  }
+) => {
+  const target = await resolveUploadTarget(db, {
+    ownerId,
+    authorId,
+    parentId: parent?.id ?? null,
+    name,
+    policy: onConflict,
+  });
+
+  if (target.existing) {
+    return uploadFileVersion(db, target.existing, {
+      authorId: target.authorId,
+      ...content,
+    });
+  }
+
+  return storeRequestBody(db, ownerId, content, async (blob) => {
+    const [[entry]] = await batchReplacing(
+      db,
+      target.replaced,
+      createFileQueries(db, {
+        name: target.name,
+        parent,
+        ownerId,
+        authorId,
+        size: content.size,
+        mimeType: content.mimeType,
+        blobId: blob.id,
+      })
+    ).catch((error) => rethrowNameConflict(error, target.name));
+
+    return entry;
+  });
+};
+
+/**
+ * Store new content sent in a single request for an existing file.
+ * The previous content is kept as a version.
+ */
+export const uploadFileVersion = async (
+  db: Database,
+  entry: FileSystemEntry,
+  { authorId, ...content }: RequestBody & { authorId: string }
+) =>
+  storeRequestBody(db, entry.owner_id, content, (blob) =>
+    replaceEntryContent(db, entry, {
+      blobId: blob.id,
+      size: content.size,
+      mimeType: content.mimeType,
+      authorId,
+    })
+  );
+
+/**
+ * Load an unexpired upload session started by the given user.
+ */
+export const getUserUploadSession = async (
+  db: Database,
+  userId: string,
+  id: string
+) => {
+  const session = await db.query.upload_sessions.findFirst({
+    where: and(
+      eq(upload_sessions.id, id),
+      eq(upload_sessions.created_by, userId)
+    ),
+  });
+
+  if (!session || session.expires_at < new Date()) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Upload session not found.',
+    });
+  }
+
+  return session;
+};
+
+/**
+ * Start a resumable upload.
+ *
+ * Checks the user can add to the destination folder and reserves the
+ * declared size against the folder owner's quota up front, then opens
+ * a multipart upload in storage that subsequent chunks are attached to.
+ */
+export const createUploadSession = async (
+  db: Database,
+  userId: string,
+  input: {
+    name: string;
+    parentId: string | null;
+    mimeType: string;
+    size: number;
+    onConflict: ConflictPolicy;
+  }
+) => {
+  const parent = await authorizeFolder(db, userId, input.parentId, 'edit');
+  const ownerId = parent?.owner_id ?? userId;
+
+  // Fail fast rather than after every byte has been sent. Other
+  // policies are applied at finalize, against the folder as it is then.
+  if (input.onConflict === 'fail') {
+    await resolveNameConflict(db, userId, {
+      ownerId,
+      parentId: parent?.id ?? null,
+      name: input.name,
+      isFolder: false,
+      policy: 'fail',
+    });
+  }
+
+  // Reject uploads that won't fit before any bytes are sent
+  await reserveStorage(db, ownerId, input.size);
+
+  try {
+    const storage = getStorage();
+    const storageKey = createStorageKey(ownerId);
+    const storageUploadId = await storage.createMultipartUpload(storageKey, {
+      contentType: input.mimeType,
+    });
+
+    const [session] = await db
+      .insert(upload_sessions)
+      .values({
+        owner_id: ownerId,
+        created_by: userId,
+        name: input.name,
+        parent_id: parent?.id ?? null,
+        mime_type: input.mimeType,
+        conflict_policy: input.onConflict,
+        size_bytes: input.size,
+        storage_key: storageKey,
+        storage_upload_id: storageUploadId,
+        expires_at: nextExpiry(),
+      })
+      .returning();
+
+    return session;
+  } catch (error) {
+    await releaseStorage(db, ownerId, input.size);
+    throw error;
+  }
+};
+
+/**
+ * Create a file from content the owner already has, without any bytes
+ * being sent, when the client declares a hash and size that match.
+ *
+ * Returns null when there's no match; the client then uploads the
+ * bytes normally. The new file still counts against the quota in full.
+ */
+export const uploadDuplicate = async (
+  db: Database,
+  userId: string,
+  input: {
+    name: string;
+    parentId: string | null;
+    mimeType: string;
+    size: number;
+    sha256: string;
+    onConflict: ConflictPolicy;
+  }
+) => {
+  const parent = await authorizeFolder(db, userId, input.parentId, 'edit');
+  const ownerId = parent?.owner_id ?? userId;
+
+  const blob = await findOwnedBlob(db, ownerId, input.sha256, input.size);
+  if (!blob) return null;
+
+  const target = await resolveUploadTarget(db, {
+    ownerId,
+    authorId: userId,
+    parentId: parent?.id ?? null,
+    name: input.name,
+    policy: input.onConflict,
+  });
+
+  await reserveStorage(db, ownerId, input.size);
+
+  try {
+    if (target.existing) {
+      const [, , [replaced]] = await db.batch([
+        retainBlobsQuery(db, [blob.id]),
+        ...replaceContentQueries(db, target.existing, {
+          blobId: blob.id,
+          size: input.size,
+          mimeType: input.mimeType,
+          authorId: userId,
+        }),
+      ]);
+      // Nothing replaced, but the batch still took its reference
+      if (!replaced) await releaseBlobs(db, [blob.id]);
+      const entry = expectUpdatedContent(replaced);
+
+      await pruneVersionsSafely(db, entry);
+
+      return entry;
+    }
+
+    const [, [entry]] = await batchReplacing(db, target.replaced, [
+      retainBlobsQuery(db, [blob.id]),
+      ...createFileQueries(db, {
+        name: target.name,
+        parent,
+        ownerId,
+        authorId: userId,
+        size: input.size,
+        mimeType: input.mimeType,
+        blobId: blob.id,
+      }),
+    ]);
+
+    return entry;
+  } catch (error) {
+    await releaseStorage(db, ownerId, input.size);
+    return rethrowNameConflict(toVersionConflict(error), target.name);
+  }
+};
+
+/**
+ * Append a chunk at `offset`.
+ *
+ * The offset must match the bytes received so far, as in tus. A chunk
+ * that fails midway doesn't advance the offset, so the client simply
+ * resends from the same position and the part is overwritten.
+ */
+export const appendUploadChunk = async (
+  db: Database,
+  session: UploadSession,
+  {
+    offset,
+    length,
+    body,
+  }: { offset: number; length: number; body: ReadableStream<Uint8Array> }
+) => {
+  if (offset !== session.offset) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Offset mismatch: expected ${session.offset}.`,
+    });
+  }
+
+  const end = offset + length;
+
+  if (end > session.size_bytes) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Chunk exceeds the declared upload size.',
+    });
+  }
+
+  // Every chunk but the last becomes a storage part with a minimum size
+  if (end < session.size_bytes && length < MIN_PART_SIZE) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Chunks must be at least ${MIN_PART_SIZE} bytes.`,
+    });
+  }
+
+  const partNumber = session.parts.length + 1;
+  const { stream, getSize } = countBytes(body);
+
+  const etag = await getStorage().uploadPart(
+    session.storage_key,
+    session.storage_upload_id,
+    partNumber,
+    stream,
+    length
+  );
+
+  if (getSize() !== length) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Chunk length does not match Content-Length.',
+    });
+  }
+
+  // Only advance if no concurrent request got there first
+  const [updated] = await db
+    .update(upload_sessions)
+    .set({
+      offset: end,
+      parts: [...session.parts, { partNumber, etag, size: length }],
+      expires_at: nextExpiry(),
+    })
+    .where(
+      and(
+        eq(upload_sessions.id, session.id),
+        eq(upload_sessions.offset, session.offset)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'Upload was modified concurrently.',
+    });
+  }
+
+  return updated;
+};
+
+/**
+ * Complete a fully received upload and create its file entry, applying
+ * the session's conflict policy (see `resolveUploadTarget`).
+ *
+ * The destination folder is re-checked because it may have been deleted,
+ * or the uploader's access revoked, while the upload was in progress.
+ */
+export const finalizeUploadSession = async (
+  db: Database,
+  session: UploadSession
+) => {
+  if (session.offset !== session.size_bytes) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Upload incomplete: ${session.offset} of ${session.size_bytes} bytes received.`,
+    });
+  }
+
+  const parent = await authorizeFolder(
+    db,
+    session.created_by,
+    session.parent_id,
+    'edit'
+  );
+  // Resolved before assembling the file, so a conflict under `fail`
+  // leaves the session intact for the client to abort
+  const target = await resolveUploadTarget(db, {
+    ownerId: session.owner_id,
+    authorId: session.created_by,
+    parentId: parent?.id ?? null,
+    name: session.name,
+    policy: session.conflict_policy,
+  });
+
+  const storage = getStorage();
+
+  if (session.parts.length > 0) {
+    await storage.completeMultipartUpload(
+      session.storage_key,
+      session.storage_upload_id,
+      session.parts
+    );
+  } else {
+    // Zero-byte files have no parts to assemble
+    await storage.abortMultipartUpload(
+      session.storage_key,
+      session.storage_upload_id
+    );
+    await storage.put(session.storage_key, new Uint8Array(), {
+      contentType: session.mime_type,
+      size: 0,
+    });
+  }
+
+  let blob: FileBlob | undefined;
+
+  try {
+    // Reading the assembled object back to hash it could take longer
+    // than a request may run, so the hash-blobs job does it later
+    blob = await adoptBlob(db, {
+      storageKey: session.storage_key,
+      sha256: null,
+      size: session.size_bytes,
+    });
+
+    if (target.existing) {
+      const [, [replaced]] = await db.batch([
+        ...replaceContentQueries(db, target.existing, {
+          blobId: blob.id,
+          size: session.size_bytes,
+          mimeType: session.mime_type,
+          authorId: session.created_by,
+        }),
+        db.delete(upload_sessions).where(eq(upload_sessions.id, session.id)),
+      ]);
+      const entry = expectUpdatedContent(replaced);
+
+      await pruneVersionsSafely(db, entry);
+
+      return entry;
+    }
+
+    // The session's quota reservation carries over to the new entry
+    const [[entry]] = await batchReplacing(db, target.replaced, [
+      ...createFileQueries(db, {
+        name: target.name,
+        parent,
+        ownerId: session.owner_id,
+        authorId: session.created_by,
+        size: session.size_bytes,
+        mimeType: session.mime_type,
+        blobId: blob.id,
+      }),
+      db.delete(upload_sessions).where(eq(upload_sessions.id, session.id)),
+    ]);
+
+    return entry;
+  } catch (error) {
+    if (blob) {
+      await releaseBlobs(db, [blob.id]);
+    } else {
+      await storage.delete(session.storage_key);
+    }
+    await abortUploadSession(db, session, { skipStorage: true });
+    return rethrowNameConflict(toVersionConflict(error), target.name);
+  }
+};
+
+/**
+ * Abort an upload session, discard its received parts and release
+ * its quota reservation.
+ */
+export const abortUploadSession = async (
+  db: Database,
+  session: UploadSession,
+  { skipStorage = false }: { skipStorage?: boolean } = {}
+) => {
+  if (!skipStorage) {
+    await getStorage().abortMultipartUpload(
+      session.storage_key,
+      session.storage_upload_id
+    );
+  }
+
+  await db.batch([
+    db.delete(upload_sessions).where(eq(upload_sessions.id, session.id)),
+    releaseStorageQuery(db, session.owner_id, session.size_bytes),
+  ]);
+};
+
+/**
+ * Abort every upload session past its expiry.
+ *
+ * Run periodically by the cron route. Failures on one session are
+ * logged and don't stop the rest from being cleaned up.
+ */
+export const purgeExpiredUploadSessions = async (db: Database) => {
+  const expired = await db
+    .select()
+    .from(upload_sessions)
+    .where(lt(upload_sessions.expires_at, new Date()));
+
+  let purged = 0;
+
+  for (const session of expired) {
+    try {
+      await abortUploadSession(db, session);
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge upload session ${session.id}:`, error);
+    }
+  }
+
+  return { purged };
+};
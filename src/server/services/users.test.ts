@@ -0,0 +1,76 @@
+import { createLocalDatabase, type Database } from '@/db/drivers';
+import {
+  access_tokens,
+  blobs,
+  file_system_entries,
+  share_links,
+  users,
+} from '@/db/schema';
+import { createLocalAuthProvider } from '@/server/auth/local';
+import { appRouter } from '@/server/routers';
+import { uploadFile } from '@/server/services/uploads';
+import { deleteUserByExternalId } from '@/server/services/users';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+/**
+ * Account Deletion
+ *
+ * Deleting an account at the auth provider takes everything the user
+ * owned with it, so nothing they shared keeps being served.
+ */
+describe('deleteUserByExternalId', () => {
+  let db: Database;
+  let caller: ReturnType<typeof appRouter.createCaller>;
+  let storageRoot: string;
+
+  before(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'frisync-test-'));
+    process.env.STORAGE_LOCAL_ROOT = storageRoot;
+
+    db = await createLocalDatabase();
+    caller = appRouter.createCaller({
+      db,
+      auth: createLocalAuthProvider(),
+      headers: new Headers({ 'X-Local-User': 'alice' }),
+    });
+
+    await caller.authentication.getDatabaseSyncStatus();
+  });
+
+  after(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  test("purges the user's files, links and tokens", async () => {
+    const folder = await caller.files.createFolder({ name: 'Shared' });
+    const file = await uploadFile(db, {
+      ownerId: folder.owner_id,
+      authorId: folder.owner_id,
+      parent: null,
+      name: 'notes.txt',
+      onConflict: 'fail',
+      mimeType: 'text/plain',
+      size: 5,
+      body: new Blob(['hello']).stream(),
+    });
+    await caller.files.trash({ id: file.id });
+    await caller.shares.create({ entryId: folder.id, role: 'download' });
+    await caller.accessTokens.create({ name: 'CLI', scopes: ['read'] });
+
+    await deleteUserByExternalId(db, 'alice');
+
+    assert.deepEqual(await db.select().from(users), []);
+    assert.deepEqual(await db.select().from(file_system_entries), []);
+    assert.deepEqual(await db.select().from(share_links), []);
+    assert.deepEqual(await db.select().from(access_tokens), []);
+    assert.deepEqual(await db.select().from(blobs), []);
+  });
+
+  test('ignores unknown users', async () => {
+    await deleteUserByExternalId(db, 'nobody');
+  });
+});
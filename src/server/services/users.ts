@@ -0,0 +1,74 @@
+import type { Database } from '@/db';
+import { share_links, upload_sessions, users } from '@/db/schema';
+import { deleteDrive } from '@/server/services/files';
+import { notifyQuery } from '@/server/services/realtime';
+import { abortUploadSession } from '@/server/services/uploads';
+import { eq, or } from 'drizzle-orm';
+
+/**
+ * Upsert a user row from the auth provider's view of the account.
+ *
+ * Safe to call repeatedly: both the Clerk webhook and the /welcome sync
+ * check may race to create the same user, so conflicts on `externalId`
+ * update the email instead of failing. Open event streams for the
+ * account (such as /welcome waiting for it) are notified.
+ */
+export const upsertUser = async (
+  db: Database,
+  { externalId, email }: { externalId: string; email: string }
+) => {
+  const [[user]] = await db.batch([
+    db
+      .insert(users)
+      .values({ externalId, email })
+      .onConflictDoUpdate({
+        target: users.externalId,
+        set: { email, updatedAt: new Date() },
+      })
+      .returning(),
+    notifyQuery(db, 'accounts', externalId),
+  ]);
+
+  return user;
+};
+
+/**
+ * Delete a user by the auth provider's ID, with everything they own.
+ *
+ * Their upload sessions are aborted and their drive purged first, so
+ * share links stop serving their files; the share links they created
+ * on others' folders are revoked, and deleting the row takes their
+ * access tokens, webhooks and collaborator grants with it (FK cascade).
+ * Deleting an unknown user is a no-op so redelivered events succeed,
+ * and a failed purge leaves the row for the redelivery to retry.
+ */
+export const deleteUserByExternalId = async (
+  db: Database,
+  externalId: string
+) => {
+  const user = await db.query.users.findFirst({
+    where: eq(users.externalId, externalId),
+  });
+  if (!user) return;
+
+  const sessions = await db
+    .select()
+    .from(upload_sessions)
+    .where(
+      or(
+        eq(upload_sessions.owner_id, user.id),
+        eq(upload_sessions.created_by, user.id)
+      )
+    );
+  for (const session of sessions) {
+    await abortUploadSession(db, session);
+  }
+
+  await deleteDrive(db, user.id);
+
+  await db.batch([
+    db.delete(share_links).where(eq(share_links.owner_id, user.id)),
+    db.delete(users).where(eq(users.id, user.id)),
+    notifyQuery(db, 'accounts', externalId),
+  ]);
+};
@@ -0,0 +1,349 @@
+import type { Database } from '@/db';
+import {
+  file_system_entries,
+  file_versions,
+  type FileSystemEntry,
+  type FileVersion,
+} from '@/db/schema';
+import {
+  collectGarbageBlobs,
+  releaseBlobsQuery,
+} from '@/server/services/blobs';
+import { recordChangeQuery } from '@/server/services/changes';
+import { clearContentTextQuery } from '@/server/services/content-text';
+import { releaseStorageQuery } from '@/server/services/quota';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, inArray, lt } from 'drizzle-orm';
+
+/**
+ * Version Retention
+ *
+ * A previous version is kept while it is among the newest
+ * VERSIONS_KEEP_LAST versions of its file, or younger than
+ * VERSIONS_KEEP_DAYS days - whichever keeps more.
+ */
+export const VERSIONS_KEEP_LAST = Number(process.env.VERSIONS_KEEP_LAST ?? 10);
+export const VERSIONS_KEEP_DAYS = Number(process.env.VERSIONS_KEEP_DAYS ?? 30);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unique index allowing one archive per version (see schema)
+const VERSION_INDEX = 'file_versions_entry_version_unique';
+
+const versionConflictError = () =>
+  new TRPCError({
+    code: 'CONFLICT',
+    message: 'The file was changed by someone else. Try again.',
+  });
+
+/**
+ * Turn a save that lost a race into a CONFLICT error.
+ *
+ * Saves archive the version they read and only update the entry if
+ * it's still at that version. The loser of two concurrent saves either
+ * hits the archive index, rolling its batch back, or updates nothing.
+ */
+export const toVersionConflict = (error: unknown) => {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+
+  const lostRace =
+    typeof cause === 'object' &&
+    cause !== null &&
+    'constraint' in cause &&
+    cause.constraint === VERSION_INDEX;
+
+  return lostRace ? versionConflictError() : error;
+};
+
+/**
+ * The entry returned by a content update, or a CONFLICT error when the
+ * update matched nothing because the file moved past the version read.
+ */
+export const expectUpdatedContent = (entry: FileSystemEntry | undefined) => {
+  if (!entry) throw versionConflictError();
+
+  return entry;
+};
+
+/**
+ * Snapshot of an entry's current content as a version row.
+ */
+const archiveCurrentContent = (entry: FileSystemEntry) => ({
+  entry_id: entry.id,
+  version_number: entry.version,
+  size_bytes: entry.size_bytes,
+  mime_type: entry.mime_type,
+  // Files always have content, only folders have no blob
+  blob_id: entry.blob_id!,
+  author_id: entry.content_author_id ?? entry.owner_id,
+  created_at: entry.content_updated_at,
+});
+
+type NewContent = {
+  // Blob holding the new bytes, with a reference taken for the entry
+  blobId: string;
+  size: number;
+  mimeType: string;
+  authorId: string;
+};
+
+/**
+ * Queries that make new bytes the current content of a file, keeping
+ * the old bytes as a version and journaling the change. Unexecuted, so
+ * callers can batch them with their own writes; the entry update is
+ * the second query, and returns nothing if the file is no longer at
+ * the version read (see `expectUpdatedContent`).
+ */
+export const replaceContentQueries = (
+  db: Database,
+  entry: FileSystemEntry,
+  content: NewContent
+) =>
+  [
+    db.insert(file_versions).values(archiveCurrentContent(entry)),
+    db
+      .update(file_system_entries)
+      .set({
+        blob_id: content.blobId,
+        size_bytes: content.size,
+        mime_type: content.mimeType,
+        version: entry.version + 1,
+        content_author_id: content.authorId,
+        content_updated_at: new Date(),
+      })
+      .where(
+        and(
+          eq(file_system_entries.id, entry.id),
+          eq(file_system_entries.version, entry.version)
+        )
+      )
+      .returning(),
+    recordChangeQuery(db, { entryId: entry.id, kind: 'update' }),
+    clearContentTextQuery(db, entry.id),
+  ] as const;
+
+/**
+ * Make new bytes the current content of a file.
+ *
+ * The new content's blob must already hold a reference for the entry,
+ * and its size be reserved against the owner's quota; older versions
+ * keep counting until they're pruned.
+ */
+export const replaceEntryContent = async (
+  db: Database,
+  entry: FileSystemEntry,
+  content: NewContent
+) => {
+  const [, [replaced]] = await db
+    .batch(replaceContentQueries(db, entry, content))
+    .catch((error) => {
+      throw toVersionConflict(error);
+    });
+  const updated = expectUpdatedContent(replaced);
+
+  await pruneVersionsSafely(db, updated);
+
+  return updated;
+};
+
+/**
+ * The fields of a version returned to the client, picked explicitly so
+ * the blob reference stays out. Content is fetched via
+ * `versions.getDownloadUrl` instead.
+ */
+export const toClientVersion = (version: FileVersion) => ({
+  id: version.id,
+  entry_id: version.entry_id,
+  version_number: version.version_number,
+  size_bytes: version.size_bytes,
+  mime_type: version.mime_type,
+  author_id: version.author_id,
+  created_at: version.created_at,
+});
+
+/**
+ * List a file's previous versions, newest first.
+ */
+export const listVersions = async (db: Database, entryId: string) => {
+  const versions = await db
+    .select()
+    .from(file_versions)
+    .where(eq(file_versions.entry_id, entryId))
+    .orderBy(desc(file_versions.version_number));
+
+  return versions.map(toClientVersion);
+};
+
+/**
+ * Load one previous version of a file.
+ */
+export const getVersion = async (
+  db: Database,
+  entryId: string,
+  versionId: string
+) => {
+  const version = await db.query.file_versions.findFirst({
+    where: and(
+      eq(file_versions.id, versionId),
+      eq(file_versions.entry_id, entryId)
+    ),
+  });
+
+  if (!version) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Version not found.' });
+  }
+
+  return version;
+};
+
+/**
+ * Make a previous version current again.
+ *
+ * The current content is archived as a new version first, so restoring
+ * never loses anything. The restored version takes the next version
+ * number, as if it had been re-uploaded.
+ */
+export const restoreVersion = async (
+  db: Database,
+  entry: FileSystemEntry,
+  version: FileVersion,
+  authorId: string
+) => {
+  const [, , [restored]] = await db
+    .batch([
+      db.insert(file_versions).values(archiveCurrentContent(entry)),
+      db.delete(file_versions).where(eq(file_versions.id, version.id)),
+      db
+        .update(file_system_entries)
+        .set({
+          blob_id: version.blob_id,
+          size_bytes: version.size_bytes,
+          mime_type: version.mime_type,
+          version: entry.version + 1,
+          content_author_id: authorId,
+          content_updated_at: new Date(),
+        })
+        .where(
+          and(
+            eq(file_system_entries.id, entry.id),
+            eq(file_system_entries.version, entry.version)
+          )
+        )
+        .returning(),
+      recordChangeQuery(db, { entryId: entry.id, kind: 'update' }),
+      clearContentTextQuery(db, entry.id),
+    ])
+    .catch((error) => {
+      throw toVersionConflict(error);
+    });
+  return expectUpdatedContent(restored);
+};
+
+/**
+ * Permanently delete previous versions, releasing their blobs.
+ */
+export const deleteVersions = async (
+  db: Database,
+  entry: FileSystemEntry,
+  versions: Pick<FileVersion, 'id' | 'size_bytes' | 'blob_id'>[]
+) => {
+  if (versions.length === 0) return;
+
+  const bytes = versions.reduce((sum, { size_bytes }) => sum + size_bytes, 0);
+  const blobIds = versions.map(({ blob_id }) => blob_id);
+
+  await db.batch([
+    db.delete(file_versions).where(
+      inArray(
+        file_versions.id,
+        versions.map(({ id }) => id)
+      )
+    ),
+    releaseStorageQuery(db, entry.owner_id, bytes),
+    releaseBlobsQuery(db, blobIds),
+  ]);
+
+  await collectGarbageBlobs(db, blobIds);
+};
+
+/**
+ * Delete a file's versions that fall outside the retention settings.
+ * Returns how many were deleted.
+ */
+export const pruneVersions = async (db: Database, entry: FileSystemEntry) => {
+  const cutoff = new Date(Date.now() - VERSIONS_KEEP_DAYS * DAY_MS);
+
+  const expired = await db
+    .select()
+    .from(file_versions)
+    .where(
+      and(
+        eq(file_versions.entry_id, entry.id),
+        lt(file_versions.created_at, cutoff)
+      )
+    )
+    .orderBy(desc(file_versions.version_number));
+
+  // Versions among the newest N survive even when old
+  const newest = await db
+    .select({ id: file_versions.id })
+    .from(file_versions)
+    .where(eq(file_versions.entry_id, entry.id))
+    .orderBy(desc(file_versions.version_number))
+    .limit(VERSIONS_KEEP_LAST);
+
+  const keep = new Set(newest.map(({ id }) => id));
+  const prunable = expired.filter(({ id }) => !keep.has(id));
+
+  await deleteVersions(db, entry, prunable);
+
+  return prunable.length;
+};
+
+/**
+ * Prune after a content change without failing it: the new content is
+ * already committed, and the cron job will retry later.
+ */
+export const pruneVersionsSafely = async (
+  db: Database,
+  entry: FileSystemEntry
+) => {
+  try {
+    await pruneVersions(db, entry);
+  } catch (error) {
+    console.error(`Failed to prune versions of ${entry.id}:`, error);
+  }
+};
+
+/**
+ * Apply version retention across all files.
+ *
+ * Run periodically by the cron route, since versions also age out
+ * without any new uploads.
+ */
+export const pruneExpiredVersions = async (db: Database) => {
+  const cutoff = new Date(Date.now() - VERSIONS_KEEP_DAYS * DAY_MS);
+
+  const candidates = await db
+    .selectDistinct({ entry_id: file_versions.entry_id })
+    .from(file_versions)
+    .where(lt(file_versions.created_at, cutoff));
+
+  let pruned = 0;
+
+  for (const { entry_id } of candidates) {
+    const entry = await db.query.file_system_entries.findFirst({
+      where: eq(file_system_entries.id, entry_id),
+    });
+
+    if (!entry) continue;
+
+    try {
+      pruned += await pruneVersions(db, entry);
+    } catch (error) {
+      console.error(`Failed to prune versions of ${entry_id}:`, error);
+    }
+  }
+
+  return { pruned };
+};
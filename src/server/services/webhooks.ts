@@ -0,0 +1,551 @@
+import type { Database } from '@/db';
+import {
+  webhook_deliveries,
+  webhooks,
+  type ChangeKind,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from '@/db/schema';
+import { authorizeFolder } from '@/server/authorization';
+import { TRPCError } from '@trpc/server';
+import { and, asc, desc, eq, inArray, lt, lte, ne, sql } from 'drizzle-orm';
+import { createHmac, randomBytes } from 'node:crypto';
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { z } from 'zod';
+
+/**
+ * Outbound Webhooks
+ *
+ * Users register endpoints for events on the files they can see; the
+ * change journal queues a delivery for each matching webhook in the
+ * same batch as the change (see `recordChangeQuery`), and the cron
+ * route sends due deliveries, retrying failures with exponential
+ * backoff.
+ *
+ * Requests follow the Standard Webhooks spec, as Clerk's (Svix's) do:
+ * a JSON body signed with HMAC-SHA256 in the `webhook-id`,
+ * `webhook-timestamp` and `webhook-signature` headers, so receivers
+ * can verify them with the same libraries.
+ */
+
+// Marks webhook signing secrets; the rest is base64 key material
+const SECRET_PREFIX = 'whsec_';
+
+// Attempts before a delivery is given up on
+const MAX_ATTEMPTS = 10;
+
+// Wait before the first retry, doubled after each failure (about 4h
+// across all attempts)
+const RETRY_BASE_MS = 30 * 1000;
+
+// How long an endpoint gets to respond
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Deliveries sent by one run of the cron job, all at once
+const DELIVERY_BATCH_SIZE = 50;
+
+// A claimed delivery is due again after this, in case the run dies
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// Characters of an endpoint's response kept in the log
+const RESPONSE_BODY_LIMIT = 1024;
+
+// How long the delivery log is kept
+export const WEBHOOK_DELIVERIES_RETENTION_DAYS = Number(
+  process.env.WEBHOOK_DELIVERIES_RETENTION_DAYS ?? 30
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The event each kind of change is delivered as.
+ */
+export const webhookEventForChange: Record<ChangeKind, WebhookEvent> = {
+  create: 'created',
+  update: 'updated',
+  move: 'moved',
+  delete: 'deleted',
+  restore: 'created',
+  permission: 'shared',
+};
+
+/**
+ * Whether a hostname is this machine or a private network address.
+ */
+const isPrivateHost = (hostname: string) => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+
+  switch (isIP(host)) {
+    case 4: {
+      const [a, b] = host.split('.').map(Number);
+      return (
+        a === 0 ||
+        a === 10 ||
+        a === 127 ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 168)
+      );
+    }
+
+    case 6:
+      return (
+        host === '::' ||
+        host === '::1' ||
+        host.startsWith('::ffff:') ||
+        /^f[cd]/.test(host) ||
+        /^fe[89ab]/.test(host)
+      );
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Resolves hostnames like `dns.lookup`, but fails for any that resolve
+ * to a private address. Checked as the delivery connects, since a
+ * public name can point anywhere by then.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) =>
+  lookup(hostname, options, (error, address, family) => {
+    const addresses = typeof address === 'string' ? [{ address }] : address;
+
+    if (!error && addresses.some(({ address }) => isPrivateHost(address))) {
+      callback(
+        new Error(`${hostname} resolves to a private address.`),
+        address,
+        family
+      );
+      return;
+    }
+
+    callback(error, address, family);
+  });
+
+/**
+ * Webhook endpoint: in production, a public HTTPS address, so webhooks
+ * can't be aimed at the server's own network. Deliveries check the
+ * address they connect to again (see `postJson`).
+ */
+export const webhookUrlSchema = z
+  .url({ protocol: /^https?$/ })
+  .max(2048)
+  .refine((value) => {
+    if (process.env.NODE_ENV !== 'production') return true;
+
+    const url = new URL(value);
+    return url.protocol === 'https:' && !isPrivateHost(url.hostname);
+  }, 'Webhook URLs must be public HTTPS addresses.');
+
+/**
+ * User's view of a webhook - everything except the secret.
+ */
+export const toClientWebhook = (webhook: Webhook) => ({
+  id: webhook.id,
+  url: webhook.url,
+  events: webhook.events,
+  folder_id: webhook.folder_id,
+  active: webhook.active,
+  created_at: webhook.created_at,
+  updated_at: webhook.updated_at,
+});
+
+/**
+ * User's view of a delivery, for the delivery log.
+ */
+export const toClientWebhookDelivery = (delivery: WebhookDelivery) => ({
+  id: delivery.id,
+  event: delivery.event,
+  payload: delivery.payload,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  next_attempt_at:
+    delivery.status === 'pending' ? delivery.next_attempt_at : null,
+  last_attempt_at: delivery.last_attempt_at,
+  response_status: delivery.response_status,
+  response_body: delivery.response_body,
+  error: delivery.error,
+  created_at: delivery.created_at,
+});
+
+/**
+ * Sign a request body, as the `webhook-signature` header.
+ */
+export const signWebhook = (
+  secret: string,
+  id: string,
+  timestamp: number,
+  body: string
+) => {
+  const key = Buffer.from(secret.slice(SECRET_PREFIX.length), 'base64');
+  const signature = createHmac('sha256', key)
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+
+  return `v1,${signature}`;
+};
+
+/**
+ * Load one of the user's webhooks, or throw NOT_FOUND.
+ */
+const getOwnWebhook = async (db: Database, userId: string, id: string) => {
+  const webhook = await db.query.webhooks.findFirst({
+    where: and(eq(webhooks.id, id), eq(webhooks.user_id, userId)),
+  });
+
+  if (!webhook) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Webhook not found.' });
+  }
+
+  return webhook;
+};
+
+/**
+ * Register a webhook. With `folderId`, only changes within that folder
+ * (which the user must be able to view) are delivered.
+ *
+ * Returns the signing secret along with the record; it isn't shown
+ * again.
+ */
+export const createWebhook = async (
+  db: Database,
+  userId: string,
+  input: { url: string; events: WebhookEvent[]; folderId: string | null }
+) => {
+  await authorizeFolder(db, userId, input.folderId, 'view');
+
+  const secret = `${SECRET_PREFIX}${randomBytes(32).toString('base64')}`;
+
+  const [webhook] = await db
+    .insert(webhooks)
+    .values({
+      user_id: userId,
+      url: input.url,
+      secret,
+      events: [...new Set(input.events)],
+      folder_id: input.folderId,
+    })
+    .returning();
+
+  return { secret, webhook };
+};
+
+/**
+ * List the user's webhooks, newest first.
+ */
+export const listWebhooks = async (db: Database, userId: string) =>
+  db
+    .select()
+    .from(webhooks)
+    .where(eq(webhooks.user_id, userId))
+    .orderBy(desc(webhooks.created_at));
+
+/**
+ * Change a webhook's endpoint, events or folder, or pause or resume it.
+ * Deliveries already queued go to the new endpoint.
+ */
+export const updateWebhook = async (
+  db: Database,
+  userId: string,
+  id: string,
+  input: {
+    url?: string;
+    events?: WebhookEvent[];
+    folderId?: string | null;
+    active?: boolean;
+  }
+) => {
+  await getOwnWebhook(db, userId, id);
+
+  if (input.folderId !== undefined) {
+    await authorizeFolder(db, userId, input.folderId, 'view');
+  }
+
+  const [webhook] = await db
+    .update(webhooks)
+    .set({
+      url: input.url,
+      events: input.events && [...new Set(input.events)],
+      folder_id: input.folderId,
+      active: input.active,
+      updated_at: new Date(),
+    })
+    .where(eq(webhooks.id, id))
+    .returning();
+
+  return webhook;
+};
+
+/**
+ * Delete a webhook along with its queued deliveries and log.
+ */
+export const deleteWebhook = async (
+  db: Database,
+  userId: string,
+  id: string
+) => {
+  await getOwnWebhook(db, userId, id);
+
+  await db.delete(webhooks).where(eq(webhooks.id, id));
+};
+
+/**
+ * A webhook's deliveries, newest first.
+ */
+export const listWebhookDeliveries = async (
+  db: Database,
+  userId: string,
+  webhookId: string,
+  limit: number
+) => {
+  await getOwnWebhook(db, userId, webhookId);
+
+  return db
+    .select()
+    .from(webhook_deliveries)
+    .where(eq(webhook_deliveries.webhook_id, webhookId))
+    .orderBy(desc(webhook_deliveries.created_at))
+    .limit(limit);
+};
+
+/**
+ * Queue a past delivery again, as a new delivery with the same payload
+ * (whose `id` lets receivers recognize the event).
+ */
+export const redeliverWebhook = async (
+  db: Database,
+  userId: string,
+  deliveryId: string
+) => {
+  const [found] = await db
+    .select({ delivery: webhook_deliveries })
+    .from(webhook_deliveries)
+    .innerJoin(webhooks, eq(webhooks.id, webhook_deliveries.webhook_id))
+    .where(
+      and(eq(webhook_deliveries.id, deliveryId), eq(webhooks.user_id, userId))
+    );
+
+  if (!found) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Delivery not found.' });
+  }
+
+  const [delivery] = await db
+    .insert(webhook_deliveries)
+    .values({
+      webhook_id: found.delivery.webhook_id,
+      event: found.delivery.event,
+      payload: found.delivery.payload,
+    })
+    .returning();
+
+  return delivery;
+};
+
+/**
+ * POST a JSON body to an endpoint, resolving to the response's status
+ * and the start of its body.
+ *
+ * In production, only public addresses are connected to. Redirects
+ * aren't followed either, as they could lead anywhere; receivers must
+ * answer directly.
+ */
+const postJson = (url: URL, headers: Record<string, string>, body: string) =>
+  new Promise<{ status: number; text: string }>((resolve, reject) => {
+    const production = process.env.NODE_ENV === 'production';
+
+    // Addresses given literally are connected to without a lookup
+    if (production && isPrivateHost(url.hostname)) {
+      reject(new Error(`${url.hostname} is a private address.`));
+      return;
+    }
+
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        },
+        lookup: production ? publicLookup : undefined,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        let text = '';
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+        });
+        // A body cut off midway still leaves the status to log
+        response.on('end', () => resolve({ status, text }));
+        response.on('error', () => resolve({ status, text }));
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * POST a delivery to its webhook's endpoint. Never throws: failures
+ * are returned as the outcome to log.
+ */
+const sendDelivery = async (webhook: Webhook, delivery: WebhookDelivery) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const { status, text } = await postJson(
+      new URL(webhook.url),
+      {
+        'webhook-id': delivery.id,
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': signWebhook(
+          webhook.secret,
+          delivery.id,
+          timestamp,
+          body
+        ),
+      },
+      body
+    );
+    const ok = status >= 200 && status < 300;
+
+    return {
+      ok,
+      response_status: status,
+      response_body: text.slice(0, RESPONSE_BODY_LIMIT),
+      error: ok ? null : `Endpoint responded ${status}.`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      response_status: null,
+      response_body: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Delay before retrying a delivery that has failed `attempts` times,
+ * with up to 10% jitter so retries to one endpoint spread out.
+ */
+const retryDelay = (attempts: number) =>
+  RETRY_BASE_MS * 2 ** (attempts - 1) * (1 + Math.random() * 0.1);
+
+/**
+ * Send the deliveries that are due, for all users.
+ * Run periodically by the cron route.
+ *
+ * Deliveries are claimed before sending (pushing them back by
+ * CLAIM_TTL_MS), so overlapping runs don't send one twice and a run
+ * that dies leaves them to be retried. Those of paused webhooks wait
+ * until they're resumed.
+ */
+export const deliverPendingWebhooks = async (db: Database) => {
+  const claimed = await db
+    .update(webhook_deliveries)
+    .set({ next_attempt_at: new Date(Date.now() + CLAIM_TTL_MS) })
+    .where(
+      inArray(
+        webhook_deliveries.id,
+        db
+          .select({ id: webhook_deliveries.id })
+          .from(webhook_deliveries)
+          .innerJoin(webhooks, eq(webhooks.id, webhook_deliveries.webhook_id))
+          .where(
+            and(
+              eq(webhook_deliveries.status, 'pending'),
+              lte(webhook_deliveries.next_attempt_at, sql`now()`),
+              eq(webhooks.active, true)
+            )
+          )
+          .orderBy(asc(webhook_deliveries.next_attempt_at))
+          .limit(DELIVERY_BATCH_SIZE)
+          .for('update', { of: webhook_deliveries, skipLocked: true })
+      )
+    )
+    .returning();
+
+  if (claimed.length === 0) return { succeeded: 0, retrying: 0, failed: 0 };
+
+  const targets = await db
+    .select()
+    .from(webhooks)
+    .where(
+      inArray(webhooks.id, [
+        ...new Set(claimed.map((delivery) => delivery.webhook_id)),
+      ])
+    );
+  const byId = new Map(targets.map((webhook) => [webhook.id, webhook]));
+
+  const outcomes = await Promise.all(
+    claimed.map(async (delivery) => {
+      const webhook = byId.get(delivery.webhook_id);
+      // Deleted meanwhile, taking the delivery with it, or paused, in
+      // which case the claim runs out and it waits like the rest
+      if (!webhook?.active) return null;
+
+      const { ok, ...result } = await sendDelivery(webhook, delivery);
+      const attempts = delivery.attempts + 1;
+      const status = ok
+        ? 'succeeded'
+        : attempts >= MAX_ATTEMPTS
+          ? 'failed'
+          : 'pending';
+
+      await db
+        .update(webhook_deliveries)
+        .set({
+          ...result,
+          status,
+          attempts,
+          last_attempt_at: new Date(),
+          next_attempt_at: new Date(Date.now() + retryDelay(attempts)),
+        })
+        .where(eq(webhook_deliveries.id, delivery.id));
+
+      return status;
+    })
+  );
+
+  return {
+    succeeded: outcomes.filter((status) => status === 'succeeded').length,
+    retrying: outcomes.filter((status) => status === 'pending').length,
+    failed: outcomes.filter((status) => status === 'failed').length,
+  };
+};
+
+/**
+ * Delete deliveries older than the retention window, for all users.
+ * Run periodically by the cron route.
+ */
+export const pruneWebhookDeliveries = async (db: Database) => {
+  const cutoff = new Date(
+    Date.now() - WEBHOOK_DELIVERIES_RETENTION_DAYS * DAY_MS
+  );
+
+  const pruned = await db
+    .delete(webhook_deliveries)
+    .where(
+      and(
+        lt(webhook_deliveries.created_at, cutoff),
+        ne(webhook_deliveries.status, 'pending')
+      )
+    )
+    .returning({ id: webhook_deliveries.id });
+
+  return { pruned: pruned.length };
+};
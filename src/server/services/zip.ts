@@ -0,0 +1,323 @@
+import { crc32 } from 'node:zlib';
+
+/**
+ * Streaming ZIP Writer
+ *
+ * Builds an archive on the fly, one entry after another, so nothing is
+ * buffered beyond the chunk being written. Each file's CRC and
+ * compressed size are only known once it has been streamed, so they
+ * follow its data in a data descriptor (general purpose bit 3) and are
+ * repeated in the central directory at the end.
+ *
+ * ZIP64 extensions are used per entry when a file may not fit in 32-bit
+ * sizes or offsets, and for the end records when the archive itself
+ * outgrows them, so ordinary archives stay readable by old tools.
+ */
+
+export type ZipEntry = {
+  // Path inside the archive, with "/" separators; folders end with "/"
+  name: string;
+  modifiedAt: Date;
+  // Uncompressed size, known before the bytes are read (0 for folders)
+  size: number;
+  // Deflate the bytes (pointless for media and archives)
+  compress: boolean;
+  // Opens the bytes when the entry is reached; absent for folders
+  open?: () => Promise<ReadableStream<Uint8Array>>;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+// Version needed to extract: 2.0 for deflate and folders, 4.5 for ZIP64
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+// Made by a Unix host, so external attributes carry file modes
+const VERSION_MADE_BY = (3 << 8) | VERSION_ZIP64;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+// Files at least this large get ZIP64 sizes up front, leaving headroom
+// for deflate output that ends up larger than its input
+const ZIP64_SIZE_THRESHOLD = 0xf0000000;
+
+// rw-r--r-- files and rwxr-xr-x folders (plus the MS-DOS folder bit)
+const FILE_ATTRIBUTES = (0o100644 << 16) >>> 0;
+const FOLDER_ATTRIBUTES = ((0o40755 << 16) | 0x10) >>> 0;
+
+// What the central directory needs to know about a written entry
+type WrittenEntry = {
+  name: Buffer;
+  isFolder: boolean;
+  zip64: boolean;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+/**
+ * MS-DOS time and date fields (2-second precision, years 1980-2107).
+ */
+const dosDateTime = (at: Date) => {
+  const year = Math.min(Math.max(at.getUTCFullYear(), 1980), 2107);
+
+  return {
+    time:
+      (at.getUTCHours() << 11) |
+      (at.getUTCMinutes() << 5) |
+      Math.floor(at.getUTCSeconds() / 2),
+    date:
+      ((year - 1980) << 9) | ((at.getUTCMonth() + 1) << 5) | at.getUTCDate(),
+  };
+};
+
+const localHeader = (entry: WrittenEntry) => {
+  const extra = Buffer.alloc(entry.zip64 ? 20 : 0);
+  if (entry.zip64) {
+    // Sizes come in the data descriptor; zeroes here mark the field
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  // CRC and sizes (left zero, or all-ones for ZIP64) follow the data
+  header.writeUInt32LE(entry.zip64 ? MAX_UINT32 : 0, 18);
+  header.writeUInt32LE(entry.zip64 ? MAX_UINT32 : 0, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+
+  return Buffer.concat([header, entry.name, extra]);
+};
+
+const dataDescriptor = (entry: WrittenEntry) => {
+  const descriptor = Buffer.alloc(entry.zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+
+  if (entry.zip64) {
+    descriptor.writeBigUInt64LE(BigInt(entry.compressedSize), 8);
+    descriptor.writeBigUInt64LE(BigInt(entry.size), 16);
+  } else {
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+  }
+
+  return descriptor;
+};
+
+const centralHeader = (entry: WrittenEntry) => {
+  // Only values that overflow go in the ZIP64 field, in this order
+  const overflow = [entry.size, entry.compressedSize, entry.offset].map(
+    (value) => entry.zip64 || value >= MAX_UINT32
+  );
+  const [sizeOverflows, compressedOverflows, offsetOverflows] = overflow;
+  const fields = [entry.size, entry.compressedSize, entry.offset].filter(
+    (_, index) => overflow[index]
+  );
+
+  const extra = Buffer.alloc(fields.length > 0 ? 4 + fields.length * 8 : 0);
+  if (fields.length > 0) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(fields.length * 8, 2);
+    fields.forEach((value, index) =>
+      extra.writeBigUInt64LE(BigInt(value), 4 + index * 8)
+    );
+  }
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(fields.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(entry.method, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(
+    compressedOverflows ? MAX_UINT32 : entry.compressedSize,
+    20
+  );
+  header.writeUInt32LE(sizeOverflows ? MAX_UINT32 : entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  // Comment length, disk number and internal attributes stay zero
+  header.writeUInt32LE(
+    entry.isFolder ? FOLDER_ATTRIBUTES : FILE_ATTRIBUTES,
+    38
+  );
+  header.writeUInt32LE(offsetOverflows ? MAX_UINT32 : entry.offset, 42);
+
+  return Buffer.concat([header, entry.name, extra]);
+};
+
+const endRecords = (count: number, size: number, offset: number) => {
+  const records: Buffer[] = [];
+  const zip64 =
+    count >= MAX_UINT16 || size >= MAX_UINT32 || offset >= MAX_UINT32;
+
+  if (zip64) {
+    const end64 = Buffer.alloc(56);
+    end64.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+    // Size of the rest of the record
+    end64.writeBigUInt64LE(BigInt(44), 4);
+    end64.writeUInt16LE(VERSION_MADE_BY, 12);
+    end64.writeUInt16LE(VERSION_ZIP64, 14);
+    end64.writeBigUInt64LE(BigInt(count), 24);
+    end64.writeBigUInt64LE(BigInt(count), 32);
+    end64.writeBigUInt64LE(BigInt(size), 40);
+    end64.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+    // The ZIP64 end record starts right after the central directory
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16);
+
+    records.push(end64, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_SIGNATURE, 0);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 10);
+  end.writeUInt32LE(Math.min(size, MAX_UINT32), 12);
+  end.writeUInt32LE(Math.min(offset, MAX_UINT32), 16);
+  records.push(end);
+
+  return Buffer.concat(records);
+};
+
+/**
+ * Yield the bytes of a ZIP archive holding `entries`, in order.
+ */
+async function* writeZip(
+  entries: Iterable<ZipEntry>
+): AsyncGenerator<Uint8Array> {
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+
+  for (const source of entries) {
+    const isFolder = !source.open;
+    const entry: WrittenEntry = {
+      name: Buffer.from(source.name),
+      isFolder,
+      zip64: source.size >= ZIP64_SIZE_THRESHOLD,
+      flags: FLAG_UTF8 | (isFolder ? 0 : FLAG_DATA_DESCRIPTOR),
+      method: source.compress && !isFolder ? METHOD_DEFLATE : METHOD_STORE,
+      ...dosDateTime(source.modifiedAt),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset,
+    };
+
+    const header = localHeader(entry);
+    yield header;
+    offset += header.length;
+
+    if (source.open) {
+      let body = await source.open();
+
+      // Hash the bytes on their way into the compressor
+      body = body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            entry.crc = crc32(chunk, entry.crc);
+            entry.size += chunk.length;
+            controller.enqueue(chunk);
+          },
+        })
+      );
+
+      if (entry.method === METHOD_DEFLATE) {
+        body = body.pipeThrough(
+          new CompressionStream('deflate-raw')
+        ) as ReadableStream<Uint8Array>;
+      }
+
+      const reader = body.getReader();
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          entry.compressedSize += value.length;
+          yield value;
+        }
+      } finally {
+        // Stops the storage read when the download is abandoned
+        await reader.cancel().catch(() => {});
+      }
+      offset += entry.compressedSize;
+
+      const overflows =
+        entry.size >= MAX_UINT32 || entry.compressedSize >= MAX_UINT32;
+      if (overflows && !entry.zip64) {
+        throw new Error(`${source.name} is larger than its declared size.`);
+      }
+
+      const descriptor = dataDescriptor(entry);
+      yield descriptor;
+      offset += descriptor.length;
+    }
+
+    written.push(entry);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+
+  for (const entry of written) {
+    const header = centralHeader(entry);
+    yield header;
+    directorySize += header.length;
+  }
+
+  yield endRecords(written.length, directorySize, directoryOffset);
+}
+
+/**
+ * Stream a ZIP archive of `entries`. Entries are read one at a time,
+ * as the response is consumed; a failure aborts the stream.
+ */
+export const createZipStream = (entries: Iterable<ZipEntry>) => {
+  const chunks = writeZip(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+};
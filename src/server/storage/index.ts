@@ -0,0 +1,168 @@
+import { createLocalStorageDriver } from '@/server/storage/local';
+import { createS3StorageDriver } from '@/server/storage/s3';
+import { createHash } from 'node:crypto';
+
+// Request/response bodies accepted by drivers
+export type StorageBody = ReadableStream<Uint8Array> | Uint8Array;
+
+export type PutOptions = {
+  contentType: string;
+  // Byte length, required by drivers that can't stream unknown sizes
+  size?: number;
+};
+
+// A part acknowledged by `uploadPart`, passed back to complete the upload
+export type CompletedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+// Inclusive byte range, as in an HTTP `Range: bytes=start-end` header
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+export type StoredObject = {
+  body: ReadableStream<Uint8Array>;
+  // Total size of the object, even when only a range was requested
+  size: number;
+};
+
+/**
+ * Storage Driver Interface
+ *
+ * Stores and retrieves the bytes behind `file_system_entries`. Blobs only
+ * hold an opaque key (`storage_key`); the server resolves it through the
+ * configured driver and never hands raw backend locations to clients.
+ */
+export interface StorageDriver {
+  // Write an object, replacing anything already stored under the key
+  put(key: string, body: StorageBody, options: PutOptions): Promise<void>;
+
+  // Read an object (or a byte range of it), or `null` if the key doesn't exist
+  get(key: string, range?: ByteRange): Promise<StoredObject | null>;
+
+  // Remove an object; deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+
+  /**
+   * Multipart Uploads
+   *
+   * Assemble a large object from parts uploaded in separate requests,
+   * following S3 semantics: parts are numbered from 1, re-uploading a
+   * part number replaces it, and every part except the last must be
+   * at least `MIN_PART_SIZE` bytes.
+   */
+  createMultipartUpload(
+    key: string,
+    options: Pick<PutOptions, 'contentType'>
+  ): Promise<string>;
+
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: StorageBody,
+    size: number
+  ): Promise<string>;
+
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[]
+  ): Promise<void>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+// Smallest non-final part S3 accepts (5 MiB)
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Wrap a body stream so the number of bytes that passed through
+ * can be read once the stream has been fully consumed.
+ */
+export const countBytes = (body: ReadableStream<Uint8Array>) => {
+  let size = 0;
+
+  const stream = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  return { stream, getSize: () => size };
+};
+
+/**
+ * Wrap a body stream so the hex SHA-256 of the bytes that passed
+ * through can be read once the stream has been fully consumed.
+ */
+export const hashBytes = (body: ReadableStream<Uint8Array>) => {
+  const hash = createHash('sha256');
+
+  const stream = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hash.update(chunk);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  return { stream, getSha256: () => hash.copy().digest('hex') };
+};
+
+/**
+ * Generate a fresh storage key for a user's upload.
+ *
+ * Keys are namespaced by owner and never derived from the file name,
+ * so renames and moves never touch storage.
+ */
+export const createStorageKey = (ownerId: string) =>
+  `${ownerId}/${crypto.randomUUID()}`;
+
+let driver: StorageDriver | undefined;
+
+/**
+ * Resolve the storage driver from environment config.
+ *
+ * - STORAGE_DRIVER: "local" (default) or "s3"
+ * - local: STORAGE_LOCAL_ROOT (defaults to ./.storage)
+ * - s3: S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID,
+ *   S3_SECRET_ACCESS_KEY (works with AWS, MinIO, R2, etc.)
+ *
+ * The driver is created once and reused across requests.
+ */
+export const getStorage = (): StorageDriver => {
+  if (driver) return driver;
+
+  const kind = process.env.STORAGE_DRIVER ?? 'local';
+
+  switch (kind) {
+    case 'local':
+      driver = createLocalStorageDriver({
+        root: process.env.STORAGE_LOCAL_ROOT ?? '.storage',
+      });
+      break;
+
+    case 's3':
+      driver = createS3StorageDriver({
+        endpoint: process.env.S3_ENDPOINT!,
+        region: process.env.S3_REGION ?? 'us-east-1',
+        bucket: process.env.S3_BUCKET!,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+      });
+      break;
+
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${kind}"`);
+  }
+
+  return driver;
+};
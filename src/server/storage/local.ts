@@ -0,0 +1,111 @@
+import type { StorageBody, StorageDriver } from '@/server/storage';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+
+/**
+ * Local Filesystem Driver
+ *
+ * Stores each object as a file under `root`, using the key as the
+ * relative path. Intended for development, tests and single-node setups.
+ */
+export const createLocalStorageDriver = ({
+  root,
+}: {
+  root: string;
+}): StorageDriver => {
+  const baseDir = path.resolve(root);
+
+  // Map a key to a file path, refusing anything that escapes the root
+  const resolve = (key: string) => {
+    const filePath = path.resolve(baseDir, key);
+
+    if (!filePath.startsWith(baseDir + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+
+    return filePath;
+  };
+
+  // Parts of in-progress multipart uploads live outside the key space
+  const partsDir = (uploadId: string) =>
+    resolve(path.join('.multipart', uploadId));
+
+  const writeStream = async (filePath: string, body: StorageBody) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    const source =
+      body instanceof Uint8Array
+        ? Readable.from([body])
+        : Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+
+    await pipeline(source, createWriteStream(filePath));
+  };
+
+  return {
+    async put(key, body) {
+      await writeStream(resolve(key), body);
+    },
+
+    async get(key, range) {
+      const filePath = resolve(key);
+
+      try {
+        const { size } = await stat(filePath);
+        const stream = createReadStream(filePath, range);
+
+        return {
+          body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+          size,
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+
+    async createMultipartUpload() {
+      const uploadId = randomUUID();
+      await mkdir(partsDir(uploadId), { recursive: true });
+      return uploadId;
+    },
+
+    async uploadPart(_key, uploadId, partNumber, body) {
+      await writeStream(path.join(partsDir(uploadId), String(partNumber)), body);
+      return String(partNumber);
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+
+      // Concatenate parts in order into the final file
+      const output = createWriteStream(filePath);
+      for (const { partNumber } of parts) {
+        await pipeline(
+          createReadStream(path.join(partsDir(uploadId), String(partNumber))),
+          output,
+          { end: false }
+        );
+      }
+      await new Promise<void>((done, fail) => {
+        output.on('error', fail);
+        output.end(done);
+      });
+
+      await rm(partsDir(uploadId), { recursive: true, force: true });
+    },
+
+    async abortMultipartUpload(_key, uploadId) {
+      await rm(partsDir(uploadId), { recursive: true, force: true });
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import type { StorageDriver } from '@/server/storage';
+import { AwsClient } from 'aws4fetch';
+
+type S3Config = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+/**
+ * S3-Compatible Driver
+ *
+ * Talks to any S3 API (AWS, MinIO, R2) with SigV4-signed fetch requests.
+ * Objects are addressed path-style (`{endpoint}/{bucket}/{key}`), which
+ * every S3-compatible server supports.
+ */
+export const createS3StorageDriver = (config: S3Config): StorageDriver => {
+  const client = new AwsClient({
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    region: config.region,
+    service: 's3',
+  });
+
+  const objectUrl = (key: string) =>
+    `${config.endpoint.replace(/\/$/, '')}/${config.bucket}/${key
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}`;
+
+  // Sign a request, then send it with Node's fetch so bodies can stream
+  const send = async (
+    key: string,
+    init: RequestInit,
+    query?: Record<string, string>
+  ) => {
+    const url = query
+      ? `${objectUrl(key)}?${new URLSearchParams(query)}`
+      : objectUrl(key);
+
+    const signed = await client.sign(url, {
+      ...init,
+      body: undefined,
+    });
+
+    return fetch(signed.url, {
+      method: signed.method,
+      headers: signed.headers,
+      body: init.body,
+      duplex: 'half',
+    } as RequestInit & { duplex: 'half' });
+  };
+
+  return {
+    async put(key, body, { contentType, size }) {
+      const headers: Record<string, string> = { 'Content-Type': contentType };
+      if (size !== undefined) headers['Content-Length'] = String(size);
+
+      const res = await send(key, { method: 'PUT', headers, body });
+
+      if (!res.ok) {
+        throw new Error(`S3 PUT ${key} failed with status ${res.status}`);
+      }
+    },
+
+    async get(key, range) {
+      const res = await send(key, {
+        method: 'GET',
+        headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+      });
+
+      if (res.status === 404) return null;
+      if (!res.ok || !res.body) {
+        throw new Error(`S3 GET ${key} failed with status ${res.status}`);
+      }
+
+      // Ranged responses carry the total size in `Content-Range: bytes a-b/size`
+      const total = res.headers.get('Content-Range')?.split('/')[1];
+
+      return {
+        body: res.body,
+        size: Number(total ?? res.headers.get('Content-Length') ?? 0),
+      };
+    },
+
+    async delete(key) {
+      const res = await send(key, { method: 'DELETE' });
+
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed with status ${res.status}`);
+      }
+    },
+
+    async createMultipartUpload(key, { contentType }) {
+      const res = await send(
+        key,
+        { method: 'POST', headers: { 'Content-Type': contentType } },
+        { uploads: '' }
+      );
+
+      const uploadId = (await res.text()).match(
+        /<UploadId>([^<]+)<\/UploadId>/
+      )?.[1];
+
+      if (!res.ok || !uploadId) {
+        throw new Error(
+          `S3 CreateMultipartUpload ${key} failed with status ${res.status}`
+        );
+      }
+
+      return uploadId;
+    },
+
+    async uploadPart(key, uploadId, partNumber, body, size) {
+      const res = await send(
+        key,
+        {
+          method: 'PUT',
+          headers: { 'Content-Length': String(size) },
+          body,
+        },
+        { partNumber: String(partNumber), uploadId }
+      );
+
+      const etag = res.headers.get('ETag');
+
+      if (!res.ok || !etag) {
+        throw new Error(`S3 UploadPart ${key} failed with status ${res.status}`);
+      }
+
+      return etag;
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const body = `<CompleteMultipartUpload>${parts
+        .map(
+          ({ partNumber, etag }) =>
+            `<Part><PartNumber>${partNumber}</PartNumber><ETag>${etag}</ETag></Part>`
+        )
+        .join('')}</CompleteMultipartUpload>`;
+
+      const res = await send(
+        key,
+        { method: 'POST', headers: { 'Content-Type': 'application/xml' }, body },
+        { uploadId }
+      );
+
+      // S3 can report failure inside a 200 response body
+      const text = await res.text();
+      if (!res.ok || text.includes('<Error>')) {
+        throw new Error(
+          `S3 CompleteMultipartUpload ${key} failed with status ${res.status}`
+        );
+      }
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      const res = await send(key, { method: 'DELETE' }, { uploadId });
+
+      if (!res.ok && res.status !== 404) {
+        throw new Error(
+          `S3 AbortMultipartUpload ${key} failed with status ${res.status}`
+        );
+      }
+    },
+  };
+};
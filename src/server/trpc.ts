@@ -1,141 +1,183 @@
+// Database client type shared with the Hono routes
+import type { Database } from '@/db';
 // Import database schema definitions
 import * as schema from '@/db/schema';
-// Clerk authentication utility for server-side user management
-import { currentUser } from '@clerk/nextjs/server';
-// Neon database connection for serverless environments
-import { neon } from '@neondatabase/serverless';
+// Auth provider (Clerk, or local for development and tests)
+import type { AuthProvider } from '@/server/auth';
+// Per-user and per-IP request limits
+import {
+  checkRateLimit,
+  getClientIp,
+  getRateLimitHeaders,
+  type RateLimitName,
+} from '@/server/rate-limit';
+// Personal access tokens, accepted alongside provider sessions
+import {
+  authenticateAccessToken,
+  getBearerAccessToken,
+  hasScope,
+} from '@/server/services/access-tokens';
 // Core tRPC utilities for API setup and error handling
 import { initTRPC, TRPCError } from '@trpc/server';
-// Drizzle ORM adapter for Neon HTTP connections
-import { drizzle } from 'drizzle-orm/neon-http';
-// Hono framework types for request context
-import type { Context } from 'hono';
-// Environment variable helper from Hono
-import { env } from 'hono/adapter';
-
-// Type definition for environment variables (Cloudflare Workers/Vercel Edge style)
-interface Env {
-  Bindings: { DATABASE_URL: string };
-}
-
-// Base context type that will be available in all tRPC procedures
-type TRPCContext = {
-  env: Env['Bindings']; // Environment variables
-  c: Context; // Hono request context
-};
-
-// Initialize tRPC with our context type - this is the foundation of our API
-export const t = initTRPC.context<TRPCContext>().create();
 
 /**
- * Database Middleware
+ * Base context type that will be available in all tRPC procedures
  *
- * This middleware runs before any procedure that uses it and:
- * 1. Extracts the DATABASE_URL from environment variables
- * 2. Creates a Neon database connection
- * 3. Initializes Drizzle ORM with our schema
- * 4. Adds the database instance to the context for use in procedures
+ * Built per request from providers created once (see `createContext`
+ * in src/server/index.ts), so the router can also run in-process, e.g.
+ * `appRouter.createCaller({ db: await createLocalDatabase(), ... })`.
  */
-const databaseMiddleware = t.middleware(async ({ ctx, next }) => {
-  try {
-    // Extract DATABASE_URL from the Hono context environment
-    const { DATABASE_URL } = env(ctx.c);
-
-    // Ensure database URL is configured
-    if (!DATABASE_URL) {
-      throw new TRPCError({
-        code: 'INTERNAL_SERVER_ERROR',
-        message: 'Database URL not configured',
-      });
-    }
-
-    // Create Neon serverless database connection
-    const sql = neon(DATABASE_URL);
-    // Initialize Drizzle ORM with our schema for type-safe queries
-    const db = drizzle(sql, { schema });
-
-    // Continue to the next middleware/procedure with enhanced context
-    return await next({
-      ctx: {
-        ...ctx,
-        db, // Add database instance to context
-      },
-    });
-  } catch (error) {
-    console.error('Database middleware error:', error);
-    throw new TRPCError({
-      code: 'INTERNAL_SERVER_ERROR',
-      message: 'Database connection failed',
-    });
-  }
-});
+export type TRPCContext = {
+  db: Database; // Shared database client
+  auth: AuthProvider; // Identifies the signed-in user
+  headers: Headers; // Request headers (session cookies, bearer tokens)
+  resHeaders?: Headers; // Response headers, when answering over HTTP
+};
 
-// Extended context type that includes the database instance
-type DatabaseContext = TRPCContext & {
-  db: ReturnType<typeof drizzle<typeof schema>>;
+// Per-procedure options, set with `.meta()`
+type TRPCMeta = {
+  // Access token scope required instead of the default: `read` for
+  // queries, `write` for mutations
+  scope?: schema.AccessTokenScope;
+  // Rate limit rule instead of the default: `query` or `mutation`
+  rateLimit?: RateLimitName;
 };
 
+// Initialize tRPC with our context type - this is the foundation of our API
+export const t = initTRPC.context<TRPCContext>().meta<TRPCMeta>().create();
+
 /**
  * Authentication Middleware
  *
- * This middleware runs after database middleware and:
- * 1. Gets the current user from Clerk authentication
+ * This middleware runs before private procedures and:
+ * 1. Gets the current user from a personal access token, if one is
+ *    sent as `Authorization: Bearer`, or else from the auth provider
  * 2. Validates the user exists in our database
  * 3. Adds the user object to the context for authenticated procedures
+ *
+ * Access tokens must also carry the scope the procedure needs.
  */
-const authenticationMiddleware = t.middleware(async ({ ctx, next }) => {
-  // Cast context to include database (this runs after databaseMiddleware)
-  const { db } = ctx as DatabaseContext;
-
-  try {
-    // Get current authenticated user from Clerk
-    const auth = await currentUser();
-
-    // Check if user is authenticated
-    if (!auth) {
-      throw new TRPCError({
-        code: 'UNAUTHORIZED',
-        message: 'Unauthorised.',
+const authenticationMiddleware = t.middleware(
+  async ({ ctx, meta, type, next }) => {
+    const { db, auth, headers } = ctx;
+
+    try {
+      const token = getBearerAccessToken(headers.get('Authorization'));
+
+      if (token) {
+        const resolved = await authenticateAccessToken(db, token);
+
+        if (!resolved) {
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'Invalid or expired access token.',
+          });
+        }
+
+        const scope = meta?.scope ?? (type === 'query' ? 'read' : 'write');
+
+        if (!hasScope(resolved.scopes, scope)) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: `This access token lacks the "${scope}" scope.`,
+          });
+        }
+
+        return next({ ctx: { ...ctx, user: resolved.user } });
+      }
+
+      // Get current authenticated user from the auth provider
+      const identity = await auth.getIdentity(headers);
+
+      // Check if user is authenticated
+      if (!identity) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorised.',
+        });
+      }
+
+      // Find user in our database using the provider's user ID
+      const user = await db.query.users.findFirst({
+        where: ({ externalId }, { eq }) => eq(externalId, identity.externalId),
       });
-    }
 
-    // Find user in our database using Clerk's external ID
-    const user = await db.query.users.findFirst({
-      where: ({ externalId }, { eq }) => eq(externalId, auth.id),
-    });
-
-    // Ensure user exists in our database
-    if (!user) {
+      // Ensure user exists in our database
+      if (!user) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorised.',
+        });
+      }
+
+      // Continue with user added to context
+      return next({
+        ctx: {
+          ...ctx,
+          user, // Add user object to context
+        },
+      });
+    } catch (error) {
+      // Re-throw tRPC errors as-is
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      // Log and wrap unexpected errors
+      console.error('Authentication middleware error:', error);
       throw new TRPCError({
-        code: 'UNAUTHORIZED',
-        message: 'Unauthorised.',
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Authentication failed',
       });
     }
+  }
+);
 
-    // Continue with user added to context
-    return next({
-      ctx: {
-        ...ctx,
-        user, // Add user object to context
-      },
-    });
-  } catch (error) {
-    // Re-throw tRPC errors as-is
-    if (error instanceof TRPCError) {
-      throw error;
-    }
+/**
+ * Rate Limiting
+ *
+ * Takes a token from the caller's bucket for the procedure's rule,
+ * copying the `RateLimit-*` headers to the response, and fails with
+ * TOO_MANY_REQUESTS once the bucket is empty.
+ */
+const enforceRateLimit = async (
+  ctx: TRPCContext,
+  meta: TRPCMeta | undefined,
+  type: 'query' | 'mutation' | 'subscription',
+  subject: string
+) => {
+  const result = await checkRateLimit(
+    meta?.rateLimit ?? (type === 'query' ? 'query' : 'mutation'),
+    subject
+  );
+
+  for (const [header, value] of Object.entries(getRateLimitHeaders(result))) {
+    ctx.resHeaders?.set(header, value);
+  }
 
-    // Log and wrap unexpected errors
-    console.error('Authentication middleware error:', error);
+  if (!result.allowed) {
     throw new TRPCError({
-      code: 'INTERNAL_SERVER_ERROR',
-      message: 'Authentication failed',
+      code: 'TOO_MANY_REQUESTS',
+      message: `Too many requests. Try again in ${result.retryAfterSeconds}s.`,
     });
   }
-});
+};
 
 // Public procedure: Anyone can call, includes database access
-export const publicProcedure = t.procedure.use(databaseMiddleware);
+// Rate limited by IP address
+export const publicProcedure = t.procedure.use(
+  async ({ ctx, meta, type, next }) => {
+    await enforceRateLimit(ctx, meta, type, `ip:${getClientIp(ctx.headers)}`);
+    return next();
+  }
+);
 
 // Private procedure: Requires authentication, includes database + user context
-export const privateProcedure = publicProcedure.use(authenticationMiddleware);
+// Per-entry permission checks live in '@/server/authorization'
+// Rate limited by user
+export const privateProcedure = t.procedure
+  .use(authenticationMiddleware)
+  .use(async ({ ctx, meta, type, next }) => {
+    await enforceRateLimit(ctx, meta, type, `user:${ctx.user.id}`);
+    return next();
+  });